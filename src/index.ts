@@ -1,9 +1,12 @@
 #!/usr/bin/env node
 
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { McpServer, ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import { SubscribeRequestSchema, UnsubscribeRequestSchema } from "@modelcontextprotocol/sdk/types.js";
 import { z } from "zod";
-import { JiraService } from "./services/jira.js";
+import { JiraService, CreatedHierarchyNode, DEFAULT_SEARCH_PAGE_SIZE, MAX_SEARCH_PAGE_SIZE, DEFAULT_COMMENT_PAGE_SIZE, MAX_COMMENT_PAGE_SIZE, DEFAULT_SPRINT_LENGTH_DAYS, DEFAULT_HISTORY_PAGE_SIZE, MAX_HISTORY_PAGE_SIZE, MAX_BALANCED_ISSUES } from "./services/jira.js";
+import { projectHierarchySchema, loadPlanFile, parsePlan, formatPlanDiff, summarizePlanDiff } from "./utils/planFile.js";
+import { ResourceSubscriptions, getResourcePollInterval, issueToMarkdown, parseJiraUri } from "./utils/resources.js";
 
 // Load dotenv only for local development/debugging
 if (process.env.DEBUG === 'true' || process.env.ENVIRONMENT === 'development') {
@@ -24,6 +27,7 @@ const server = new McpServer(
   {
     capabilities: {
       tools: {},
+      resources: { subscribe: true, listChanged: true },
     },
   }
 );
@@ -43,7 +47,7 @@ server.registerTool(
   "get_jira_ticket",
   {
     title: "Get JIRA Ticket",
-    description: "Fetch JIRA ticket details by ID",
+    description: "Fetch JIRA ticket details by ID (the description is returned as Markdown)",
     inputSchema: {
       ticketId: z.string().describe("JIRA ticket ID (e.g., PROJ-123)"),
     },
@@ -63,6 +67,12 @@ server.registerTool(
               status: ticket.fields.status.name,
               assignee: ticket.fields.assignee?.displayName || "Unassigned",
               issueType: ticket.fields.issuetype.name,
+              parent: ticket.fields.parent?.key,
+              subtasks: (ticket.fields.subtasks || []).map(subtask => ({
+                key: subtask.key,
+                summary: subtask.fields.summary,
+                status: subtask.fields.status.name,
+              })),
             }, null, 2),
           },
         ],
@@ -82,26 +92,1256 @@ server.registerTool(
 );
 
 
+const commentVisibilitySchema = z.object({
+  type: z.enum(["role", "group"]).describe("Restrict to a project role or a group"),
+  value: z.string().describe("Role or group name (e.g., 'Service Desk Team', 'jira-developers')"),
+}).describe("Who can see the comment (default: everyone who can see the ticket)");
+
 // Register post_jira_comment tool
 server.registerTool(
-  "post_jira_comment",
+  "post_jira_comment",
+  {
+    title: "Post JIRA Comment",
+    description: "Post a comment to a JIRA ticket, optionally restricted to a project role or group (e.g. an internal note on a service desk ticket) or as a reply to another comment",
+    inputSchema: {
+      ticketId: z.string().describe("JIRA ticket ID (e.g., PROJ-123)"),
+      comment: z.string().describe("Comment text to post (supports markdown: tables, nested lists, panels via '> [!INFO]', mentions via '[@Name](mention:accountId)')"),
+      visibility: commentVisibilitySchema.optional(),
+      replyTo: z.string().optional().describe("ID of a comment to reply to: the reply quotes it, mentions its author and keeps its visibility"),
+    },
+  },
+  async ({ ticketId, comment, visibility, replyTo }) => {
+    try {
+      const posted = await getJiraService().addComment(ticketId, comment, { visibility, replyTo });
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Comment ${posted.id} posted to ${ticketId}` +
+              (posted.visibility ? ` (visible to ${posted.visibility.type} "${posted.visibility.value}")` : ''),
+          },
+        ],
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error: ${error instanceof Error ? error.message : String(error)}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+);
+
+// Register list_jira_comments tool
+server.registerTool(
+  "list_jira_comments",
+  {
+    title: "List JIRA Comments",
+    description: "List the comments on a JIRA ticket as Markdown, newest first, one page at a time. Pass nextCursor back to fetch older comments.",
+    inputSchema: {
+      ticketId: z.string().describe("JIRA ticket ID (e.g., PROJ-123)"),
+      pageSize: z.number().int().min(1).max(MAX_COMMENT_PAGE_SIZE).optional().describe(`Comments per page (default ${DEFAULT_COMMENT_PAGE_SIZE}, max ${MAX_COMMENT_PAGE_SIZE})`),
+      cursor: z.string().optional().describe("Cursor returned as nextCursor by a previous call"),
+    },
+  },
+  async ({ ticketId, pageSize, cursor }) => {
+    try {
+      const result = await getJiraService().listComments(ticketId, { pageSize, cursor });
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify({
+              ticketId,
+              total: result.total,
+              returned: result.comments.length,
+              nextCursor: result.nextCursor || null,
+              comments: result.comments,
+            }, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error: ${error instanceof Error ? error.message : String(error)}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+);
+
+// Register edit_jira_comment tool
+server.registerTool(
+  "edit_jira_comment",
+  {
+    title: "Edit JIRA Comment",
+    description: "Replace the text of a comment on a JIRA ticket, and optionally its visibility",
+    inputSchema: {
+      ticketId: z.string().describe("JIRA ticket ID (e.g., PROJ-123)"),
+      commentId: z.string().describe("Comment ID (from list_jira_comments)"),
+      comment: z.string().describe("New comment text (supports markdown)"),
+      visibility: commentVisibilitySchema.optional(),
+    },
+  },
+  async ({ ticketId, commentId, comment, visibility }) => {
+    try {
+      await getJiraService().editComment(ticketId, commentId, comment, visibility);
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Comment ${commentId} on ${ticketId} updated`,
+          },
+        ],
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error: ${error instanceof Error ? error.message : String(error)}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+);
+
+// Register delete_jira_comment tool
+server.registerTool(
+  "delete_jira_comment",
+  {
+    title: "Delete JIRA Comment",
+    description: "Delete a comment from a JIRA ticket",
+    inputSchema: {
+      ticketId: z.string().describe("JIRA ticket ID (e.g., PROJ-123)"),
+      commentId: z.string().describe("Comment ID (from list_jira_comments)"),
+    },
+  },
+  async ({ ticketId, commentId }) => {
+    try {
+      await getJiraService().deleteComment(ticketId, commentId);
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Comment ${commentId} deleted from ${ticketId}`,
+          },
+        ],
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error: ${error instanceof Error ? error.message : String(error)}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+);
+
+const estimateInputs = {
+  adjustEstimate: z.enum(["auto", "new", "leave", "manual"]).optional().describe("How to change the remaining estimate: auto (reduce by the time spent, default), new (set to newEstimate), leave (unchanged), manual (by adjustBy)"),
+  newEstimate: z.string().optional().describe("Remaining estimate for adjustEstimate 'new' (e.g., '2d')"),
+  adjustBy: z.string().optional().describe("Amount to reduce the estimate by when logging, or increase it by when deleting, for adjustEstimate 'manual' (e.g., '1h')"),
+};
+
+// Register log_work tool
+server.registerTool(
+  "log_work",
+  {
+    title: "Log Work",
+    description: "Log time spent on a JIRA ticket",
+    inputSchema: {
+      ticketId: z.string().describe("JIRA ticket ID (e.g., PROJ-123)"),
+      timeSpent: z.string().describe("Time spent in JIRA's format (e.g., '1h 30m', '2d', '45m')"),
+      started: z.string().optional().describe("When the work started, as an ISO 8601 timestamp (default: now)"),
+      comment: z.string().optional().describe("What was done (supports markdown)"),
+      ...estimateInputs,
+    },
+  },
+  async ({ ticketId, timeSpent, started, comment, adjustEstimate, newEstimate, adjustBy }) => {
+    try {
+      const worklog = await getJiraService().addWorklog(ticketId, {
+        timeSpent,
+        started,
+        comment,
+        adjustEstimate,
+        newEstimate,
+        adjustBy,
+      });
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify({
+              summary: `Logged ${worklog.timeSpent} on ${ticketId}`,
+              worklog,
+            }, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error: ${error instanceof Error ? error.message : String(error)}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+);
+
+// Register list_worklogs tool
+server.registerTool(
+  "list_worklogs",
+  {
+    title: "List Worklogs",
+    description: "List the work logged on a JIRA ticket, with comments as Markdown",
+    inputSchema: {
+      ticketId: z.string().describe("JIRA ticket ID (e.g., PROJ-123)"),
+    },
+  },
+  async ({ ticketId }) => {
+    try {
+      const worklogs = await getJiraService().listWorklogs(ticketId);
+      const totalSeconds = worklogs.reduce((sum, worklog) => sum + worklog.timeSpentSeconds, 0);
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify({
+              ticketId,
+              total: worklogs.length,
+              totalHours: Math.round(totalSeconds / 36) / 100,
+              worklogs,
+            }, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error: ${error instanceof Error ? error.message : String(error)}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+);
+
+// Register update_worklog tool
+server.registerTool(
+  "update_worklog",
+  {
+    title: "Update Worklog",
+    description: "Change the time spent, start time or comment of a worklog. Only the given values change",
+    inputSchema: {
+      ticketId: z.string().describe("JIRA ticket ID (e.g., PROJ-123)"),
+      worklogId: z.string().describe("Worklog ID (from list_worklogs)"),
+      timeSpent: z.string().optional().describe("New time spent (e.g., '2h')"),
+      started: z.string().optional().describe("New start time as an ISO 8601 timestamp"),
+      comment: z.string().optional().describe("New comment (supports markdown)"),
+      adjustEstimate: z.enum(["auto", "new", "leave"]).optional().describe("How to change the remaining estimate (default auto)"),
+      newEstimate: estimateInputs.newEstimate,
+    },
+  },
+  async ({ ticketId, worklogId, timeSpent, started, comment, adjustEstimate, newEstimate }) => {
+    try {
+      const worklog = await getJiraService().updateWorklog(ticketId, worklogId, {
+        timeSpent,
+        started,
+        comment,
+        adjustEstimate,
+        newEstimate,
+      });
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify({
+              summary: `Worklog ${worklogId} on ${ticketId} updated`,
+              worklog,
+            }, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error: ${error instanceof Error ? error.message : String(error)}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+);
+
+// Register delete_worklog tool
+server.registerTool(
+  "delete_worklog",
+  {
+    title: "Delete Worklog",
+    description: "Delete a worklog from a JIRA ticket",
+    inputSchema: {
+      ticketId: z.string().describe("JIRA ticket ID (e.g., PROJ-123)"),
+      worklogId: z.string().describe("Worklog ID (from list_worklogs)"),
+      ...estimateInputs,
+    },
+  },
+  async ({ ticketId, worklogId, adjustEstimate, newEstimate, adjustBy }) => {
+    try {
+      await getJiraService().deleteWorklog(ticketId, worklogId, { adjustEstimate, newEstimate, adjustBy });
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Worklog ${worklogId} deleted from ${ticketId}`,
+          },
+        ],
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error: ${error instanceof Error ? error.message : String(error)}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+);
+
+// Register get_timesheet tool
+server.registerTool(
+  "get_timesheet",
+  {
+    title: "Get Timesheet",
+    description: "Summarize the time logged per user and day over a date range, with the time per ticket",
+    inputSchema: {
+      from: z.string().describe("First day, YYYY-MM-DD"),
+      to: z.string().describe("Last day, YYYY-MM-DD"),
+      jql: z.string().optional().describe("Only tickets matching this JQL (e.g., 'project = PROJ')"),
+      authors: z.array(z.string()).optional().describe("Only these users (display names, accountIds or usernames)"),
+    },
+  },
+  async ({ from, to, jql, authors }) => {
+    try {
+      const timesheet = await getJiraService().getTimesheet({ from, to, jql, authors });
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(timesheet, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error: ${error instanceof Error ? error.message : String(error)}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+);
+
+// Register attach_file_to_ticket tool
+server.registerTool(
+  "attach_file_to_ticket",
+  {
+    title: "Attach File to Ticket",
+    description: "Upload a local file (e.g. a log or screenshot) as an attachment to a JIRA ticket. Files over JIRA_MAX_ATTACHMENT_SIZE (default 10MB) are rejected",
+    inputSchema: {
+      ticketId: z.string().describe("JIRA ticket ID (e.g., PROJ-123)"),
+      filePath: z.string().describe("Path of the local file to upload"),
+      filename: z.string().optional().describe("Attachment name in JIRA (defaults to the file's name)"),
+    },
+  },
+  async ({ ticketId, filePath, filename }) => {
+    try {
+      const attachments = await getJiraService().attachFile(ticketId, filePath, filename);
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify({
+              summary: `Attached ${attachments.map(attachment => attachment.filename).join(', ')} to ${ticketId}`,
+              attachments,
+            }, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error: ${error instanceof Error ? error.message : String(error)}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+);
+
+// Register list_attachments tool
+server.registerTool(
+  "list_attachments",
+  {
+    title: "List Attachments",
+    description: "List the attachments of a JIRA ticket with their IDs, sizes and types",
+    inputSchema: {
+      ticketId: z.string().describe("JIRA ticket ID (e.g., PROJ-123)"),
+    },
+  },
+  async ({ ticketId }) => {
+    try {
+      const attachments = await getJiraService().listAttachments(ticketId);
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify({
+              ticketId,
+              total: attachments.length,
+              attachments,
+            }, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error: ${error instanceof Error ? error.message : String(error)}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+);
+
+// Register download_attachment tool
+server.registerTool(
+  "download_attachment",
+  {
+    title: "Download Attachment",
+    description: "Download a JIRA attachment to a local path. Small text attachments (logs, JSON, ...) are also returned inline, up to JIRA_MAX_INLINE_ATTACHMENT_SIZE (default 64KB)",
+    inputSchema: {
+      attachmentId: z.string().describe("Attachment ID (from list_attachments)"),
+      outputPath: z.string().optional().describe("File or existing directory to save to (defaults to a jira-attachments folder in the temp directory)"),
+    },
+  },
+  async ({ attachmentId, outputPath }) => {
+    try {
+      const download = await getJiraService().downloadAttachment(attachmentId, outputPath);
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify({
+              summary: `Saved ${download.attachment.filename} to ${download.path}`,
+              ...download,
+            }, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error: ${error instanceof Error ? error.message : String(error)}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+);
+
+const sprintStateSchema = z.enum(["future", "active", "closed"]);
+const sprintTargetSchema = z.union([z.number().int(), z.literal("backlog")]);
+
+// Register list_boards tool
+server.registerTool(
+  "list_boards",
+  {
+    title: "List Boards",
+    description: "List agile (scrum and kanban) boards, optionally only those of a project",
+    inputSchema: {
+      projectKey: z.string().optional().describe("Only boards that show this project"),
+      name: z.string().optional().describe("Only boards whose name contains this text"),
+      type: z.enum(["scrum", "kanban"]).optional().describe("Only boards of this type"),
+    },
+  },
+  async ({ projectKey, name, type }) => {
+    try {
+      const boards = await getJiraService().listBoards({ projectKey, name, type });
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify({ boards, total: boards.length }, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error: ${error instanceof Error ? error.message : String(error)}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+);
+
+// Register list_sprints tool
+server.registerTool(
+  "list_sprints",
+  {
+    title: "List Sprints",
+    description: "List the sprints of a scrum board, optionally only those in the given states",
+    inputSchema: {
+      boardId: z.number().int().describe("Board ID (from list_boards)"),
+      states: z.array(sprintStateSchema).optional().describe("Sprint states to include (defaults to all)"),
+    },
+  },
+  async ({ boardId, states }) => {
+    try {
+      const sprints = await getJiraService().listSprints(boardId, states);
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify({ boardId, sprints, total: sprints.length }, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error: ${error instanceof Error ? error.message : String(error)}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+);
+
+// Register get_sprint_issues tool
+server.registerTool(
+  "get_sprint_issues",
+  {
+    title: "Get Sprint Issues",
+    description: "Get the issues in a sprint in rank order, one page at a time. Pass nextCursor back to fetch the next page.",
+    inputSchema: {
+      sprintId: z.number().int().describe("Sprint ID (from list_sprints)"),
+      jql: z.string().optional().describe("Only issues matching this JQL (e.g., 'assignee = currentUser()')"),
+      fields: z.array(z.string()).optional().describe("Fields to return (defaults to summary, status, issuetype, assignee, priority)"),
+      pageSize: z.number().int().min(1).max(MAX_SEARCH_PAGE_SIZE).optional().describe(`Issues per page (default ${DEFAULT_SEARCH_PAGE_SIZE}, max ${MAX_SEARCH_PAGE_SIZE})`),
+      cursor: z.string().optional().describe("Cursor returned as nextCursor by a previous call"),
+    },
+  },
+  async ({ sprintId, jql, fields, pageSize, cursor }) => {
+    try {
+      const result = await getJiraService().getSprintIssues(sprintId, { jql, fields, pageSize, cursor });
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify({
+              sprintId,
+              total: result.total,
+              returned: result.issues.length,
+              nextCursor: result.nextCursor || null,
+              truncated: result.truncated,
+              issues: result.issues.map(issue => ({
+                key: issue.key,
+                fields: issue.fields,
+              })),
+            }, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error: ${error instanceof Error ? error.message : String(error)}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+);
+
+// Register move_issues_to_sprint tool
+server.registerTool(
+  "move_issues_to_sprint",
+  {
+    title: "Move Issues to Sprint",
+    description: "Move issues into a future or active sprint, or back to the backlog",
+    inputSchema: {
+      issueKeys: z.array(z.string()).min(1).describe("Issues to move (e.g., ['PROJ-1', 'PROJ-2'])"),
+      sprintId: sprintTargetSchema.describe("Sprint ID, or 'backlog' to remove the issues from their sprint"),
+    },
+  },
+  async ({ issueKeys, sprintId }) => {
+    try {
+      await getJiraService().moveIssuesToSprint(issueKeys, sprintId);
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: sprintId === 'backlog'
+              ? `Moved ${issueKeys.join(', ')} to the backlog`
+              : `Moved ${issueKeys.join(', ')} to sprint ${sprintId}`,
+          },
+        ],
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error: ${error instanceof Error ? error.message : String(error)}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+);
+
+// Register rank_issues tool
+server.registerTool(
+  "rank_issues",
+  {
+    title: "Rank Issues",
+    description: "Rank issues in the backlog or a sprint directly before or after another issue, keeping their given order",
+    inputSchema: {
+      issueKeys: z.array(z.string()).min(1).max(50).describe("Issues to rank, in the order they should end up"),
+      before: z.string().optional().describe("Rank the issues directly above this issue"),
+      after: z.string().optional().describe("Rank the issues directly below this issue"),
+    },
+  },
+  async ({ issueKeys, before, after }) => {
+    try {
+      await getJiraService().rankIssues({ issueKeys, before, after });
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: before
+              ? `Ranked ${issueKeys.join(', ')} before ${before}`
+              : `Ranked ${issueKeys.join(', ')} after ${after}`,
+          },
+        ],
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error: ${error instanceof Error ? error.message : String(error)}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+);
+
+// Register create_sprint tool
+server.registerTool(
+  "create_sprint",
+  {
+    title: "Create Sprint",
+    description: "Create a future sprint on a scrum board",
+    inputSchema: {
+      boardId: z.number().int().describe("Board ID (from list_boards)"),
+      name: z.string().describe("Sprint name"),
+      goal: z.string().optional().describe("Sprint goal"),
+      startDate: z.string().optional().describe("Planned start (ISO 8601, e.g. 2024-05-06T09:00:00Z)"),
+      endDate: z.string().optional().describe("Planned end (ISO 8601)"),
+    },
+  },
+  async ({ boardId, name, goal, startDate, endDate }) => {
+    try {
+      const sprint = await getJiraService().createSprint({ boardId, name, goal, startDate, endDate });
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(sprint, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error: ${error instanceof Error ? error.message : String(error)}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+);
+
+// Register start_sprint tool
+server.registerTool(
+  "start_sprint",
+  {
+    title: "Start Sprint",
+    description: `Start a future sprint. It starts now unless startDate is given, and ends at its planned end date or ${DEFAULT_SPRINT_LENGTH_DAYS} days after the start`,
+    inputSchema: {
+      sprintId: z.number().int().describe("Sprint ID (from list_sprints)"),
+      startDate: z.string().optional().describe("Start (ISO 8601, defaults to now)"),
+      endDate: z.string().optional().describe("End (ISO 8601)"),
+      goal: z.string().optional().describe("Sprint goal"),
+    },
+  },
+  async ({ sprintId, startDate, endDate, goal }) => {
+    try {
+      const sprint = await getJiraService().startSprint(sprintId, { startDate, endDate, goal });
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(sprint, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error: ${error instanceof Error ? error.message : String(error)}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+);
+
+// Register close_sprint tool
+server.registerTool(
+  "close_sprint",
+  {
+    title: "Close Sprint",
+    description: "Close an active sprint. Issues that aren't done move to the backlog, or to another sprint",
+    inputSchema: {
+      sprintId: z.number().int().describe("Sprint ID (from list_sprints)"),
+      moveOpenIssuesTo: sprintTargetSchema.default("backlog").describe("Sprint ID for issues that aren't done, or 'backlog' (default)"),
+    },
+  },
+  async ({ sprintId, moveOpenIssuesTo }) => {
+    try {
+      const result = await getJiraService().closeSprint(sprintId, moveOpenIssuesTo);
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error: ${error instanceof Error ? error.message : String(error)}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+);
+
+// Register list_watchers tool
+server.registerTool(
+  "list_watchers",
+  {
+    title: "List Watchers",
+    description: "List the users watching a JIRA ticket",
+    inputSchema: {
+      ticketId: z.string().describe("JIRA ticket ID (e.g., PROJ-123)"),
+    },
+  },
+  async ({ ticketId }) => {
+    try {
+      const watchers = await getJiraService().listWatchers(ticketId);
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify({ ticketId, watchers, total: watchers.length }, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error: ${error instanceof Error ? error.message : String(error)}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+);
+
+// Register add_watcher tool
+server.registerTool(
+  "add_watcher",
+  {
+    title: "Add Watcher",
+    description: "Add a user as a watcher of a JIRA ticket, e.g. to loop in a reviewer",
+    inputSchema: {
+      ticketId: z.string().describe("JIRA ticket ID (e.g., PROJ-123)"),
+      user: z.string().describe("Email, display name, username or accountId"),
+    },
+  },
+  async ({ ticketId, user }) => {
+    try {
+      const watcher = await getJiraService().addWatcher(ticketId, user);
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `${watcher.displayName} is now watching ${ticketId}`,
+          },
+        ],
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error: ${error instanceof Error ? error.message : String(error)}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+);
+
+// Register remove_watcher tool
+server.registerTool(
+  "remove_watcher",
+  {
+    title: "Remove Watcher",
+    description: "Stop a user watching a JIRA ticket",
+    inputSchema: {
+      ticketId: z.string().describe("JIRA ticket ID (e.g., PROJ-123)"),
+      user: z.string().describe("Email, display name, username or accountId"),
+    },
+  },
+  async ({ ticketId, user }) => {
+    try {
+      const watcher = await getJiraService().removeWatcher(ticketId, user);
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `${watcher.displayName} is no longer watching ${ticketId}`,
+          },
+        ],
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error: ${error instanceof Error ? error.message : String(error)}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+);
+
+// Register notify_users tool
+server.registerTool(
+  "notify_users",
+  {
+    title: "Notify Users",
+    description: "Email users about a JIRA ticket through JIRA's notification scheme - named users and groups, or the ticket's reporter, assignee, watchers or voters",
+    inputSchema: {
+      ticketId: z.string().describe("JIRA ticket ID (e.g., PROJ-123)"),
+      subject: z.string().describe("Email subject"),
+      body: z.string().describe("Email body (plain text)"),
+      users: z.array(z.string()).optional().describe("Recipients by email, display name, username or accountId"),
+      groups: z.array(z.string()).optional().describe("Recipient group names"),
+      reporter: z.boolean().optional().describe("Notify the reporter"),
+      assignee: z.boolean().optional().describe("Notify the assignee"),
+      watchers: z.boolean().optional().describe("Notify the watchers"),
+      voters: z.boolean().optional().describe("Notify the voters"),
+    },
+  },
+  async ({ ticketId, subject, body, users, groups, reporter, assignee, watchers, voters }) => {
+    try {
+      const result = await getJiraService().notifyUsers(ticketId, { subject, body, users, groups, reporter, assignee, watchers, voters });
+
+      const recipients = [
+        ...result.users.map(user => user.displayName),
+        ...(groups || []).map((group: string) => `group ${group}`),
+        ...Object.entries({ reporter, assignee, watchers, voters }).filter(([, selected]) => selected).map(([role]) => `the ${role}`),
+      ];
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Notified ${recipients.join(', ')} about ${ticketId}`,
+          },
+        ],
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error: ${error instanceof Error ? error.message : String(error)}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+);
+
+// Register list_votes tool
+server.registerTool(
+  "list_votes",
   {
-    title: "Post JIRA Comment",
-    description: "Post a comment to a JIRA ticket",
+    title: "List Votes",
+    description: "Show how many votes a JIRA ticket has, whether you have voted, and who voted",
+    inputSchema: {
+      ticketId: z.string().describe("JIRA ticket ID (e.g., PROJ-123)"),
+    },
+  },
+  async ({ ticketId }) => {
+    try {
+      const votes = await getJiraService().listVotes(ticketId);
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(votes, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error: ${error instanceof Error ? error.message : String(error)}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+);
+
+// Register add_vote tool
+server.registerTool(
+  "add_vote",
+  {
+    title: "Add Vote",
+    description: "Vote for a JIRA ticket as the authenticated user (JIRA doesn't allow voting on behalf of others)",
+    inputSchema: {
+      ticketId: z.string().describe("JIRA ticket ID (e.g., PROJ-123)"),
+    },
+  },
+  async ({ ticketId }) => {
+    try {
+      await getJiraService().addVote(ticketId);
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Voted for ${ticketId}`,
+          },
+        ],
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error: ${error instanceof Error ? error.message : String(error)}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+);
+
+// Register remove_vote tool
+server.registerTool(
+  "remove_vote",
+  {
+    title: "Remove Vote",
+    description: "Withdraw the authenticated user's vote for a JIRA ticket",
+    inputSchema: {
+      ticketId: z.string().describe("JIRA ticket ID (e.g., PROJ-123)"),
+    },
+  },
+  async ({ ticketId }) => {
+    try {
+      await getJiraService().removeVote(ticketId);
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Removed your vote for ${ticketId}`,
+          },
+        ],
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error: ${error instanceof Error ? error.message : String(error)}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+);
+
+// Register assign_ticket tool
+server.registerTool(
+  "assign_ticket",
+  {
+    title: "Assign Ticket",
+    description: "Assign a JIRA ticket to a user, hand it to the project's default assignee ('automatic'), or unassign it (null)",
     inputSchema: {
       ticketId: z.string().describe("JIRA ticket ID (e.g., PROJ-123)"),
-      comment: z.string().describe("Comment text to post"),
+      assignee: z.string().nullable().describe("Email, display name, username, accountId or 'me'; 'automatic' for the project's default assignee; null to unassign"),
+    },
+  },
+  async ({ ticketId, assignee }) => {
+    try {
+      const user = await getJiraService().assignTicket(ticketId, assignee);
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: user ? `Assigned ${ticketId} to ${user.displayName}` : `${ticketId} is unassigned`,
+          },
+        ],
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error: ${error instanceof Error ? error.message : String(error)}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+);
+
+// Register balance_assignments tool
+server.registerTool(
+  "balance_assignments",
+  {
+    title: "Balance Assignments",
+    description: `Distribute unassigned issues matching a JQL query across team members, each to whoever has the fewest open issues. Returns the proposed assignments without changing anything - review them, then pass the approved ones back as assignments with dryRun false. Exactly those are applied; any whose issue has been assigned or no longer matches since is reported as a failure. At most ${MAX_BALANCED_ISSUES} issues at a time.`,
+    inputSchema: {
+      jql: z.string().describe("JQL for the issues to distribute (e.g., 'project = PROJ AND sprint in openSprints()'); only unassigned matches are used"),
+      members: z.array(z.string()).min(1).describe("Team members by email, display name, username or accountId"),
+      dryRun: z.boolean().default(true).describe("Only propose the assignments (default: true)"),
+      assignments: z.array(z.object({
+        issueKey: z.string().describe("Issue key from the proposal"),
+        assignee: z.string().describe("One of the members, e.g. the proposal's assigneeId"),
+      })).optional().describe("The approved assignments to apply - required when dryRun is false"),
+    },
+  },
+  async ({ jql, members, dryRun = true, assignments }) => {
+    try {
+      const result = await getJiraService().balanceAssignments(jql, members, dryRun, assignments);
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify({
+              jql: result.jql,
+              dryRun: result.dryRun,
+              workload: result.workload.map(entry => ({
+                member: entry.user.displayName,
+                openIssues: entry.openIssues,
+                proposed: entry.proposed,
+              })),
+              assignments: result.assignments.map(assignment => ({
+                issueKey: assignment.issueKey,
+                summary: assignment.summary,
+                assignee: assignment.assignee.displayName,
+                assigneeId: assignment.assignee.id,
+              })),
+              ...(!result.dryRun ? { applied: result.applied, failures: result.failures } : result.failures.length > 0 && { failures: result.failures }),
+            }, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error: ${error instanceof Error ? error.message : String(error)}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+);
+
+// Register describe_jira_project tool
+server.registerTool(
+  "describe_jira_project",
+  {
+    title: "Describe JIRA Project",
+    description: "Describe a JIRA project: its issue types with their workflow statuses, priorities, components, unarchived versions and issue link types. Use it to pick valid names before creating or editing tickets. Cached for a few minutes.",
+    inputSchema: {
+      projectKey: z.string().optional().describe("Project key (uses JIRA_PROJECT_KEY env var if not provided)"),
+      refresh: z.boolean().optional().describe("Bypass the cache"),
     },
   },
-  async ({ ticketId, comment }) => {
+  async ({ projectKey, refresh }) => {
+    try {
+      const catalog = await getJiraService().describeProject(projectKey, refresh);
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(catalog, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error: ${error instanceof Error ? error.message : String(error)}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+);
+
+// Register list_link_types tool
+server.registerTool(
+  "list_link_types",
+  {
+    title: "List Link Types",
+    description: "List the issue link types available for link_jira_issues, with their inward and outward descriptions",
+    inputSchema: {},
+  },
+  async () => {
     try {
-      await getJiraService().addComment(ticketId, comment);
+      const linkTypes = await getJiraService().getAvailableLinkTypes();
 
       return {
         content: [
           {
             type: "text",
-            text: `Comment posted to ${ticketId}`,
+            text: JSON.stringify({ linkTypes, total: linkTypes.length }, null, 2),
           },
         ],
       };
@@ -124,39 +1364,142 @@ server.registerTool(
   "create_jira_ticket",
   {
     title: "Create JIRA Ticket",
-    description: "Create a new JIRA ticket in the specified project",
+    description: "Create a new JIRA ticket in the specified project. The issue type, required fields and allowed values are checked against the project's create screen first; errors list the missing fields and their allowed values",
     inputSchema: {
       summary: z.string().describe("Ticket summary/title"),
       description: z.string().optional().describe("Ticket description (optional)"),
-      issueType: z.string().default("Task").describe("Issue type (e.g., 'Task', 'Story', 'Bug', 'Epic')"),
+      issueType: z.string().default("Task").describe("Issue type (e.g., 'Task', 'Story', 'Bug', 'Epic') - see describe_jira_project"),
       projectKey: z.string().optional().describe("Project key (uses JIRA_PROJECT_KEY env var if not provided)"),
-      assignee: z.string().optional().describe("Assignee username (optional)"),
+      assignee: z.string().optional().describe("Assignee email, display name, username, accountId or 'me' (optional)"),
+      priority: z.string().optional().describe("Priority (e.g., 'High', 'Medium', 'Low')"),
+      fields: z.record(z.any()).optional().describe("Other fields by name or ID, e.g. { \"Story Points\": 3, \"Team\": \"Platform\" } - see list_jira_fields"),
+    },
+  },
+  async ({ summary, description, issueType = "Task", projectKey, assignee, priority, fields }) => {
+    try {
+      const ticket = await getJiraService().createTicket({
+        summary,
+        description,
+        issueType,
+        projectKey,
+        assignee,
+        priority,
+        fields,
+      });
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify({
+              key: ticket.key,
+              summary: ticket.fields.summary,
+              description: ticket.fields.description,
+              status: ticket.fields.status.name,
+              assignee: ticket.fields.assignee?.displayName || "Unassigned",
+              issueType: ticket.fields.issuetype.name,
+              url: `${process.env.JIRA_BASE_URL}/browse/${ticket.key}`,
+            }, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error: ${error instanceof Error ? error.message : String(error)}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+);
+
+// Register create_subtask tool
+server.registerTool(
+  "create_subtask",
+  {
+    title: "Create Sub-task",
+    description: "Create a sub-task under a JIRA ticket, using the project's sub-task issue type",
+    inputSchema: {
+      parentKey: z.string().describe("Parent ticket key (e.g., PROJ-123)"),
+      summary: z.string().describe("Sub-task summary/title"),
+      description: z.string().optional().describe("Sub-task description (optional)"),
+      issueType: z.string().optional().describe("Sub-task issue type (defaults to the project's first sub-task type, e.g. 'Sub-task' or 'Subtask')"),
+      assignee: z.string().optional().describe("Assignee email, display name, username, accountId or 'me' (optional)"),
       priority: z.string().optional().describe("Priority (e.g., 'High', 'Medium', 'Low')"),
     },
   },
-  async ({ summary, description, issueType = "Task", projectKey, assignee, priority }) => {
+  async ({ parentKey, summary, description, issueType, assignee, priority }) => {
+    try {
+      const subtask = await getJiraService().createSubtask(parentKey, {
+        summary,
+        description,
+        issueType,
+        assignee,
+        priority,
+      });
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify({
+              key: subtask.key,
+              parent: parentKey,
+              summary: subtask.fields.summary,
+              status: subtask.fields.status.name,
+              issueType: subtask.fields.issuetype.name,
+              url: `${process.env.JIRA_BASE_URL}/browse/${subtask.key}`,
+            }, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error: ${error instanceof Error ? error.message : String(error)}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+);
+
+// Register list_subtasks tool
+server.registerTool(
+  "list_subtasks",
+  {
+    title: "List Sub-tasks",
+    description: "List the sub-tasks of a JIRA ticket",
+    inputSchema: {
+      parentKey: z.string().describe("Parent ticket key (e.g., PROJ-123)"),
+    },
+  },
+  async ({ parentKey }) => {
     try {
-      const ticket = await getJiraService().createTicket({
-        summary,
-        description,
-        issueType,
-        projectKey,
-        assignee,
-        priority,
-      });
+      const subtasks = await getJiraService().getSubtasks(parentKey);
 
       return {
         content: [
           {
             type: "text",
             text: JSON.stringify({
-              key: ticket.key,
-              summary: ticket.fields.summary,
-              description: ticket.fields.description,
-              status: ticket.fields.status.name,
-              assignee: ticket.fields.assignee?.displayName || "Unassigned",
-              issueType: ticket.fields.issuetype.name,
-              url: `${process.env.JIRA_BASE_URL}/browse/${ticket.key}`,
+              parent: parentKey,
+              total: subtasks.length,
+              subtasks: subtasks.map(subtask => ({
+                key: subtask.key,
+                summary: subtask.fields.summary,
+                status: subtask.fields.status.name,
+                issueType: subtask.fields.issuetype.name,
+                priority: subtask.fields.priority?.name,
+                url: `${process.env.JIRA_BASE_URL}/browse/${subtask.key}`,
+              })),
             }, null, 2),
           },
         ],
@@ -184,7 +1527,7 @@ server.registerTool(
     inputSchema: {
       fromIssue: z.string().describe("Source issue key (e.g., PROJ-123)"),
       toIssue: z.string().describe("Target issue key (e.g., PROJ-124)"),
-      linkType: z.string().describe("Link type (e.g., 'blocks', 'relates to', 'depends on', 'duplicates')"),
+      linkType: z.string().describe("Link type (e.g., 'blocks', 'relates to', 'depends on', 'duplicates') - see list_link_types"),
       comment: z.string().optional().describe("Optional comment for the link"),
     },
   },
@@ -305,46 +1648,64 @@ server.registerTool(
   "create_project_hierarchy",
   {
     title: "Create Project Hierarchy",
-    description: "Bulk create epic-story-task hierarchies",
+    description: "Bulk create issue hierarchies - epic/stories/tasks, or a tree of any depth with an issue type per level (e.g. Initiative → Epic → Story → Sub-task) checked against the project's hierarchy. If a step fails, created issues are either kept with a resume token to continue later, or rolled back by deleting or closing them",
     inputSchema: {
       projectKey: z.string().optional().describe("Project key (uses JIRA_PROJECT_KEY env var if not provided)"),
-      hierarchy: z.object({
-        epic: z.object({
-          summary: z.string().describe("Epic summary"),
-          description: z.string().optional().describe("Epic description"),
-        }),
-        stories: z.array(z.object({
-          summary: z.string().describe("Story summary"),
-          description: z.string().optional().describe("Story description"),
-          tasks: z.array(z.object({
-            summary: z.string().describe("Task summary"),
-            description: z.string().optional().describe("Task description"),
-          })).optional().describe("Tasks for this story"),
-        })).describe("Stories in the epic"),
-      }).describe("Project hierarchy definition"),
-    },
-  },
-  async ({ projectKey, hierarchy }) => {
-    try {
-      const result = await getJiraService().createProjectHierarchy(hierarchy, projectKey);
+      hierarchy: projectHierarchySchema,
+      onFailure: z.enum(["resume", "delete", "close"]).optional().describe("On failure: keep created issues and return a resume token (default), or roll back by deleting or closing them"),
+      resumeToken: z.string().optional().describe("Resume token from a failed run - skips issues that were already created"),
+    },
+  },
+  async ({ projectKey, hierarchy, onFailure, resumeToken }) => {
+    try {
+      const result = await getJiraService().createProjectHierarchy(hierarchy, projectKey, { onFailure, resumeToken });
+
+      if (result.status !== 'created' || !result.root) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify({
+                status: result.status,
+                failure: result.failure,
+                existingIssues: result.created.map(entry => ({
+                  path: entry.path,
+                  key: entry.key,
+                  issueType: entry.issueType,
+                  summary: entry.summary,
+                  externalId: entry.externalId,
+                  action: entry.action,
+                  parentKey: entry.parentKey,
+                  linked: entry.linked,
+                  url: `${process.env.JIRA_BASE_URL}/browse/${entry.key}`,
+                })),
+                rollback: result.rollback,
+                resumeToken: result.resumeToken,
+              }, null, 2),
+            },
+          ],
+          isError: true,
+        };
+      }
+
+      const actions = new Map(result.created.map(entry => [entry.key, entry.action]));
+      const countAction = (action: string) => result.created.filter(entry => entry.action === action).length;
+
+      const describeNode = (node: CreatedHierarchyNode): any => ({
+        key: node.ticket.key,
+        issueType: node.ticket.fields.issuetype?.name,
+        summary: node.ticket.fields.summary,
+        action: actions.get(node.ticket.key),
+        url: `${process.env.JIRA_BASE_URL}/browse/${node.ticket.key}`,
+        children: node.children.length > 0 ? node.children.map(describeNode) : undefined,
+      });
 
       const summary = {
-        epic: {
-          key: result.epic.key,
-          summary: result.epic.fields.summary,
-          url: `${process.env.JIRA_BASE_URL}/browse/${result.epic.key}`,
-        },
-        stories: result.stories.map(({ story, tasks }) => ({
-          key: story.key,
-          summary: story.fields.summary,
-          url: `${process.env.JIRA_BASE_URL}/browse/${story.key}`,
-          tasks: tasks.map(task => ({
-            key: task.key,
-            summary: task.fields.summary,
-            url: `${process.env.JIRA_BASE_URL}/browse/${task.key}`,
-          })),
-        })),
-        totalCreated: 1 + result.stories.length + result.stories.reduce((sum, s) => sum + s.tasks.length, 0),
+        status: result.status,
+        root: describeNode(result.root),
+        totalCreated: countAction('created'),
+        totalUpdated: countAction('updated'),
+        totalUnchanged: countAction('unchanged'),
       };
 
       return {
@@ -369,19 +1730,102 @@ server.registerTool(
   }
 );
 
+// Register apply_jira_plan tool
+server.registerTool(
+  "apply_jira_plan",
+  {
+    title: "Apply JIRA Plan",
+    description: "Diff a YAML or JSON plan file (an epic/story/task hierarchy where every node has an externalId) against live JIRA, then apply it: create missing issues, update changed summaries and descriptions, and reparent moved issues",
+    inputSchema: {
+      file: z.string().optional().describe("Path to a YAML or JSON plan file"),
+      plan: z.string().optional().describe("Plan content as YAML or JSON, instead of a file"),
+      projectKey: z.string().optional().describe("Project key (overrides the plan's projectKey, then JIRA_PROJECT_KEY)"),
+      dryRun: z.boolean().optional().describe("Only show the diff without changing anything (default: false)"),
+      onFailure: z.enum(["resume", "delete", "close"]).optional().describe("On failure: keep created issues (default), or roll back by deleting or closing them"),
+    },
+  },
+  async ({ file, plan, projectKey, dryRun = false, onFailure }) => {
+    try {
+      if (!file === !plan) {
+        throw new Error("Provide either file or plan");
+      }
+
+      const jiraPlan = file ? loadPlanFile(file) : parsePlan(plan!);
+      const project = projectKey || jiraPlan.projectKey;
+      const diff = await getJiraService().diffProjectHierarchy(jiraPlan.hierarchy, project);
+      const counts = summarizePlanDiff(diff);
+      const hasChanges = counts.create + counts.update > 0;
+
+      if (dryRun || !hasChanges) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify({
+                applied: false,
+                summary: hasChanges ? "Dry run - no changes applied" : "JIRA already matches the plan",
+                diff: formatPlanDiff(diff),
+                changes: diff,
+              }, null, 2),
+            },
+          ],
+        };
+      }
+
+      const result = await getJiraService().createProjectHierarchy(jiraPlan.hierarchy, project, { onFailure });
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify({
+              applied: result.status === 'created',
+              summary: `Applied ${counts.create} creations and ${counts.update} updates - ${result.status}`,
+              diff: formatPlanDiff(diff),
+              status: result.status,
+              failure: result.failure,
+              issues: result.created.map(entry => ({
+                path: entry.path,
+                key: entry.key,
+                externalId: entry.externalId,
+                action: entry.action,
+                url: `${process.env.JIRA_BASE_URL}/browse/${entry.key}`,
+              })),
+              rollback: result.rollback,
+              resumeToken: result.resumeToken,
+            }, null, 2),
+          },
+        ],
+        isError: result.status !== 'created',
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error: ${error instanceof Error ? error.message : String(error)}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+);
+
 // Register validate_project_structure tool
 server.registerTool(
   "validate_project_structure",
   {
     title: "Validate Project Structure",
-    description: "Verify hierarchical relationships are correct",
+    description: "Verify hierarchical relationships are correct: walks the tree below an issue, checking expected children and the project's hierarchy levels",
     inputSchema: {
-      epicKey: z.string().describe("Epic key to validate (e.g., PROJ-123)"),
+      epicKey: z.string().describe("Root issue key to validate, usually an epic (e.g., PROJ-123)"),
+      issueTypes: z.array(z.string()).optional().describe("Expected issue type per level, starting with the root (default: Epic, Story, Task)"),
     },
   },
-  async ({ epicKey }) => {
+  async ({ epicKey, issueTypes }) => {
     try {
-      const validation = await getJiraService().validateProjectStructure(epicKey);
+      const validation = await getJiraService().validateProjectStructure(epicKey, issueTypes);
 
       return {
         content: [
@@ -419,7 +1863,7 @@ server.registerTool(
     description: "Update a JIRA ticket description with proper formatting",
     inputSchema: {
       ticketId: z.string().describe("JIRA ticket ID (e.g., PROJ-123)"),
-      description: z.string().describe("New description text (supports markdown that will be converted to JIRA markup)"),
+      description: z.string().describe("New description text (supports markdown that will be converted to ADF on JIRA Cloud or JIRA markup on JIRA Server)"),
     },
   },
   async ({ ticketId, description }) => {
@@ -448,28 +1892,193 @@ server.registerTool(
   }
 );
 
+// Register edit_jira_ticket tool
+server.registerTool(
+  "edit_jira_ticket",
+  {
+    title: "Edit JIRA Ticket",
+    description: "Set fields on a JIRA ticket: summary, labels, components, fix versions, priority, assignee, due date, story points and any custom field by name or ID. Values are validated against the ticket's edit metadata; if a field isn't editable or a value isn't allowed, nothing is changed and the error lists every problem",
+    inputSchema: {
+      ticketId: z.string().describe("JIRA ticket ID (e.g., PROJ-123)"),
+      summary: z.string().optional().describe("New summary"),
+      labels: z.array(z.string()).optional().describe("Labels (replaces the existing labels)"),
+      components: z.array(z.string()).optional().describe("Component names (replaces the existing components)"),
+      fixVersions: z.array(z.string()).optional().describe("Fix version names (replaces the existing versions)"),
+      priority: z.string().optional().describe("Priority name (e.g., 'High')"),
+      assignee: z.string().nullable().optional().describe("Assignee email, display name, username, accountId or 'me'; null to unassign"),
+      dueDate: z.string().nullable().optional().describe("Due date as YYYY-MM-DD; null to clear"),
+      storyPoints: z.number().nullable().optional().describe("Story points; null to clear"),
+      fields: z.record(z.any()).optional().describe("Other fields by name or ID, e.g. { \"Team\": \"Platform\", \"customfield_10050\": 3 }. Option fields take the option value, user fields an email, display name, username or accountId"),
+    },
+  },
+  async ({ ticketId, fields, ...named }) => {
+    try {
+      const changes: Record<string, unknown> = { ...fields };
+      for (const [name, value] of Object.entries(named)) {
+        if (value !== undefined) changes[name] = value;
+      }
+
+      const result = await getJiraService().editTicket(ticketId, changes);
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify({
+              summary: `Updated ${result.updated.length} field(s) on ${ticketId}`,
+              updated: result.updated,
+              url: `${process.env.JIRA_BASE_URL}/browse/${ticketId}`,
+            }, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error: ${error instanceof Error ? error.message : String(error)}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+);
+
+// Register list_jira_fields tool
+server.registerTool(
+  "list_jira_fields",
+  {
+    title: "List JIRA Fields",
+    description: "List JIRA fields with their IDs and types. With an issue type, lists the fields on its create screen, whether they're required and their allowed values. Any listed field can be set by name in create_jira_ticket and edit_jira_ticket",
+    inputSchema: {
+      issueType: z.string().optional().describe("Issue type whose create screen to list (e.g., 'Story')"),
+      projectKey: z.string().optional().describe("Project key for the issue type (uses JIRA_PROJECT_KEY env var if not provided)"),
+      search: z.string().optional().describe("Only fields whose name contains this text, or with this exact ID"),
+    },
+  },
+  async ({ issueType, projectKey, search }) => {
+    try {
+      const fields = await getJiraService().listFields({ issueType, projectKey, search });
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify({
+              total: fields.length,
+              fields,
+            }, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error: ${error instanceof Error ? error.message : String(error)}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+);
+
 // Register update_ticket_status tool
 server.registerTool(
   "update_ticket_status",
   {
     title: "Update Ticket Status",
-    description: "Update JIRA ticket status using transitions",
+    description: "Move a JIRA ticket to a target status. The matching transition is resolved automatically; if the status isn't directly reachable, the error lists the reachable statuses.",
+    inputSchema: {
+      ticketId: z.string().describe("JIRA ticket ID (e.g., PROJ-123)"),
+      status: z.string().optional().describe("Target status name (e.g., 'In Progress', 'Done') or transition name"),
+      statusCategory: z.enum(["new", "indeterminate", "done"]).optional().describe("Target status category, used when the exact status name varies between workflows"),
+      transitionId: z.string().optional().describe("Raw transition ID (optional, prefer status)"),
+      resolution: z.string().optional().describe("Resolution to set on transition screens that require it (e.g., 'Fixed', 'Done')"),
+      fields: z.record(z.any()).optional().describe("Other transition screen fields keyed by field ID"),
+      comment: z.string().optional().describe("Comment to add with the transition (supports markdown)"),
+    },
+  },
+  async ({ ticketId, status, statusCategory, transitionId, resolution, fields, comment }) => {
+    try {
+      const transition = await getJiraService().updateTicketStatus(ticketId, {
+        status,
+        statusCategory,
+        transitionId,
+        resolution,
+        fields,
+        comment,
+      });
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Successfully moved ${ticketId} to "${transition.to.name}" via transition "${transition.name}"`,
+          },
+        ],
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error: ${error instanceof Error ? error.message : String(error)}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+);
+
+// Register move_ticket_to_status tool
+server.registerTool(
+  "move_ticket_to_status",
+  {
+    title: "Move Ticket To Status",
+    description: "Move a JIRA ticket to a status that may be several transitions away, following the shortest workflow path. Use dryRun to preview the path.",
     inputSchema: {
       ticketId: z.string().describe("JIRA ticket ID (e.g., PROJ-123)"),
-      transitionId: z.string().describe("Transition ID (e.g., '21' for In Progress, '31' for Done)"),
+      status: z.string().optional().describe("Target status name (e.g., 'Done')"),
+      statusCategory: z.enum(["new", "indeterminate", "done"]).optional().describe("Target status category, used when the exact status name varies between workflows"),
+      dryRun: z.boolean().default(false).describe("Only return the planned transition path without executing it"),
+      resolution: z.string().optional().describe("Resolution to set on the final transition (e.g., 'Fixed')"),
+      comment: z.string().optional().describe("Comment to add with the final transition (supports markdown)"),
     },
   },
-  async ({ ticketId, transitionId }) => {
+  async ({ ticketId, status, statusCategory, dryRun = false, resolution, comment }) => {
     try {
-      await getJiraService().updateTicketStatus(ticketId, transitionId);
+      const result = await getJiraService().moveTicketToStatus(ticketId, {
+        status,
+        statusCategory,
+        resolution,
+        comment,
+      }, dryRun);
+
+      const summary = result.path.length === 0
+        ? `${ticketId} is already in status "${result.fromStatus}"`
+        : result.dryRun
+          ? `Planned ${result.path.length} transition(s) from "${result.fromStatus}" to "${result.targetStatus}"`
+          : result.failure
+            ? `Stopped at step ${result.failure.step} of ${result.path.length} ("${result.failure.transition.transitionName}"): ${result.failure.error}`
+            : `Moved ${ticketId} from "${result.fromStatus}" to "${result.targetStatus}" in ${result.executed.length} transition(s)`;
 
       return {
         content: [
           {
             type: "text",
-            text: `Successfully updated status for ${ticketId}`,
+            text: JSON.stringify({
+              summary,
+              ...result,
+            }, null, 2),
           },
         ],
+        isError: !!result.failure,
       };
     } catch (error) {
       return {
@@ -531,14 +2140,14 @@ server.registerTool(
   "analyze_story_status",
   {
     title: "Analyze Story Status",
-    description: "Analyze a story's status based on related task completion",
+    description: "Analyze a story's status based on related task completion, including how long each task has been in its status. Tasks are grouped by status category unless a rules file is set via JIRA_STATUS_RULES",
     inputSchema: {
       storyKey: z.string().describe("Story key to analyze (e.g., PROJ-123)"),
     },
   },
   async ({ storyKey }) => {
     try {
-      const analysis = await getJiraService().analyzeStoryStatus(storyKey);
+      const analysis = await getJiraService().analyzeStoryStatus(storyKey, { timeInStatus: true });
 
       return {
         content: [
@@ -550,11 +2159,17 @@ server.registerTool(
               currentStatus: analysis.currentStatus,
               shouldBeInProgress: analysis.shouldBeInProgress,
               shouldBeDone: analysis.shouldBeDone,
+              aggregateState: analysis.aggregateState,
+              targetStatus: analysis.targetStatus,
               tasksSummary: analysis.tasksSummary,
               relatedTasks: analysis.relatedTasks.map(task => ({
                 key: task.key,
                 summary: task.fields.summary,
-                status: task.fields.status.name
+                status: task.fields.status.name,
+                statusCategory: task.fields.status.statusCategory?.key,
+                inStatusSince: analysis.timeInStatus[task.key]?.since,
+                timeInStatus: analysis.timeInStatus[task.key]?.duration,
+                relations: analysis.relations[task.key]
               }))
             }, null, 2),
           },
@@ -574,6 +2189,53 @@ server.registerTool(
   }
 );
 
+// Register get_ticket_history tool
+server.registerTool(
+  "get_ticket_history",
+  {
+    title: "Get Ticket History",
+    description: "Get a JIRA ticket's change history as a timeline (oldest first): who changed which field, when, from what to what. Filter by field and date range; pass nextCursor back to fetch the next page.",
+    inputSchema: {
+      ticketId: z.string().describe("JIRA ticket ID (e.g., PROJ-123)"),
+      fields: z.array(z.string()).optional().describe("Only changes to these fields, by name or ID (e.g., ['status', 'assignee'])"),
+      since: z.string().optional().describe("Only changes on or after this date (YYYY-MM-DD or ISO 8601)"),
+      until: z.string().optional().describe("Only changes on or before this date (YYYY-MM-DD or ISO 8601)"),
+      pageSize: z.number().int().min(1).max(MAX_HISTORY_PAGE_SIZE).optional().describe(`Entries per page (default ${DEFAULT_HISTORY_PAGE_SIZE}, max ${MAX_HISTORY_PAGE_SIZE})`),
+      cursor: z.string().optional().describe("Cursor returned as nextCursor by a previous call"),
+    },
+  },
+  async ({ ticketId, fields, since, until, pageSize, cursor }) => {
+    try {
+      const history = await getJiraService().getTicketHistory(ticketId, { fields, since, until, pageSize, cursor });
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify({
+              ticketId,
+              total: history.total,
+              returned: history.entries.length,
+              nextCursor: history.nextCursor || null,
+              entries: history.entries,
+            }, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error: ${error instanceof Error ? error.message : String(error)}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+);
+
 // Register get_available_transitions tool
 server.registerTool(
   "get_available_transitions",
@@ -593,8 +2255,12 @@ server.registerTool(
         name: transition.name,
         to: {
           name: transition.to?.name || 'Unknown',
-          id: transition.to?.id || 'Unknown'
-        }
+          id: transition.to?.id || 'Unknown',
+          statusCategory: transition.to?.statusCategory?.key || 'Unknown'
+        },
+        requiredFields: Object.entries(transition.fields || {})
+          .filter(([, field]) => field.required && !field.hasDefaultValue)
+          .map(([fieldId, field]) => ({ id: fieldId, name: field.name }))
       }));
 
       return {
@@ -623,6 +2289,180 @@ server.registerTool(
   }
 );
 
+// Register search_jira_issues tool
+server.registerTool(
+  "search_jira_issues",
+  {
+    title: "Search JIRA Issues",
+    description: "Search JIRA issues with JQL, one page at a time. Pass nextCursor back to fetch the next page.",
+    inputSchema: {
+      jql: z.string().describe("JQL query (e.g., 'project = PROJ AND status = \"In Progress\" ORDER BY updated DESC')"),
+      fields: z.array(z.string()).optional().describe("Fields to return (defaults to summary, status, issuetype, assignee, priority)"),
+      expand: z.array(z.string()).optional().describe("Entities to expand (e.g., 'renderedFields', 'changelog')"),
+      pageSize: z.number().int().min(1).max(MAX_SEARCH_PAGE_SIZE).optional().describe(`Issues per page (default ${DEFAULT_SEARCH_PAGE_SIZE}, max ${MAX_SEARCH_PAGE_SIZE})`),
+      cursor: z.string().optional().describe("Cursor returned as nextCursor by a previous search"),
+    },
+  },
+  async ({ jql, fields, expand, pageSize, cursor }) => {
+    try {
+      const result = await getJiraService().searchIssues(jql, { fields, expand, pageSize, cursor });
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify({
+              jql,
+              total: result.total,
+              returned: result.issues.length,
+              nextCursor: result.nextCursor || null,
+              truncated: result.truncated,
+              issues: result.issues.map(issue => ({
+                key: issue.key,
+                fields: issue.fields,
+              })),
+            }, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error: ${error instanceof Error ? error.message : String(error)}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+);
+
+// Resources
+
+type ResourceText = { mimeType: string; text: string };
+
+async function readJiraResource(uri: string): Promise<ResourceText> {
+  const resource = parseJiraUri(uri);
+  const service = getJiraService();
+  switch (resource.kind) {
+    case 'issue':
+      return { mimeType: "text/markdown", text: issueToMarkdown(await service.getTicket(resource.key)) };
+
+    case 'project': {
+      // Without the cache timestamp, so subscribers aren't told about a change each time the catalog is refetched
+      const { fetchedAt, ...catalog } = await service.describeProject(resource.key);
+      return { mimeType: "application/json", text: JSON.stringify(catalog, null, 2) };
+    }
+
+    case 'epicTree':
+      return { mimeType: "application/json", text: JSON.stringify(await service.getIssueTree(resource.key), null, 2) };
+
+    case 'filter': {
+      const filter = await service.getFilter(resource.id);
+      const result = await service.searchIssues(filter.jql, { pageSize: MAX_SEARCH_PAGE_SIZE });
+      return {
+        mimeType: "application/json",
+        text: JSON.stringify({
+          filter,
+          total: result.total,
+          returned: result.issues.length,
+          // The rest can be fetched with search_jira_issues
+          nextCursor: result.nextCursor || null,
+          issues: result.issues.map(issue => ({
+            key: issue.key,
+            summary: issue.fields.summary,
+            status: issue.fields.status?.name,
+            assignee: issue.fields.assignee?.displayName,
+          })),
+        }, null, 2),
+      };
+    }
+  }
+}
+
+const readResourceCallback = async (uri: URL) => {
+  const { mimeType, text } = await readJiraResource(uri.href);
+  return { contents: [{ uri: uri.href, mimeType, text }] };
+};
+
+server.registerResource(
+  "jira-issue",
+  new ResourceTemplate("jira://issue/{key}", { list: undefined }),
+  {
+    title: "JIRA Issue",
+    description: "A JIRA issue as Markdown: summary, type, status, assignee, sub-tasks and description",
+    mimeType: "text/markdown",
+  },
+  readResourceCallback
+);
+
+server.registerResource(
+  "jira-project",
+  new ResourceTemplate("jira://project/{key}", {
+    list: async () => ({
+      resources: process.env.JIRA_PROJECT_KEY
+        ? [{ uri: `jira://project/${process.env.JIRA_PROJECT_KEY}`, name: process.env.JIRA_PROJECT_KEY, mimeType: "application/json" }]
+        : [],
+    }),
+  }),
+  {
+    title: "JIRA Project",
+    description: "A project's issue types and their statuses, priorities, components, versions and link types (as describe_jira_project)",
+    mimeType: "application/json",
+  },
+  readResourceCallback
+);
+
+server.registerResource(
+  "jira-epic-tree",
+  new ResourceTemplate("jira://epic/{key}/tree", { list: undefined }),
+  {
+    title: "JIRA Epic Tree",
+    description: "An epic with its stories, tasks and sub-tasks as a JSON tree",
+    mimeType: "application/json",
+  },
+  readResourceCallback
+);
+
+server.registerResource(
+  "jira-filter",
+  new ResourceTemplate("jira://filter/{id}", {
+    list: async () => ({
+      resources: (await getJiraService().listFavouriteFilters()).map(filter => ({
+        uri: `jira://filter/${filter.id}`,
+        name: filter.name,
+        description: filter.jql,
+        mimeType: "application/json",
+      })),
+    }),
+  }),
+  {
+    title: "JIRA Filter",
+    description: `A saved filter and the first ${MAX_SEARCH_PAGE_SIZE} issues it matches; favourite filters are listed`,
+    mimeType: "application/json",
+  },
+  readResourceCallback
+);
+
+// Subscribed resources are polled, as JIRA can't push changes to the server
+const subscriptions = new ResourceSubscriptions(
+  async uri => (await readJiraResource(uri)).text,
+  uri => server.server.sendResourceUpdated({ uri }),
+  () => getResourcePollInterval()
+);
+
+server.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+  parseJiraUri(request.params.uri);
+  await subscriptions.subscribe(request.params.uri);
+  return {};
+});
+
+server.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+  subscriptions.unsubscribe(request.params.uri);
+  return {};
+});
 
 async function main() {
   // Check for command line arguments
@@ -637,6 +2477,10 @@ async function main() {
       const setup = new JiraMcpSetup();
       await setup.run();
       return;
+    } else if (command === 'plan' || command === 'apply') {
+      const { runPlanCommand } = await import('./plan.js');
+      process.exitCode = await runPlanCommand(getJiraService(), command, args.slice(1));
+      return;
     } else if (command === '--help' || command === '-h') {
       console.log(`
 JIRA MCP Server
@@ -644,6 +2488,10 @@ JIRA MCP Server
 Usage:
   jira-mcp           Start the MCP server (STDIO mode)
   jira-mcp setup     Run interactive setup and configuration
+  jira-mcp plan <file> [--project KEY]
+                     Show how JIRA differs from a YAML or JSON plan file
+  jira-mcp apply <file> [--project KEY]
+                     Show the diff, then apply the plan to JIRA
   jira-mcp --help    Show this help message
 
 Tools available:
@@ -660,6 +2508,50 @@ Tools available:
   - get_available_transitions
   - update_story_statuses
   - analyze_story_status
+  - search_jira_issues
+  - move_ticket_to_status
+  - apply_jira_plan
+  - create_subtask
+  - list_subtasks
+  - edit_jira_ticket
+  - list_jira_fields
+  - list_jira_comments
+  - edit_jira_comment
+  - delete_jira_comment
+  - log_work
+  - list_worklogs
+  - update_worklog
+  - delete_worklog
+  - get_timesheet
+  - attach_file_to_ticket
+  - list_attachments
+  - download_attachment
+  - list_boards
+  - list_sprints
+  - get_sprint_issues
+  - move_issues_to_sprint
+  - rank_issues
+  - create_sprint
+  - start_sprint
+  - close_sprint
+  - get_ticket_history
+  - list_watchers
+  - add_watcher
+  - remove_watcher
+  - notify_users
+  - list_votes
+  - add_vote
+  - remove_vote
+  - assign_ticket
+  - balance_assignments
+  - describe_jira_project
+  - list_link_types
+
+Resources available:
+  - jira://issue/{key}
+  - jira://project/{key}
+  - jira://epic/{key}/tree
+  - jira://filter/{id}
       `);
       return;
     } else {
@@ -0,0 +1,53 @@
+import { JiraService } from './services/jira.js';
+import { loadPlanFile, formatPlanDiff, summarizePlanDiff } from './utils/planFile.js';
+
+/**
+ * `bds-jira-mcp plan <file>` and `bds-jira-mcp apply <file>`
+ * Returns the process exit code
+ */
+export async function runPlanCommand(service: JiraService, command: 'plan' | 'apply', args: string[]): Promise<number> {
+  const file = args.find(arg => !arg.startsWith('--'));
+  const projectIndex = args.indexOf('--project');
+  const projectOption = projectIndex >= 0 ? args[projectIndex + 1] : undefined;
+
+  if (!file || (projectIndex >= 0 && !projectOption)) {
+    console.error(`Usage: bds-jira-mcp ${command} <file> [--project KEY]`);
+    return 1;
+  }
+
+  try {
+    const plan = loadPlanFile(file);
+    const projectKey = projectOption || plan.projectKey;
+
+    const diff = await service.diffProjectHierarchy(plan.hierarchy, projectKey);
+    console.log(formatPlanDiff(diff));
+
+    const counts = summarizePlanDiff(diff);
+    if (command === 'plan') {
+      return 0;
+    }
+    if (counts.create + counts.update === 0) {
+      console.log('\n✅ JIRA already matches the plan');
+      return 0;
+    }
+
+    console.log('\nApplying plan...');
+    const result = await service.createProjectHierarchy(plan.hierarchy, projectKey);
+
+    for (const entry of result.created.filter(entry => entry.action !== 'unchanged')) {
+      console.log(`  ${entry.action} ${entry.key} ${entry.issueType} "${entry.summary}"`);
+    }
+
+    if (result.status !== 'created') {
+      console.error(`\n❌ Failed at ${result.failure?.path} (${result.failure?.step}): ${result.failure?.error}`);
+      console.error('Run apply again to continue - issues are matched by externalId');
+      return 1;
+    }
+
+    console.log(`\n✅ Applied ${counts.create} creations and ${counts.update} updates`);
+    return 0;
+  } catch (error) {
+    console.error(`❌ ${error instanceof Error ? error.message : String(error)}`);
+    return 1;
+  }
+}
@@ -0,0 +1,287 @@
+import axios, { AxiosInstance } from "axios";
+import { FieldMeta, FieldValueOptions, JiraFieldSchema, coerceFieldValue } from "../utils/fieldValues.js";
+
+/**
+ * JIRA field registry
+ * Discovers system and custom fields and per-issue-type create metadata on JIRA Cloud and Server,
+ * so fields can be referred to by name instead of customfield_NNNNN
+ */
+
+export interface JiraField {
+  id: string;
+  name: string;
+  custom: boolean;
+  schema?: JiraFieldSchema;
+}
+
+// Custom fields the service itself relies on
+export interface CommonFields {
+  epicLink: string;
+  storyPoints: string;
+  sprint: string;
+}
+
+// IDs used by most instances, for when /field can't be read
+export const DEFAULT_COMMON_FIELDS: CommonFields = {
+  epicLink: 'customfield_10014',
+  storyPoints: 'customfield_10016',
+  sprint: 'customfield_10020',
+};
+
+const COMMON_FIELD_NAMES: Record<keyof CommonFields, string[]> = {
+  epicLink: ['Epic Link', 'Parent Link'],
+  storyPoints: ['Story Points', 'Story Point Estimate'],
+  sprint: ['Sprint'],
+};
+
+// Shorthand field names accepted wherever fields are referred to by name
+const FIELD_ALIASES: Record<string, string> = {
+  dueDate: 'duedate',
+  fixVersion: 'fixVersions',
+  component: 'components',
+  label: 'labels',
+};
+
+export interface CreateIssueType {
+  id: string;
+  name: string;
+  subtask: boolean;
+}
+
+export interface FieldDescription {
+  id: string;
+  name: string;
+  custom: boolean;
+  type?: string;
+  items?: string;
+  required?: boolean;
+  allowedValues?: string[];
+}
+
+export interface CoercedFields {
+  fields: Record<string, unknown>;
+  updated: Array<{ field: string; id: string }>;
+  problems: string[];
+}
+
+export class FieldRegistry {
+  private fields: JiraField[] | null = null;
+  private commonFields: CommonFields | null = null;
+  private issueTypes = new Map<string, CreateIssueType[]>();
+  private createMeta = new Map<string, Record<string, FieldMeta>>();
+
+  // The client is read on every request so a reconfigured service is picked up
+  constructor(private readonly getClient: () => AxiosInstance) {}
+
+  // All system and custom fields, fetched once
+  async getFields(): Promise<JiraField[]> {
+    if (!this.fields) {
+      const response = await this.getClient().get('/field');
+      this.fields = response.data;
+    }
+    return this.fields!;
+  }
+
+  // Discovered once; falls back to the usual IDs when /field isn't readable (e.g. limited PAT permissions)
+  async getCommonFields(): Promise<CommonFields> {
+    if (!this.commonFields) {
+      try {
+        const fields = await this.getFields();
+        this.commonFields = { ...DEFAULT_COMMON_FIELDS };
+        for (const [key, names] of Object.entries(COMMON_FIELD_NAMES) as Array<[keyof CommonFields, string[]]>) {
+          const field = FieldRegistry.findByName(fields, names);
+          if (field) this.commonFields[key] = field.id;
+        }
+      } catch (error: any) {
+        if (error.response?.status === 403) {
+          console.warn('Limited JIRA permissions: Using default field mappings');
+        } else {
+          console.warn('Could not discover JIRA fields:', error.message || error);
+        }
+        this.commonFields = { ...DEFAULT_COMMON_FIELDS };
+      }
+    }
+    return this.commonFields;
+  }
+
+  // Field by ID, name (case-insensitive) or alias
+  async findField(nameOrId: string): Promise<JiraField | null> {
+    const fields = await this.getFields();
+    const id = await this.aliasedId(nameOrId);
+    const lowerName = nameOrId.toLowerCase();
+    return fields.find(field => field.id === id) || fields.find(field => field.name?.toLowerCase() === lowerName) || null;
+  }
+
+  // Issue types that can be created in a project
+  async getCreateIssueTypes(projectKey: string): Promise<CreateIssueType[]> {
+    const cached = this.issueTypes.get(projectKey);
+    if (cached) return cached;
+
+    let issueTypes: CreateIssueType[];
+    try {
+      const values = await this.getAllPages(`/issue/createmeta/${projectKey}/issuetypes`, 'issueTypes');
+      issueTypes = values.map(type => ({ id: type.id, name: type.name, subtask: !!type.subtask }));
+    } catch (error) {
+      if (!FieldRegistry.isNotFound(error)) throw error;
+      // JIRA Server before 9.0 only has the expanded createmeta
+      const response = await this.getClient().get('/issue/createmeta', { params: { projectKeys: projectKey } });
+      const project = response.data.projects?.[0];
+      if (!project) {
+        throw new Error(`Project ${projectKey} not found or you can't create issues in it`);
+      }
+      issueTypes = project.issuetypes.map((type: any) => ({ id: type.id, name: type.name, subtask: !!type.subtask }));
+    }
+
+    this.issueTypes.set(projectKey, issueTypes);
+    return issueTypes;
+  }
+
+  // Fields on the create screen of an issue type, keyed by field ID
+  async getCreateMeta(projectKey: string, issueTypeName: string): Promise<Record<string, FieldMeta>> {
+    const issueTypes = await this.getCreateIssueTypes(projectKey);
+    const issueType = issueTypes.find(type => type.name.toLowerCase() === issueTypeName.toLowerCase());
+    if (!issueType) {
+      throw new Error(`Issue type "${issueTypeName}" doesn't exist in ${projectKey}. Available: ${issueTypes.map(type => type.name).join(', ')}`);
+    }
+
+    const cacheKey = `${projectKey}/${issueType.id}`;
+    const cached = this.createMeta.get(cacheKey);
+    if (cached) return cached;
+
+    const meta: Record<string, FieldMeta> = {};
+    try {
+      const values = await this.getAllPages(`/issue/createmeta/${projectKey}/issuetypes/${issueType.id}`, 'fields');
+      for (const field of values) {
+        meta[field.fieldId] = FieldRegistry.toFieldMeta(field);
+      }
+    } catch (error) {
+      if (!FieldRegistry.isNotFound(error)) throw error;
+      const response = await this.getClient().get('/issue/createmeta', {
+        params: { projectKeys: projectKey, issuetypeIds: issueType.id, expand: 'projects.issuetypes.fields' }
+      });
+      const fields = response.data.projects?.[0]?.issuetypes?.[0]?.fields || {};
+      for (const [id, field] of Object.entries(fields)) {
+        meta[id] = FieldRegistry.toFieldMeta(field);
+      }
+    }
+
+    this.createMeta.set(cacheKey, meta);
+    return meta;
+  }
+
+  // Field ID for an alias (storyPoints, dueDate, ...), a field ID, or a field name.
+  // Fields known to JIRA but missing from the metadata resolve to their ID so callers can report them as unavailable.
+  async resolveFieldId(name: string, meta: Record<string, FieldMeta>): Promise<string | null> {
+    const candidate = await this.aliasedId(name);
+    if (meta[candidate]) return candidate;
+
+    const lowerName = name.toLowerCase();
+    const available = Object.entries(meta).find(([, field]) => field.name?.toLowerCase() === lowerName);
+    if (available) return available[0];
+
+    try {
+      return (await this.findField(name))?.id || null;
+    } catch (error) {
+      return null;
+    }
+  }
+
+  // Resolve and coerce values keyed by field name or ID against editmeta or createmeta
+  async coerceFields(
+    values: Record<string, unknown>,
+    meta: Record<string, FieldMeta>,
+    options: FieldValueOptions & { unavailable: string }
+  ): Promise<CoercedFields> {
+    const result: CoercedFields = { fields: {}, updated: [], problems: [] };
+
+    for (const [name, value] of Object.entries(values)) {
+      const id = await this.resolveFieldId(name, meta);
+      if (!id) {
+        result.problems.push(`${name}: unknown field`);
+        continue;
+      }
+
+      const field = meta[id];
+      if (!field || (field.operations && !field.operations.includes('set'))) {
+        result.problems.push(`${name}: ${options.unavailable}`);
+        continue;
+      }
+
+      try {
+        result.fields[id] = coerceFieldValue(id, field, value, options);
+        result.updated.push({ field: field.name, id });
+      } catch (error) {
+        result.problems.push(`${name}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+
+    return result;
+  }
+
+  static describeField(id: string, field: { name: string; custom?: boolean; schema?: JiraFieldSchema } & Partial<FieldMeta>): FieldDescription {
+    const description: FieldDescription = {
+      id,
+      name: field.name,
+      custom: field.custom ?? id.startsWith('customfield_'),
+      type: field.schema?.type,
+    };
+    if (field.schema?.items) description.items = field.schema.items;
+    if (field.required !== undefined) description.required = field.required;
+    if (field.allowedValues && field.allowedValues.length > 0) {
+      description.allowedValues = field.allowedValues
+        .map(value => value.name || value.value || value.id)
+        .filter((value): value is string => !!value);
+    }
+    return description;
+  }
+
+  private async aliasedId(name: string): Promise<string> {
+    if (name in COMMON_FIELD_NAMES) {
+      return (await this.getCommonFields())[name as keyof CommonFields];
+    }
+    return FIELD_ALIASES[name] || name;
+  }
+
+  // The createmeta endpoints page their results; JIRA Cloud and Server name the list differently
+  private async getAllPages(url: string, listProperty: string): Promise<any[]> {
+    const values: any[] = [];
+    let startAt = 0;
+    while (true) {
+      const response = await this.getClient().get(url, { params: { startAt, maxResults: 100 } });
+      const page: any[] = response.data[listProperty] || response.data.values || [];
+      values.push(...page);
+      startAt += page.length;
+
+      const total = response.data.total;
+      if (page.length === 0 || response.data.isLast || (typeof total === 'number' && startAt >= total)) {
+        return values;
+      }
+    }
+  }
+
+  private static toFieldMeta(field: any): FieldMeta {
+    return {
+      name: field.name,
+      required: field.required,
+      hasDefaultValue: field.hasDefaultValue,
+      schema: field.schema,
+      operations: field.operations,
+      allowedValues: field.allowedValues,
+    };
+  }
+
+  private static findByName(fields: JiraField[], possibleNames: string[]): JiraField | null {
+    for (const name of possibleNames) {
+      const field = fields.find(f =>
+        f.name?.toLowerCase() === name.toLowerCase() ||
+        f.schema?.custom?.includes(name.toLowerCase())
+      );
+      if (field) return field;
+    }
+    return null;
+  }
+
+  private static isNotFound(error: unknown): boolean {
+    return axios.isAxiosError(error) && error.response?.status === 404;
+  }
+}
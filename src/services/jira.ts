@@ -1,5 +1,28 @@
 import axios, { AxiosInstance } from "axios";
+import { createHash } from "crypto";
+import { promises as fs } from "fs";
+import { tmpdir } from "os";
+import { basename, dirname, join } from "path";
 import { handleJiraApiError } from "../utils/errorHandler.js";
+import { markdownToAdf, adfToMarkdown, isAdfDocument, AdfDocument } from "../utils/adf.js";
+import { markdownToWiki, wikiToMarkdown } from "../utils/wikiMarkup.js";
+import { FieldMeta, coerceFieldValue } from "../utils/fieldValues.js";
+import { FieldRegistry, FieldDescription } from "./fieldRegistry.js";
+import { AssignableScope, JiraUser, UserResolver } from "./userResolver.js";
+import { Timesheet, TimesheetEntry, parseDuration, summarizeTimesheet, toJiraTimestamp } from "../utils/worklog.js";
+import { HistoryEntry, HistoryFilter, StatusAge, filterHistory, normalizeHistory, statusAge } from "../utils/history.js";
+import { formatByteSize, getAttachmentLimits, guessMimeType, isTextAttachment } from "../utils/attachments.js";
+import { ResolvedHierarchyNode, DEFAULT_HIERARCHY_LEVELS, resolveHierarchy, flattenHierarchy } from "../utils/hierarchy.js";
+import {
+  StatusRollupRules,
+  RollupBucket,
+  RollupSummary,
+  ParentStatusRule,
+  loadStatusRollupRules,
+  summarizeStatuses,
+  aggregateState,
+  resolveParentStatus,
+} from "../utils/statusRollup.js";
 
 export interface JiraTicket {
   key: string;
@@ -8,16 +31,56 @@ export interface JiraTicket {
     description: string;
     status: {
       name: string;
+      statusCategory?: {
+        key: string;
+        name: string;
+      };
     };
     assignee?: {
       displayName: string;
+      // accountId on JIRA Cloud, name on JIRA Server
+      accountId?: string;
+      name?: string;
     };
     issuetype: {
+      id?: string;
       name: string;
     };
+    project?: {
+      id?: string;
+      key: string;
+    };
+    parent?: {
+      key: string;
+    };
+    subtasks?: JiraSubtask[];
+  };
+}
+
+export interface JiraSubtask {
+  key: string;
+  fields: {
+    summary: string;
+    status: { name: string };
+    issuetype: { name: string };
+    priority?: { name: string };
   };
 }
 
+export interface EditTicketResult {
+  ticketId: string;
+  updated: Array<{ field: string; id: string }>;
+}
+
+export interface CreateSubtaskRequest {
+  summary: string;
+  description?: string;
+  // Must be one of the project's sub-task issue types; defaults to the first one
+  issueType?: string;
+  assignee?: string;
+  priority?: string;
+}
+
 export interface CreateTicketRequest {
   summary: string;
   description?: string;
@@ -26,6 +89,17 @@ export interface CreateTicketRequest {
   assignee?: string;
   priority?: string;
   epicLink?: string;
+  parentKey?: string;
+  labels?: string[];
+  // Any other fields by name or ID, checked against the issue type's create screen
+  fields?: Record<string, unknown>;
+}
+
+export interface ListFieldsOptions {
+  // With an issue type, lists the fields on its create screen instead of every field
+  projectKey?: string;
+  issueType?: string;
+  search?: string;
 }
 
 export interface IssueLinkType {
@@ -63,28 +137,475 @@ export interface LinkIssuesRequest {
   comment?: string;
 }
 
-export interface ProjectHierarchy {
+export type StatusCategoryKey = 'new' | 'indeterminate' | 'done';
+
+export interface JiraTransitionField {
+  required: boolean;
+  name: string;
+  hasDefaultValue?: boolean;
+  allowedValues?: Array<{ id?: string; name?: string; value?: string }>;
+}
+
+export interface JiraTransition {
+  id: string;
+  name: string;
+  to: {
+    id: string;
+    name: string;
+    statusCategory?: {
+      key: string;
+      name: string;
+    };
+  };
+  fields?: Record<string, JiraTransitionField>;
+}
+
+export interface TransitionRequest {
+  status?: string;
+  statusCategory?: StatusCategoryKey;
+  transitionId?: string;
+  resolution?: string;
+  fields?: Record<string, any>;
+  comment?: string;
+}
+
+export interface StatusPathStep {
+  transitionId: string;
+  transitionName: string;
+  from: string;
+  to: string;
+}
+
+export interface MoveToStatusResult {
+  ticketId: string;
+  fromStatus: string;
+  targetStatus: string;
+  dryRun: boolean;
+  path: StatusPathStep[];
+  executed: StatusPathStep[];
+  failure?: {
+    step: number;
+    transition: StatusPathStep;
+    error: string;
+  };
+}
+
+export interface SearchIssuesOptions {
+  fields?: string[];
+  expand?: string[];
+  pageSize?: number;
+  cursor?: string;
+}
+
+export interface SearchIssuesResult {
+  issues: JiraTicket[];
+  total?: number;
+  nextCursor?: string;
+  truncated: boolean;
+}
+
+// Restricts a comment to a project role or a group, e.g. internal notes on service desk tickets
+export interface CommentVisibility {
+  type: 'role' | 'group';
+  value: string;
+}
+
+export interface AddCommentOptions {
+  visibility?: CommentVisibility;
+  // Comment ID to reply to - the reply quotes it, mentions its author and keeps its visibility
+  replyTo?: string;
+}
+
+export interface JiraComment {
+  id: string;
+  author?: string;
+  // accountId on JIRA Cloud, username on JIRA Server
+  authorId?: string;
+  // Markdown
+  body: string;
+  created: string;
+  updated?: string;
+  visibility?: CommentVisibility;
+}
+
+export interface ListCommentsOptions {
+  pageSize?: number;
+  cursor?: string;
+}
+
+export interface ListCommentsResult {
+  comments: JiraComment[];
+  total?: number;
+  nextCursor?: string;
+}
+
+// How logging or deleting work changes the remaining estimate
+export type EstimateAdjustment = 'auto' | 'new' | 'leave' | 'manual';
+
+export interface EstimateOptions {
+  adjustEstimate?: EstimateAdjustment;
+  // Remaining estimate to set with 'new', e.g. "2d"
+  newEstimate?: string;
+  // With 'manual': how much to reduce the estimate by when logging, or increase it by when deleting
+  adjustBy?: string;
+}
+
+export interface WorklogRequest extends EstimateOptions {
+  // JIRA duration, e.g. "1h 30m"
+  timeSpent: string;
+  // Defaults to now
+  started?: string;
+  // Markdown
+  comment?: string;
+}
+
+export interface JiraWorklog {
+  id: string;
+  author?: string;
+  // accountId on JIRA Cloud, username on JIRA Server
+  authorId?: string;
+  timeSpent: string;
+  timeSpentSeconds: number;
+  started: string;
+  // Markdown
+  comment: string;
+  updated?: string;
+}
+
+export interface TimesheetOptions {
+  // Inclusive dates, YYYY-MM-DD
+  from: string;
+  to: string;
+  // Narrows the issues searched, e.g. "project = PROJ"
+  jql?: string;
+  // Display names, accountIds or usernames
+  authors?: string[];
+}
+
+export interface JiraAttachment {
+  id: string;
+  filename: string;
+  size: number;
+  mimeType: string;
+  created: string;
+  author?: string;
+  // Download URL
+  content: string;
+}
+
+export interface DownloadedAttachment {
+  attachment: JiraAttachment;
+  // Where the file was saved
+  path: string;
+  // Text of small text attachments (logs, JSON, ...)
+  text?: string;
+}
+
+export interface JiraBoard {
+  id: number;
+  name: string;
+  type: string;
+  projectKey?: string;
+}
+
+export type SprintState = 'future' | 'active' | 'closed';
+
+export interface JiraSprint {
+  id: number;
+  name: string;
+  state: SprintState;
+  goal?: string;
+  startDate?: string;
+  endDate?: string;
+  completeDate?: string;
+  originBoardId?: number;
+}
+
+export interface CreateSprintRequest {
+  boardId: number;
+  name: string;
+  goal?: string;
+  startDate?: string;
+  endDate?: string;
+}
+
+export interface RankIssuesRequest {
+  issueKeys: string[];
+  // Exactly one of these
+  before?: string;
+  after?: string;
+}
+
+export interface CloseSprintResult {
+  sprint: JiraSprint;
+  // Issues that weren't done, and where they went
+  movedIssues: string[];
+  movedTo: number | 'backlog';
+}
+
+export interface TicketHistoryOptions extends HistoryFilter {
+  pageSize?: number;
+  // nextCursor from a previous page
+  cursor?: string;
+}
+
+export interface TicketHistory {
+  ticketId: string;
+  // Matching entries, oldest first
+  entries: HistoryEntry[];
+  total: number;
+  nextCursor?: string;
+}
+
+// Every history of an issue, oldest first
+interface IssueChangelog {
+  status: string;
+  created: string;
+  histories: HistoryEntry[];
+}
+
+export interface IssueVotes {
+  ticketId: string;
+  votes: number;
+  // Whether the authenticated user has voted
+  hasVoted: boolean;
+  // Empty without the View Voters and Watchers permission
+  voters: JiraUser[];
+}
+
+export interface NotifyRequest {
+  subject: string;
+  // Sent as the plain text email body
+  body: string;
+  // Emails, display names, usernames or accountIds
+  users?: string[];
+  groups?: string[];
+  reporter?: boolean;
+  assignee?: boolean;
+  watchers?: boolean;
+  voters?: boolean;
+}
+
+export interface ProposedAssignment {
+  issueKey: string;
+  summary: string;
+  assignee: JiraUser;
+}
+
+// An assignment from a reviewed proposal, to be applied as is
+export interface ApprovedAssignment {
+  issueKey: string;
+  // Email, display name, username or accountId of one of the members
+  assignee: string;
+}
+
+export interface BalanceAssignmentsResult {
+  jql: string;
+  dryRun: boolean;
+  // Per member: open issues before balancing, and how many more they get
+  workload: Array<{ user: JiraUser; openIssues: number; proposed: number }>;
+  assignments: ProposedAssignment[];
+  applied: string[];
+  failures: Array<{ issueKey: string; error: string }>;
+}
+
+// What tools need to know to create valid tickets in a project
+export interface ProjectCatalog {
+  key: string;
+  name: string;
+  lead?: string;
+  issueTypes: Array<{
+    name: string;
+    subtask: boolean;
+    hierarchyLevel: number;
+    // Statuses in the issue type's workflow
+    statuses: Array<{ name: string; category?: string }>;
+  }>;
+  priorities: string[];
+  components: Array<{ name: string; description?: string }>;
+  // Archived versions are left out
+  versions: Array<{ name: string; released: boolean; releaseDate?: string }>;
+  linkTypes: IssueLinkType[];
+  fetchedAt: string;
+}
+
+export interface IssueTreeNode {
+  key: string;
+  summary: string;
+  issueType: string;
+  status: string;
+  assignee?: string;
+  // How the issue relates to its parent in the tree
+  relations?: IssueRelation[];
+  children: IssueTreeNode[];
+}
+
+export interface JiraFilter {
+  id: string;
+  name: string;
+  jql: string;
+  description?: string;
+  owner?: string;
+}
+
+// Where a child issue's relationship to its parent is recorded
+export type IssueRelation = 'subtask' | 'parent' | 'epicLink' | `link:${string}`;
+
+export interface ChildIssue {
+  issue: JiraTicket;
+  relations: IssueRelation[];
+}
+
+// externalId is a client-supplied ID that makes reruns update the matching issue instead of creating a new one
+export interface HierarchyNode {
+  summary: string;
+  description?: string;
+  externalId?: string;
+  // Defaults to the issue type of the node's level
+  issueType?: string;
+  children?: HierarchyNode[];
+}
+
+// Any depth, e.g. Initiative → Epic → Story → Sub-task; levels lists the issue type per depth
+export interface HierarchyTree {
+  levels?: string[];
+  root: HierarchyNode;
+}
+
+// Epic → Story → Task shorthand
+export interface EpicHierarchy {
   epic: {
     summary: string;
     description?: string;
+    externalId?: string;
   };
   stories: Array<{
     summary: string;
     description?: string;
+    externalId?: string;
     tasks?: Array<{
       summary: string;
       description?: string;
+      externalId?: string;
     }>;
   }>;
 }
 
+export type ProjectHierarchy = EpicHierarchy | HierarchyTree;
+
+// Where an issue type sits in the project's hierarchy: 1 = Epic, 0 = Story/Task, -1 = Sub-task, 2+ = Premium levels
+export interface IssueTypeLevel {
+  name: string;
+  level: number;
+  subtask: boolean;
+}
+
+type HierarchyStep = 'match' | 'create' | 'update' | 'link' | 'fetch';
+
+// What to do with already created issues when hierarchy creation fails
+export type HierarchyFailureMode = 'resume' | 'delete' | 'close';
+
+export interface CreateHierarchyOptions {
+  onFailure?: HierarchyFailureMode;
+  resumeToken?: string;
+}
+
+// One created issue - path is its position in the hierarchy, e.g. "stories[0].tasks[1]"
+export interface HierarchyJournalEntry {
+  path: string;
+  key: string;
+  issueType: string;
+  summary: string;
+  externalId?: string;
+  // created by this run, or matched by externalId and updated / left as is
+  action: 'created' | 'updated' | 'unchanged';
+  parentKey?: string;
+  linked: boolean;
+}
+
+export interface CreatedHierarchyNode {
+  path: string;
+  ticket: JiraTicket;
+  children: CreatedHierarchyNode[];
+}
+
+export interface CreateHierarchyResult {
+  status: 'created' | 'incomplete' | 'rolled_back';
+  root?: CreatedHierarchyNode;
+  // Issues that exist in JIRA after this run
+  created: HierarchyJournalEntry[];
+  failure?: {
+    path: string;
+    step: HierarchyStep;
+    error: string;
+  };
+  rollback?: {
+    mode: 'delete' | 'close';
+    removed: string[];
+    failed: Array<{ key: string; error: string }>;
+  };
+  resumeToken?: string;
+}
+
+export interface PlanChange {
+  field: 'summary' | 'description' | 'parent';
+  from?: string;
+  to?: string;
+}
+
+// How a hierarchy node compares with live JIRA
+export interface PlanDiffEntry {
+  path: string;
+  depth: number;
+  issueType: string;
+  summary: string;
+  externalId?: string;
+  key?: string;
+  action: 'create' | 'update' | 'unchanged';
+  changes: PlanChange[];
+}
+
+// Longest transition path explored when moving a ticket across the workflow
+export const MAX_WORKFLOW_PATH_LENGTH = 8;
+
+// Search paging limits - keep a single page small enough for the model context
+export const DEFAULT_SEARCH_PAGE_SIZE = 25;
+export const MAX_SEARCH_PAGE_SIZE = 100;
+export const MAX_SEARCH_FIELD_LENGTH = 2000;
+export const MAX_SEARCH_ARRAY_LENGTH = 20;
+export const DEFAULT_COMMENT_PAGE_SIZE = 20;
+export const MAX_COMMENT_PAGE_SIZE = 100;
+// Lines of the original comment quoted in a reply
+const REPLY_QUOTE_LINES = 3;
+// balance_assignments refuses larger sets so a loose JQL query can't reassign a whole project
+export const MAX_BALANCED_ISSUES = 100;
+// Projects rarely change shape, but new versions and components should show up within minutes
+const PROJECT_CATALOG_TTL_MS = 5 * 60 * 1000;
+export const DEFAULT_HISTORY_PAGE_SIZE = 50;
+export const MAX_HISTORY_PAGE_SIZE = 100;
+// The agile API moves and ranks at most 50 issues per request
+const MAX_AGILE_BATCH_SIZE = 50;
+export const DEFAULT_SPRINT_LENGTH_DAYS = 14;
+const DEFAULT_SEARCH_FIELDS = ['summary', 'status', 'issuetype', 'assignee', 'priority'];
+const CHILD_ISSUE_FIELDS = ['summary', 'status', 'issuetype', 'assignee', 'project', 'parent'];
+
+// How a parent describes its children in hierarchy link types, e.g. "is parent of" / "is child of"
+const DEFAULT_CHILD_LINK_DESCRIPTIONS = ['parent of', 'is parent of'];
+
+// External IDs are stored as labels - unlike entity properties, labels can be searched with JQL
+export const EXTERNAL_ID_LABEL_PREFIX = 'ext-id:';
+
 export class JiraService {
   private client: AxiosInstance | null = null;
   private v3Client: AxiosInstance | null = null;
-  private epicLinkField: string = 'customfield_10014'; // Default epic link field ID
+  // Boards, sprints and backlog (/rest/agile/1.0) on both JIRA Cloud and JIRA Server
+  private agileClient: AxiosInstance | null = null;
   private initialized: boolean = false;
   private isLegacyMode: boolean = false;
-  private fieldMappings: Record<string, string> = {};
+  private fieldRegistry = new FieldRegistry(() => this.client!);
+  private userResolver = new UserResolver(() => this.client!, () => this.isLegacyMode);
+  private rollupRules: StatusRollupRules | null = null;
+  private projectCatalogs = new Map<string, ProjectCatalog>();
   private serverCapabilities: {
     hasEpics: boolean;
     hasIssueLinks: boolean;
@@ -162,6 +683,11 @@ export class JiraService {
       });
     }
 
+    this.agileClient = axios.create({
+      baseURL: `${baseURL}/rest/agile/1.0`,
+      ...authConfig,
+    });
+
     this.initialized = true;
 
     // Initialize field mappings for legacy mode (async operation deferred)
@@ -173,53 +699,9 @@ export class JiraService {
   }
 
   private async initializeLegacyFieldMappings(): Promise<void> {
-    try {
-      // Get all fields to map custom field IDs
-      const fieldsResponse = await this.client!.get('/field');
-      const fields = fieldsResponse.data;
-      
-      // Map common custom fields
-      this.fieldMappings = {
-        epicLink: this.findFieldByName(fields, ['Epic Link', 'Parent Link']) || 'customfield_10014',
-        storyPoints: this.findFieldByName(fields, ['Story Points', 'Story Point Estimate']) || 'customfield_10016',
-        sprint: this.findFieldByName(fields, ['Sprint']) || 'customfield_10020',
-      };
-      
-      // Detect server capabilities
-      await this.detectServerCapabilities();
-    } catch (error: any) {
-      // Handle permission errors gracefully - common with limited PAT permissions
-      if (error.response?.status === 403) {
-        console.warn('Limited JIRA permissions: Using default field mappings for JIRA Server');
-      } else {
-        console.warn('Could not initialize legacy field mappings:', error.message || error);
-      }
-      
-      // Use default mappings (work for most JIRA Server instances)
-      this.fieldMappings = {
-        epicLink: 'customfield_10014',
-        storyPoints: 'customfield_10016',
-        sprint: 'customfield_10020',
-      };
-
-      // Set basic server capabilities when field discovery fails
-      this.serverCapabilities = {
-        version: 'unknown',
-        hasEpics: true, // Assume epic support for JIRA Server
-        hasIssueLinks: true, // Most JIRA Server instances support links
-      };
-    }
-  }
-
-  private findFieldByName(fields: any[], possibleNames: string[]): string | null {
-    for (const name of possibleNames) {
-      const field = fields.find(f => 
-        f.name?.toLowerCase() === name.toLowerCase() ||
-        f.schema?.custom?.includes(name.toLowerCase())
-      );
-      if (field) return field.id;
-    }
-    return null;
+    // Falls back to the usual field IDs itself when /field can't be read
+    await this.fieldRegistry.getCommonFields();
+    await this.detectServerCapabilities();
   }
 
   private async detectServerCapabilities(): Promise<void> {
@@ -227,7 +709,7 @@ export class JiraService {
       const serverInfo = await this.client!.get('/serverInfo');
       this.serverCapabilities = {
         version: serverInfo.data.version,
-        hasEpics: this.fieldMappings.epicLink !== null,
+        hasEpics: !!(await this.fieldRegistry.findField('Epic Link')),
         hasIssueLinks: await this.testIssueLinkSupport(),
       };
     } catch (error) {
@@ -257,11 +739,31 @@ export class JiraService {
     return projectKey;
   }
 
+  // Rich text is ADF on JIRA Cloud (API v3) and wiki markup on JIRA Server (API v2)
+  private get richTextClient(): AxiosInstance {
+    return this.isLegacyMode ? this.client! : this.v3Client!;
+  }
+
+  // Convert Markdown input to the rich text format of the active deployment
+  private toRichText(markdown: string): string | AdfDocument {
+    return this.isLegacyMode ? JiraService.formatJiraText(markdown) : markdownToAdf(markdown);
+  }
+
+  // Render a rich text field value as Markdown
+  private fromRichText(value: unknown): string {
+    if (isAdfDocument(value)) {
+      return adfToMarkdown(value);
+    }
+    return typeof value === 'string' ? wikiToMarkdown(value) : '';
+  }
+
   async getTicket(ticketId: string): Promise<JiraTicket> {
     this.initialize();
     try {
-      const response = await this.client!.get(`/issue/${ticketId}`);
-      return response.data;
+      const response = await this.richTextClient.get(`/issue/${ticketId}`);
+      const ticket = response.data;
+      ticket.fields.description = this.fromRichText(ticket.fields.description);
+      return ticket;
     } catch (error) {
       handleJiraApiError(error, { 
         operation: "fetch JIRA ticket", 
@@ -271,300 +773,2590 @@ export class JiraService {
     }
   }
 
-  async addComment(ticketId: string, comment: string): Promise<void> {
+  async addComment(ticketId: string, comment: string, options: AddCommentOptions = {}): Promise<JiraComment> {
     this.initialize();
+    let body = comment;
+    let visibility = options.visibility;
+    if (options.replyTo) {
+      const original = await this.getComment(ticketId, options.replyTo);
+      body = `${JiraService.replyQuote(original)}\n\n${comment}`;
+      visibility = visibility || original.visibility;
+    }
+
     try {
-      await this.client!.post(`/issue/${ticketId}/comment`, {
-        body: JiraService.formatJiraText(comment),
+      const response = await this.richTextClient.post(`/issue/${ticketId}/comment`, {
+        body: this.toRichText(body),
+        ...(visibility && { visibility }),
       });
+      return this.toComment(response.data);
     } catch (error) {
       handleJiraApiError(error, { 
         operation: "add comment to JIRA ticket", 
         ticketId,
-        isLegacyMode: this.isLegacyMode
+        isLegacyMode: this.isLegacyMode,
+        customMessages: visibility && {
+          400: `Invalid comment visibility: no ${visibility.type} "${visibility.value}" on ${ticketId}`
+        }
       });
     }
   }
 
-  async updateTicketStatus(ticketId: string, transitionId: string): Promise<void> {
+  // Newest first; the cursor is the next startAt on both JIRA Cloud and JIRA Server
+  async listComments(ticketId: string, options: ListCommentsOptions = {}): Promise<ListCommentsResult> {
     this.initialize();
+    const pageSize = Math.min(Math.max(options.pageSize || DEFAULT_COMMENT_PAGE_SIZE, 1), MAX_COMMENT_PAGE_SIZE);
+    const startAt = options.cursor ? parseInt(options.cursor, 10) : 0;
+    if (isNaN(startAt) || startAt < 0) {
+      throw new Error(`Invalid comment cursor: ${options.cursor}`);
+    }
+
     try {
-      await this.client!.post(`/issue/${ticketId}/transitions`, {
-        transition: {
-          id: transitionId,
-        },
+      const response = await this.richTextClient.get(`/issue/${ticketId}/comment`, {
+        params: { startAt, maxResults: pageSize, orderBy: '-created' }
       });
+      const comments = (response.data.comments || []).map((comment: any) => this.toComment(comment));
+      const total: number | undefined = response.data.total;
+      const nextStartAt = startAt + comments.length;
+
+      return {
+        comments,
+        total,
+        nextCursor: comments.length > 0 && total !== undefined && nextStartAt < total ? String(nextStartAt) : undefined,
+      };
     } catch (error) {
-      handleJiraApiError(error, { operation: "update ticket status" });
+      handleJiraApiError(error, {
+        operation: "list comments",
+        ticketId,
+        isLegacyMode: this.isLegacyMode
+      });
     }
   }
 
-  async getAvailableTransitions(ticketId: string): Promise<any[]> {
+  async getComment(ticketId: string, commentId: string): Promise<JiraComment> {
     this.initialize();
     try {
-      const response = await this.client!.get(`/issue/${ticketId}/transitions`);
-      return response.data.transitions;
+      const response = await this.richTextClient.get(`/issue/${ticketId}/comment/${commentId}`);
+      return this.toComment(response.data);
     } catch (error) {
-      handleJiraApiError(error, { operation: "get available transitions" });
+      handleJiraApiError(error, {
+        operation: "get comment",
+        ticketId,
+        isLegacyMode: this.isLegacyMode,
+        customMessages: {
+          404: `Comment ${commentId} not found on ${ticketId}`
+        }
+      });
     }
   }
 
-  async createTicket(request: CreateTicketRequest): Promise<JiraTicket> {
+  // Replaces the body; the visibility is kept unless a new one is given
+  async editComment(ticketId: string, commentId: string, comment: string, visibility?: CommentVisibility): Promise<JiraComment> {
     this.initialize();
     try {
-      // Use provided project key or default from environment
-      const projectKey = this.validateProjectKey(request.projectKey);
-
-      // Build the issue creation payload
-      const issuePayload: any = {
-        fields: {
-          project: { key: projectKey },
-          summary: request.summary,
-          issuetype: { name: request.issueType },
-        }
-      };
-
-      // Add optional fields
-      if (request.description) {
-        issuePayload.fields.description = JiraService.formatJiraText(request.description);
-      }
-
-      if (request.assignee) {
-        issuePayload.fields.assignee = { name: request.assignee };
-      }
-
-      if (request.priority) {
-        issuePayload.fields.priority = { name: request.priority };
-      }
-
-      // Handle epic link differently based on mode
-      if (request.epicLink) {
-        if (this.isLegacyMode) {
-          // JIRA Server: Use custom field
-          issuePayload.fields[this.fieldMappings.epicLink] = request.epicLink;
-        } else {
-          // JIRA Cloud: Use parent field
-          issuePayload.fields.parent = { key: request.epicLink };
-        }
-      }
-
-      const response = await this.client!.post('/issue', issuePayload);
-
-      // Fetch the created ticket to return complete data
-      const createdTicket = await this.getTicket(response.data.key);
-      return createdTicket;
+      const response = await this.richTextClient.put(`/issue/${ticketId}/comment/${commentId}`, {
+        body: this.toRichText(comment),
+        ...(visibility && { visibility }),
+      });
+      return this.toComment(response.data);
     } catch (error) {
       handleJiraApiError(error, {
-        operation: "create JIRA ticket",
+        operation: "edit comment",
+        ticketId,
         isLegacyMode: this.isLegacyMode,
         customMessages: {
-          403: "Insufficient permissions to create tickets in this project."
+          403: `Insufficient permissions to edit comment ${commentId} - usually only its author can.`,
+          404: `Comment ${commentId} not found on ${ticketId}`
         }
       });
     }
   }
 
-  // Issue Linking Methods
-
-  async getAvailableLinkTypes(): Promise<IssueLinkType[]> {
+  async deleteComment(ticketId: string, commentId: string): Promise<void> {
     this.initialize();
     try {
-      if (this.isLegacyMode) {
-        // JIRA Server: Use v2 API
-        const response = await this.client!.get('/issueLinkType');
-        return response.data.issueLinkTypes;
-      } else {
-        // JIRA Cloud: Use v3 API
-        const response = await this.v3Client!.get('/issueLinkType');
-        return response.data.issueLinkTypes;
-      }
+      await this.client!.delete(`/issue/${ticketId}/comment/${commentId}`);
     } catch (error) {
-      handleJiraApiError(error, { 
-        operation: "fetch link types",
-        isLegacyMode: this.isLegacyMode
+      handleJiraApiError(error, {
+        operation: "delete comment",
+        ticketId,
+        isLegacyMode: this.isLegacyMode,
+        customMessages: {
+          403: `Insufficient permissions to delete comment ${commentId}.`,
+          404: `Comment ${commentId} not found on ${ticketId}`
+        }
       });
     }
   }
 
-  async linkIssues(request: LinkIssuesRequest): Promise<void> {
+  private toComment(raw: any): JiraComment {
+    const comment: JiraComment = {
+      id: raw.id,
+      author: raw.author?.displayName,
+      authorId: raw.author?.accountId || raw.author?.name,
+      body: this.fromRichText(raw.body),
+      created: raw.created,
+      updated: raw.updated,
+    };
+    if (raw.visibility) {
+      comment.visibility = { type: raw.visibility.type, value: raw.visibility.value };
+    }
+    return comment;
+  }
+
+  // JIRA comments aren't threaded, so a reply mentions the author and quotes the start of their comment
+  private static replyQuote(original: JiraComment): string {
+    const mention = original.authorId ? `[@${original.author || original.authorId}](mention:${original.authorId})` : original.author || 'Someone';
+    const lines = original.body.trim().split('\n');
+    const excerpt = lines.slice(0, REPLY_QUOTE_LINES);
+    if (lines.length > REPLY_QUOTE_LINES) excerpt.push('…');
+    return [`> ${mention} wrote:`, ...excerpt.map(line => `> ${line}`)].join('\n');
+  }
+
+  // Worklog Methods
+
+  async addWorklog(ticketId: string, request: WorklogRequest): Promise<JiraWorklog> {
     this.initialize();
+    // JIRA Cloud requires a start time
+    const payload = this.worklogPayload({ ...request, started: request.started || new Date().toISOString() });
+    const params = JiraService.estimateParams(request, 'reduceBy');
     try {
-      // Check capability in legacy mode
-      if (this.isLegacyMode && !this.serverCapabilities?.hasIssueLinks) {
-        throw new Error("Issue linking not supported in this JIRA Server version");
+      const response = await this.richTextClient.post(`/issue/${ticketId}/worklog`, payload, { params });
+      return this.toWorklog(response.data);
+    } catch (error) {
+      handleJiraApiError(error, {
+        operation: "log work",
+        ticketId,
+        isLegacyMode: this.isLegacyMode,
+        customMessages: {
+          400: `Cannot log work on ${ticketId} - time tracking may be disabled or the estimate options are invalid`
+        }
+      });
+    }
+  }
+
+  async listWorklogs(ticketId: string): Promise<JiraWorklog[]> {
+    this.initialize();
+    const worklogs: JiraWorklog[] = [];
+    try {
+      let startAt = 0;
+      while (true) {
+        const response = await this.richTextClient.get(`/issue/${ticketId}/worklog`, {
+          params: { startAt, maxResults: MAX_SEARCH_PAGE_SIZE }
+        });
+        const page: any[] = response.data.worklogs || [];
+        worklogs.push(...page.map(worklog => this.toWorklog(worklog)));
+        startAt += page.length;
+        if (page.length === 0 || response.data.total === undefined || startAt >= response.data.total) {
+          return worklogs;
+        }
       }
-      
-      const linkPayload: any = {
-        type: { name: request.linkType },
-        inwardIssue: { key: request.fromIssue },
-        outwardIssue: { key: request.toIssue }
+    } catch (error) {
+      handleJiraApiError(error, {
+        operation: "list worklogs",
+        ticketId,
+        isLegacyMode: this.isLegacyMode
+      });
+    }
+  }
+
+  // Only the given fields change; JIRA doesn't support 'manual' estimate adjustment on updates
+  async updateWorklog(ticketId: string, worklogId: string, request: Partial<WorklogRequest>): Promise<JiraWorklog> {
+    this.initialize();
+    if (request.adjustEstimate === 'manual') {
+      throw new Error("Estimate adjustment 'manual' is only available when logging or deleting work");
+    }
+    const payload = this.worklogPayload(request);
+    if (Object.keys(payload).length === 0) {
+      throw new Error(`No worklog changes for ${worklogId} on ${ticketId}`);
+    }
+    const params = JiraService.estimateParams(request, 'reduceBy');
+    try {
+      const response = await this.richTextClient.put(`/issue/${ticketId}/worklog/${worklogId}`, payload, { params });
+      return this.toWorklog(response.data);
+    } catch (error) {
+      handleJiraApiError(error, {
+        operation: "update worklog",
+        isLegacyMode: this.isLegacyMode,
+        customMessages: {
+          403: `Insufficient permissions to edit worklog ${worklogId}.`,
+          404: `Worklog ${worklogId} not found on ${ticketId}`
+        }
+      });
+    }
+  }
+
+  async deleteWorklog(ticketId: string, worklogId: string, options: EstimateOptions = {}): Promise<void> {
+    this.initialize();
+    const params = JiraService.estimateParams(options, 'increaseBy');
+    try {
+      await this.client!.delete(`/issue/${ticketId}/worklog/${worklogId}`, { params });
+    } catch (error) {
+      handleJiraApiError(error, {
+        operation: "delete worklog",
+        isLegacyMode: this.isLegacyMode,
+        customMessages: {
+          403: `Insufficient permissions to delete worklog ${worklogId}.`,
+          404: `Worklog ${worklogId} not found on ${ticketId}`
+        }
+      });
+    }
+  }
+
+  // Time logged per user and day, from the worklogs of every issue with work logged in the range
+  async getTimesheet(options: TimesheetOptions): Promise<Timesheet> {
+    this.initialize();
+    for (const date of [options.from, options.to]) {
+      if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+        throw new Error(`Invalid date "${date}": use YYYY-MM-DD`);
+      }
+    }
+    if (options.from > options.to) {
+      throw new Error(`The timesheet starts (${options.from}) after it ends (${options.to})`);
+    }
+
+    let jql = `worklogDate >= "${options.from}" AND worklogDate <= "${options.to}"`;
+    if (options.jql) {
+      jql = `${jql} AND (${options.jql})`;
+    }
+
+    const authors = options.authors?.map(author => author.toLowerCase());
+    const entries: TimesheetEntry[] = [];
+    for (const issue of await this.searchAllIssues(jql, ['summary'])) {
+      for (const worklog of await this.listWorklogs(issue.key)) {
+        const author = worklog.author || worklog.authorId || 'Unknown';
+        if (authors && !authors.includes(author.toLowerCase()) && !authors.includes((worklog.authorId || '').toLowerCase())) {
+          continue;
+        }
+        entries.push({
+          issueKey: issue.key,
+          author,
+          authorId: worklog.authorId,
+          started: worklog.started,
+          timeSpentSeconds: worklog.timeSpentSeconds,
+        });
+      }
+    }
+
+    return summarizeTimesheet(entries, options.from, options.to);
+  }
+
+  private toWorklog(raw: any): JiraWorklog {
+    return {
+      id: raw.id,
+      author: raw.author?.displayName,
+      authorId: raw.author?.accountId || raw.author?.name,
+      timeSpent: raw.timeSpent,
+      timeSpentSeconds: raw.timeSpentSeconds,
+      started: raw.started,
+      comment: this.fromRichText(raw.comment),
+      updated: raw.updated,
+    };
+  }
+
+  private worklogPayload(request: Partial<WorklogRequest>): Record<string, unknown> {
+    const payload: Record<string, unknown> = {};
+    if (request.timeSpent !== undefined) {
+      parseDuration(request.timeSpent);
+      payload.timeSpent = request.timeSpent.trim();
+    }
+    if (request.started !== undefined) {
+      payload.started = toJiraTimestamp(request.started);
+    }
+    if (request.comment !== undefined) {
+      payload.comment = this.toRichText(request.comment);
+    }
+    return payload;
+  }
+
+  // Query parameters for the remaining estimate; adjustBy is sent as reduceBy (log work) or increaseBy (delete)
+  private static estimateParams(options: EstimateOptions, adjustByParam: 'reduceBy' | 'increaseBy'): Record<string, string> {
+    const params: Record<string, string> = {};
+    if (!options.adjustEstimate) return params;
+
+    params.adjustEstimate = options.adjustEstimate;
+    if (options.adjustEstimate === 'new') {
+      if (!options.newEstimate) throw new Error("Estimate adjustment 'new' needs newEstimate, e.g. \"2d\"");
+      parseDuration(options.newEstimate);
+      params.newEstimate = options.newEstimate.trim();
+    }
+    if (options.adjustEstimate === 'manual') {
+      if (!options.adjustBy) throw new Error("Estimate adjustment 'manual' needs adjustBy, e.g. \"1h\"");
+      parseDuration(options.adjustBy);
+      params[adjustByParam] = options.adjustBy.trim();
+    }
+    return params;
+  }
+
+  // Attachment Methods
+
+  // Uploads a local file; limited to JIRA_MAX_ATTACHMENT_SIZE (default 10MB)
+  async attachFile(ticketId: string, filePath: string, filename?: string): Promise<JiraAttachment[]> {
+    this.initialize();
+    const { maxBytes } = getAttachmentLimits();
+    const name = filename || basename(filePath);
+
+    let data: Buffer;
+    try {
+      const stats = await fs.stat(filePath);
+      if (!stats.isFile()) {
+        throw new Error('not a file');
+      }
+      if (stats.size > maxBytes) {
+        throw new Error(`${formatByteSize(stats.size)} is over the ${formatByteSize(maxBytes)} limit (JIRA_MAX_ATTACHMENT_SIZE)`);
+      }
+      data = await fs.readFile(filePath);
+    } catch (error) {
+      throw new Error(`Cannot attach ${filePath}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    const form = new FormData();
+    form.append('file', new Blob([new Uint8Array(data)], { type: guessMimeType(name) }), name);
+
+    try {
+      // JIRA rejects multipart requests without the XSRF opt-out header
+      const response = await this.client!.post(`/issue/${ticketId}/attachments`, form, {
+        headers: { 'X-Atlassian-Token': 'no-check', 'Content-Type': 'multipart/form-data' }
+      });
+      return (response.data || []).map((attachment: any) => JiraService.toAttachment(attachment));
+    } catch (error) {
+      handleJiraApiError(error, {
+        operation: "attach file",
+        ticketId,
+        isLegacyMode: this.isLegacyMode,
+        customMessages: {
+          403: `Insufficient permissions to add attachments to ${ticketId}, or attachments are disabled.`,
+          413: `${name} is larger than JIRA's attachment size limit.`
+        }
+      });
+    }
+  }
+
+  async listAttachments(ticketId: string): Promise<JiraAttachment[]> {
+    this.initialize();
+    try {
+      const response = await this.client!.get(`/issue/${ticketId}`, { params: { fields: 'attachment' } });
+      return (response.data.fields?.attachment || []).map((attachment: any) => JiraService.toAttachment(attachment));
+    } catch (error) {
+      handleJiraApiError(error, {
+        operation: "list attachments",
+        ticketId,
+        isLegacyMode: this.isLegacyMode
+      });
+    }
+  }
+
+  // Saves the attachment to outputPath (a file or an existing directory), or to the temp directory.
+  // Text attachments up to JIRA_MAX_INLINE_ATTACHMENT_SIZE (default 64KB) are also returned as text.
+  async downloadAttachment(attachmentId: string, outputPath?: string): Promise<DownloadedAttachment> {
+    this.initialize();
+    const { maxBytes, maxInlineBytes } = getAttachmentLimits();
+
+    let attachment: JiraAttachment;
+    let data: Buffer;
+    try {
+      attachment = JiraService.toAttachment((await this.client!.get(`/attachment/${attachmentId}`)).data);
+      if (attachment.size > maxBytes) {
+        throw new Error(
+          `Attachment ${attachment.filename} is ${formatByteSize(attachment.size)}, over the ${formatByteSize(maxBytes)} limit (JIRA_MAX_ATTACHMENT_SIZE)`
+        );
+      }
+      // The content URL is absolute, so the client's base URL doesn't apply
+      const response = await this.client!.get(attachment.content, { responseType: 'arraybuffer' });
+      data = Buffer.from(response.data);
+    } catch (error) {
+      if (!axios.isAxiosError(error)) throw error;
+      handleJiraApiError(error, {
+        operation: "download attachment",
+        isLegacyMode: this.isLegacyMode,
+        customMessages: {
+          404: `Attachment ${attachmentId} not found`
+        }
+      });
+    }
+
+    // JIRA filenames can contain path separators
+    const filename = basename(attachment.filename);
+    let target = outputPath || join(tmpdir(), 'jira-attachments', `${attachment.id}-${filename}`);
+    if (outputPath && (await fs.stat(outputPath).catch(() => null))?.isDirectory()) {
+      target = join(outputPath, filename);
+    }
+    await fs.mkdir(dirname(target), { recursive: true });
+    await fs.writeFile(target, data);
+
+    const result: DownloadedAttachment = { attachment, path: target };
+    if (isTextAttachment(filename, attachment.mimeType) && data.length <= maxInlineBytes) {
+      result.text = data.toString('utf8');
+    }
+    return result;
+  }
+
+  private static toAttachment(raw: any): JiraAttachment {
+    return {
+      id: String(raw.id),
+      filename: raw.filename,
+      size: raw.size,
+      mimeType: raw.mimeType,
+      created: raw.created,
+      author: raw.author?.displayName,
+      content: raw.content,
+    };
+  }
+
+  // Agile Methods
+
+  async listBoards(options: { projectKey?: string; name?: string; type?: 'scrum' | 'kanban' } = {}): Promise<JiraBoard[]> {
+    this.initialize();
+    try {
+      const boards = await this.getAllAgilePages('/board', {
+        projectKeyOrId: options.projectKey,
+        name: options.name,
+        type: options.type,
+      });
+      return boards.map(board => ({
+        id: board.id,
+        name: board.name,
+        type: board.type,
+        projectKey: board.location?.projectKey,
+      }));
+    } catch (error) {
+      handleJiraApiError(error, {
+        operation: "list boards",
+        isLegacyMode: this.isLegacyMode
+      });
+    }
+  }
+
+  async listSprints(boardId: number, states?: SprintState[]): Promise<JiraSprint[]> {
+    this.initialize();
+    try {
+      const sprints = await this.getAllAgilePages(`/board/${boardId}/sprint`, {
+        state: states && states.length > 0 ? states.join(',') : undefined,
+      });
+      return sprints.map(sprint => JiraService.toSprint(sprint));
+    } catch (error) {
+      handleJiraApiError(error, {
+        operation: "list sprints",
+        isLegacyMode: this.isLegacyMode,
+        customMessages: {
+          400: `Board ${boardId} doesn't support sprints (kanban boards don't)`,
+          404: `Board ${boardId} not found`
+        }
+      });
+    }
+  }
+
+  async getSprint(sprintId: number): Promise<JiraSprint> {
+    this.initialize();
+    try {
+      const response = await this.agileClient!.get(`/sprint/${sprintId}`);
+      return JiraService.toSprint(response.data);
+    } catch (error) {
+      handleJiraApiError(error, {
+        operation: "get sprint",
+        isLegacyMode: this.isLegacyMode,
+        customMessages: {
+          404: `Sprint ${sprintId} not found`
+        }
+      });
+    }
+  }
+
+  // One page of a sprint's issues in rank order; the cursor is the next startAt
+  async getSprintIssues(sprintId: number, options: Omit<SearchIssuesOptions, 'expand'> & { jql?: string } = {}): Promise<SearchIssuesResult> {
+    this.initialize();
+    const pageSize = Math.min(Math.max(options.pageSize || DEFAULT_SEARCH_PAGE_SIZE, 1), MAX_SEARCH_PAGE_SIZE);
+    const startAt = options.cursor ? parseInt(options.cursor, 10) : 0;
+    if (isNaN(startAt) || startAt < 0) {
+      throw new Error(`Invalid sprint issues cursor: ${options.cursor}`);
+    }
+    const fields = options.fields && options.fields.length > 0 ? options.fields : DEFAULT_SEARCH_FIELDS;
+
+    try {
+      const response = await this.agileClient!.get(`/sprint/${sprintId}/issue`, {
+        params: { startAt, maxResults: pageSize, fields: fields.join(','), jql: options.jql }
+      });
+      const issues: JiraTicket[] = response.data.issues || [];
+      const total: number | undefined = response.data.total;
+      const nextStartAt = startAt + issues.length;
+      const truncated = issues.reduce((wasTruncated, issue) => JiraService.truncateIssueFields(issue) || wasTruncated, false);
+
+      return {
+        issues,
+        total,
+        nextCursor: issues.length > 0 && total !== undefined && nextStartAt < total ? String(nextStartAt) : undefined,
+        truncated,
       };
+    } catch (error) {
+      handleJiraApiError(error, {
+        operation: "get sprint issues",
+        isLegacyMode: this.isLegacyMode,
+        customMessages: {
+          404: `Sprint ${sprintId} not found`
+        }
+      });
+    }
+  }
+
+  // Moves issues into a future or active sprint, or back to the backlog
+  async moveIssuesToSprint(issueKeys: string[], target: number | 'backlog'): Promise<void> {
+    this.initialize();
+    const url = target === 'backlog' ? '/backlog/issue' : `/sprint/${target}/issue`;
+    try {
+      for (let i = 0; i < issueKeys.length; i += MAX_AGILE_BATCH_SIZE) {
+        await this.agileClient!.post(url, { issues: issueKeys.slice(i, i + MAX_AGILE_BATCH_SIZE) });
+      }
+    } catch (error) {
+      handleJiraApiError(error, {
+        operation: target === 'backlog' ? "move issues to the backlog" : "move issues to sprint",
+        issueKeys,
+        isLegacyMode: this.isLegacyMode,
+        customMessages: {
+          400: target === 'backlog'
+            ? "Cannot move the issues to the backlog"
+            : `Cannot move the issues to sprint ${target} - closed sprints can't take issues, and sub-tasks move with their parent`
+        }
+      });
+    }
+  }
+
+  // Ranks the issues, in the given order, directly before or after another issue
+  async rankIssues(request: RankIssuesRequest): Promise<void> {
+    this.initialize();
+    if (!!request.before === !!request.after) {
+      throw new Error("Rank issues either before or after another issue");
+    }
+    if (request.issueKeys.length > MAX_AGILE_BATCH_SIZE) {
+      throw new Error(`At most ${MAX_AGILE_BATCH_SIZE} issues can be ranked at once`);
+    }
+
+    let response;
+    try {
+      response = await this.agileClient!.put('/issue/rank', {
+        issues: request.issueKeys,
+        ...(request.before ? { rankBeforeIssue: request.before } : { rankAfterIssue: request.after }),
+      });
+    } catch (error) {
+      handleJiraApiError(error, {
+        operation: "rank issues",
+        issueKeys: [...request.issueKeys, (request.before || request.after)!],
+        isLegacyMode: this.isLegacyMode
+      });
+    }
+
+    // 207: some issues were ranked and some weren't
+    const failed = (response.data?.entries || []).filter((entry: any) => entry.status >= 400);
+    if (failed.length > 0) {
+      const details = failed.map((entry: any) => `${entry.issueKey || entry.issueId}: ${(entry.errors || []).join(', ') || entry.status}`);
+      throw new Error(`Could not rank ${details.join('; ')}`);
+    }
+  }
+
+  async createSprint(request: CreateSprintRequest): Promise<JiraSprint> {
+    this.initialize();
+    try {
+      const response = await this.agileClient!.post('/sprint', {
+        name: request.name,
+        originBoardId: request.boardId,
+        goal: request.goal,
+        startDate: request.startDate && toJiraTimestamp(request.startDate),
+        endDate: request.endDate && toJiraTimestamp(request.endDate),
+      });
+      return JiraService.toSprint(response.data);
+    } catch (error) {
+      handleJiraApiError(error, {
+        operation: "create sprint",
+        isLegacyMode: this.isLegacyMode,
+        customMessages: {
+          403: `Insufficient permissions to create sprints on board ${request.boardId}.`
+        }
+      });
+    }
+  }
+
+  // Starts a future sprint; without dates it starts now and keeps its planned end, or runs DEFAULT_SPRINT_LENGTH_DAYS
+  async startSprint(sprintId: number, options: { startDate?: string; endDate?: string; goal?: string } = {}): Promise<JiraSprint> {
+    this.initialize();
+    const sprint = await this.getSprint(sprintId);
+    if (sprint.state !== 'future') {
+      throw new Error(`Sprint ${sprint.name} is ${sprint.state} - only future sprints can be started`);
+    }
+
+    const start = new Date(options.startDate || Date.now());
+    const end = options.endDate || sprint.endDate || new Date(start.getTime() + DEFAULT_SPRINT_LENGTH_DAYS * 24 * 3600 * 1000).toISOString();
+    return this.updateSprint(sprintId, {
+      state: 'active',
+      startDate: toJiraTimestamp(start),
+      endDate: toJiraTimestamp(end),
+      ...(options.goal !== undefined && { goal: options.goal }),
+    }, "start sprint");
+  }
+
+  // Closes an active sprint; issues that aren't done move to the backlog or another sprint first
+  async closeSprint(sprintId: number, moveOpenIssuesTo: number | 'backlog' = 'backlog'): Promise<CloseSprintResult> {
+    this.initialize();
+    const sprint = await this.getSprint(sprintId);
+    if (sprint.state !== 'active') {
+      throw new Error(`Sprint ${sprint.name} is ${sprint.state} - only active sprints can be closed`);
+    }
+
+    const openIssues: string[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await this.getSprintIssues(sprintId, {
+        fields: ['status'],
+        jql: 'statusCategory != Done',
+        pageSize: MAX_SEARCH_PAGE_SIZE,
+        cursor
+      });
+      openIssues.push(...page.issues.map(issue => issue.key));
+      cursor = page.nextCursor;
+    } while (cursor);
+
+    if (openIssues.length > 0) {
+      await this.moveIssuesToSprint(openIssues, moveOpenIssuesTo);
+    }
+
+    const closed = await this.updateSprint(sprintId, { state: 'closed' }, "close sprint");
+    return { sprint: closed, movedIssues: openIssues, movedTo: moveOpenIssuesTo };
+  }
+
+  // Partial update - only the given properties change
+  private async updateSprint(sprintId: number, changes: Record<string, unknown>, operation: string): Promise<JiraSprint> {
+    try {
+      const response = await this.agileClient!.post(`/sprint/${sprintId}`, changes);
+      return JiraService.toSprint(response.data);
+    } catch (error) {
+      handleJiraApiError(error, {
+        operation,
+        isLegacyMode: this.isLegacyMode,
+        customMessages: {
+          404: `Sprint ${sprintId} not found`
+        }
+      });
+    }
+  }
+
+  private async getAllAgilePages(url: string, params: Record<string, unknown>): Promise<any[]> {
+    const values: any[] = [];
+    let startAt = 0;
+    while (true) {
+      const response = await this.agileClient!.get(url, { params: { ...params, startAt, maxResults: MAX_SEARCH_PAGE_SIZE } });
+      const page: any[] = response.data.values || [];
+      values.push(...page);
+      startAt += page.length;
+      if (page.length === 0 || response.data.isLast !== false) {
+        return values;
+      }
+    }
+  }
+
+  private static toSprint(raw: any): JiraSprint {
+    return {
+      id: raw.id,
+      name: raw.name,
+      state: raw.state,
+      goal: raw.goal || undefined,
+      startDate: raw.startDate,
+      endDate: raw.endDate,
+      completeDate: raw.completeDate,
+      originBoardId: raw.originBoardId,
+    };
+  }
+
+  // Accepts a target status name, status category, transition name or transition ID
+  async updateTicketStatus(ticketId: string, target: string | TransitionRequest): Promise<JiraTransition> {
+    this.initialize();
+    const request: TransitionRequest = typeof target === 'string' ? { status: target } : target;
+
+    const transitions = await this.getAvailableTransitions(ticketId);
+    const transition = JiraService.resolveTransition(ticketId, transitions, request);
+
+    const payload: any = {
+      transition: { id: transition.id },
+    };
+
+    const fields = JiraService.buildTransitionFields(ticketId, transition, request);
+    if (Object.keys(fields).length > 0) {
+      payload.fields = fields;
+    }
+
+    if (request.comment) {
+      payload.update = {
+        comment: [{ add: { body: this.toRichText(request.comment) } }],
+      };
+    }
+
+    try {
+      await this.richTextClient.post(`/issue/${ticketId}/transitions`, payload);
+      return transition;
+    } catch (error) {
+      handleJiraApiError(error, {
+        operation: "update ticket status",
+        ticketId,
+        isLegacyMode: this.isLegacyMode
+      });
+    }
+  }
+
+  async getAvailableTransitions(ticketId: string): Promise<JiraTransition[]> {
+    this.initialize();
+    try {
+      // Expand fields so transition screens with required fields can be detected
+      const response = await this.client!.get(`/issue/${ticketId}/transitions`, {
+        params: { expand: 'transitions.fields' }
+      });
+      return response.data.transitions;
+    } catch (error) {
+      handleJiraApiError(error, { operation: "get available transitions" });
+    }
+  }
+
+  private static resolveTransition(ticketId: string, transitions: JiraTransition[], request: TransitionRequest): JiraTransition {
+    const matches = (value: string | undefined, expected: string | undefined) =>
+      value !== undefined && expected !== undefined && value.toLowerCase() === expected.trim().toLowerCase();
+
+    let transition: JiraTransition | undefined;
+    let description: string;
+
+    if (request.transitionId) {
+      description = `transition ${request.transitionId}`;
+      transition = transitions.find(t => t.id === request.transitionId);
+    } else if (request.status) {
+      const status = request.status;
+      description = `"${status}"`;
+      transition =
+        transitions.find(t => t.id === status) ||
+        transitions.find(t => matches(t.to?.name, status)) ||
+        transitions.find(t => matches(t.name, status)) ||
+        JiraService.pickCategoryTransition(transitions, status, `${ticketId}'s current status`);
+    } else if (request.statusCategory) {
+      description = `status category "${request.statusCategory}"`;
+      transition = JiraService.pickCategoryTransition(transitions, request.statusCategory, `${ticketId}'s current status`);
+    } else {
+      throw new Error("A target status, status category or transition ID is required");
+    }
+
+    if (!transition) {
+      const reachable = transitions.map(t => `${t.to?.name} (via "${t.name}", id ${t.id})`);
+      throw new Error(
+        `Cannot move ${ticketId} to ${description} from its current status. ` +
+        (reachable.length > 0
+          ? `Reachable statuses: ${reachable.join(', ')}`
+          : 'No transitions are available.')
+      );
+    }
+
+    return transition;
+  }
+
+  // A transition into a status category (key or name). One whose target status is named after the category
+  // wins, so "done" means "Done" rather than "Won't Do"; otherwise several target statuses are ambiguous,
+  // unless firstWhenAmbiguous takes the first in JIRA's transition order.
+  private static pickCategoryTransition(
+    transitions: JiraTransition[],
+    category: string,
+    from: string,
+    firstWhenAmbiguous: boolean = false
+  ): JiraTransition | undefined {
+    const lowerCategory = category.trim().toLowerCase();
+    const isCategoryName = (name: string | undefined) => name?.toLowerCase() === lowerCategory;
+    const inCategory = transitions.filter(t => isCategoryName(t.to?.statusCategory?.key) || isCategoryName(t.to?.statusCategory?.name));
+    const named = inCategory.filter(t => [t.to.statusCategory?.key, t.to.statusCategory?.name].some(name => name?.toLowerCase() === t.to.name.toLowerCase()));
+    const candidates = named.length > 0 ? named : inCategory;
+
+    if (!firstWhenAmbiguous && new Set(candidates.map(t => t.to.name.toLowerCase())).size > 1) {
+      const listed = candidates.map(t => `${t.to.name} (via "${t.name}", id ${t.id})`);
+      throw new Error(
+        `Several statuses in category "${category}" can be reached from ${from}: ${listed.join(', ')}. ` +
+        'Name the target status instead'
+      );
+    }
+    return candidates[0];
+  }
+
+  private static buildTransitionFields(ticketId: string, transition: JiraTransition, request: TransitionRequest): Record<string, any> {
+    const fields: Record<string, any> = { ...(request.fields || {}) };
+
+    if (request.resolution) {
+      fields.resolution = { name: request.resolution };
+    }
+
+    // Required transition screen fields without a default must be supplied
+    const missing = Object.entries(transition.fields || {})
+      .filter(([fieldId, field]) => field.required && !field.hasDefaultValue && fields[fieldId] === undefined)
+      .map(([fieldId, field]) => {
+        const allowed = (field.allowedValues || [])
+          .map(value => value.name || value.value || value.id)
+          .filter(Boolean);
+        return allowed.length > 0
+          ? `${field.name} (${fieldId}; allowed: ${allowed.join(', ')})`
+          : `${field.name} (${fieldId})`;
+      });
+
+    if (missing.length > 0) {
+      throw new Error(
+        `Transition "${transition.name}" on ${ticketId} requires fields: ${missing.join('; ')}`
+      );
+    }
+
+    return fields;
+  }
+
+  async createTicket(request: CreateTicketRequest): Promise<JiraTicket> {
+    this.initialize();
+    // Use provided project key or default from environment
+    const projectKey = this.validateProjectKey(request.projectKey);
+
+    // Build the issue creation payload
+    const issuePayload: any = {
+      fields: {
+        project: { key: projectKey },
+        summary: request.summary,
+        issuetype: { name: request.issueType },
+      }
+    };
+
+    // Add optional fields
+    if (request.description) {
+      issuePayload.fields.description = this.toRichText(request.description);
+    }
+
+    if (request.assignee) {
+      issuePayload.fields.assignee = this.userResolver.toPayload(await this.resolveUser(request.assignee, { projectKey }));
+    }
+
+    if (request.priority) {
+      issuePayload.fields.priority = { name: request.priority };
+    }
+
+    // Sub-tasks need their parent at creation time
+    if (request.parentKey) {
+      issuePayload.fields.parent = { key: request.parentKey };
+    }
+
+    if (request.labels && request.labels.length > 0) {
+      issuePayload.fields.labels = request.labels;
+    }
+
+    // Handle epic link differently based on mode
+    if (request.epicLink) {
+      if (this.isLegacyMode) {
+        // JIRA Server: Use custom field
+        issuePayload.fields[(await this.fieldRegistry.getCommonFields()).epicLink] = request.epicLink;
+      } else {
+        // JIRA Cloud: Use parent field
+        issuePayload.fields.parent = { key: request.epicLink };
+      }
+    }
+
+    // Checked against the create screen first, so mistakes come back naming the fields to fix instead of as a bare 400
+    await this.checkCreateFields(projectKey, request, issuePayload.fields);
+
+    try {
+      const response = await this.richTextClient.post('/issue', issuePayload);
+
+      // Fetch the created ticket to return complete data
+      const createdTicket = await this.getTicket(response.data.key);
+      return createdTicket;
+    } catch (error) {
+      handleJiraApiError(error, {
+        operation: "create JIRA ticket",
+        isLegacyMode: this.isLegacyMode,
+        customMessages: {
+          403: "Insufficient permissions to create tickets in this project."
+        }
+      });
+    }
+  }
+
+  // Issue Linking Methods
+
+  async getAvailableLinkTypes(): Promise<IssueLinkType[]> {
+    this.initialize();
+    try {
+      if (this.isLegacyMode) {
+        // JIRA Server: Use v2 API
+        const response = await this.client!.get('/issueLinkType');
+        return response.data.issueLinkTypes;
+      } else {
+        // JIRA Cloud: Use v3 API
+        const response = await this.v3Client!.get('/issueLinkType');
+        return response.data.issueLinkTypes;
+      }
+    } catch (error) {
+      handleJiraApiError(error, { 
+        operation: "fetch link types",
+        isLegacyMode: this.isLegacyMode
+      });
+    }
+  }
+
+  async linkIssues(request: LinkIssuesRequest): Promise<void> {
+    this.initialize();
+    try {
+      // Check capability in legacy mode
+      if (this.isLegacyMode && !this.serverCapabilities?.hasIssueLinks) {
+        throw new Error("Issue linking not supported in this JIRA Server version");
+      }
+      
+      const linkPayload: any = {
+        type: { name: request.linkType },
+        inwardIssue: { key: request.fromIssue },
+        outwardIssue: { key: request.toIssue }
+      };
+
+      if (request.comment) {
+        linkPayload.comment = {
+          body: this.toRichText(request.comment)
+        };
+      }
+
+      if (this.isLegacyMode) {
+        // JIRA Server: Use v2 API
+        await this.client!.post('/issueLink', linkPayload);
+      } else {
+        // JIRA Cloud: Use v3 API
+        await this.v3Client!.post('/issueLink', linkPayload);
+      }
+    } catch (error) {
+      handleJiraApiError(error, {
+        operation: "link issues",
+        issueKeys: [request.fromIssue, request.toIssue],
+        isLegacyMode: this.isLegacyMode,
+        customMessages: {
+          400: "Invalid link request"
+        }
+      });
+    }
+  }
+
+  async getIssueLinks(ticketId: string): Promise<IssueLink[]> {
+    this.initialize();
+    try {
+      let response;
+      
+      if (this.isLegacyMode) {
+        // JIRA Server: Use v2 API
+        response = await this.client!.get(`/issue/${ticketId}?fields=issuelinks`);
+      } else {
+        // JIRA Cloud: Use v3 API
+        response = await this.v3Client!.get(`/issue/${ticketId}?fields=issuelinks`);
+      }
+      
+      return response.data.fields.issuelinks || [];
+    } catch (error) {
+      handleJiraApiError(error, { 
+        operation: "get issue links", 
+        ticketId,
+        isLegacyMode: this.isLegacyMode
+      });
+    }
+  }
+
+  // Epic Management Methods (using parent field)
+
+  async setEpicLink(issueKey: string, epicKey: string): Promise<void> {
+    this.initialize();
+    try {
+      let updatePayload: any;
+      
+      if (this.isLegacyMode) {
+        // JIRA Server: Use custom field
+        updatePayload = {
+          fields: {
+            [(await this.fieldRegistry.getCommonFields()).epicLink]: epicKey
+          }
+        };
+      } else {
+        // JIRA Cloud: Use parent field
+        updatePayload = {
+          fields: {
+            parent: { key: epicKey }
+          }
+        };
+      }
+
+      await this.client!.put(`/issue/${issueKey}`, updatePayload);
+    } catch (error) {
+      handleJiraApiError(error, {
+        operation: "set epic link",
+        issueKeys: [issueKey, epicKey],
+        customMessages: {
+          400: this.isLegacyMode ? "Invalid epic link custom field" : "Invalid parent link"
+        }
+      });
+    }
+  }
+
+
+  async getEpicIssues(epicKey: string): Promise<JiraTicket[]> {
+    this.initialize();
+    try {
+      let jql: string;
+      
+      if (this.isLegacyMode) {
+        // JIRA Server: Query by custom field
+        jql = `${await this.getEpicLinkJqlField()} = ${epicKey}`;
+      } else {
+        // JIRA Cloud: Query by parent
+        jql = `parent = ${epicKey}`;
+      }
+      
+      return await this.searchAllIssues(jql);
+    } catch (error) {
+      handleJiraApiError(error, { operation: "get epic issues" });
+    }
+  }
+
+  // Custom fields are referenced as cf[10014] in JQL
+  private async getEpicLinkJqlField(): Promise<string> {
+    const field = (await this.fieldRegistry.getCommonFields()).epicLink;
+    const match = field.match(/^customfield_(\d+)$/);
+    return match ? `cf[${match[1]}]` : `"${field}"`;
+  }
+
+  // History Methods
+
+  // The changelog as a timeline, filtered by field and date range; the cursor is an offset into the matching entries
+  async getTicketHistory(ticketId: string, options: TicketHistoryOptions = {}): Promise<TicketHistory> {
+    this.initialize();
+    const pageSize = Math.min(Math.max(options.pageSize || DEFAULT_HISTORY_PAGE_SIZE, 1), MAX_HISTORY_PAGE_SIZE);
+    const startAt = options.cursor ? parseInt(options.cursor, 10) : 0;
+    if (isNaN(startAt) || startAt < 0) {
+      throw new Error(`Invalid history cursor: ${options.cursor}`);
+    }
+
+    const { histories } = await this.getChangelog(ticketId);
+    const entries = filterHistory(histories, options);
+    const nextStartAt = startAt + pageSize;
+
+    return {
+      ticketId,
+      entries: entries.slice(startAt, nextStartAt),
+      total: entries.length,
+      nextCursor: nextStartAt < entries.length ? String(nextStartAt) : undefined,
+    };
+  }
+
+  async getStatusAge(ticketId: string): Promise<StatusAge> {
+    const { status, created, histories } = await this.getChangelog(ticketId);
+    return statusAge(histories, status, created);
+  }
+
+  private async getChangelog(ticketId: string): Promise<IssueChangelog> {
+    this.initialize();
+    try {
+      const response = await this.client!.get(`/issue/${ticketId}`, {
+        params: { fields: 'status,created', expand: 'changelog' }
+      });
+      return await this.readChangelog(ticketId, response.data);
+    } catch (error) {
+      handleJiraApiError(error, {
+        operation: "get ticket history",
+        ticketId,
+        isLegacyMode: this.isLegacyMode
+      });
+    }
+  }
+
+  // expand=changelog works on both deployments, but JIRA Cloud only embeds the latest 100 histories -
+  // the rest come from /issue/{key}/changelog, which JIRA Server doesn't have
+  private async readChangelog(ticketId: string, issue: any): Promise<IssueChangelog> {
+    let histories: any[] = issue.changelog?.histories || [];
+
+    if (!this.isLegacyMode && issue.changelog?.total > histories.length) {
+      histories = [];
+      let startAt = 0;
+      while (true) {
+        const page = await this.client!.get(`/issue/${ticketId}/changelog`, {
+          params: { startAt, maxResults: MAX_HISTORY_PAGE_SIZE }
+        });
+        const values: any[] = page.data.values || [];
+        histories.push(...values);
+        startAt += values.length;
+        if (values.length === 0 || page.data.isLast !== false) break;
+      }
+    }
+
+    return {
+      status: issue.fields.status?.name,
+      created: issue.fields.created,
+      histories: normalizeHistory(histories),
+    };
+  }
+
+  // One search embeds the changelogs of all the issues, so only those JIRA Cloud truncated cost another request.
+  // Issues whose history can't be read are left out.
+  private async getStatusAges(ticketIds: string[]): Promise<Record<string, StatusAge>> {
+    const ages: Record<string, StatusAge> = {};
+    if (ticketIds.length === 0) return ages;
+
+    let cursor: string | undefined;
+    do {
+      const page = await this.fetchSearchPage(`key in (${ticketIds.join(', ')})`, {
+        fields: ['status', 'created'],
+        expand: ['changelog'],
+        pageSize: MAX_SEARCH_PAGE_SIZE,
+        cursor
+      });
+      for (const issue of page.issues) {
+        try {
+          const { status, created, histories } = await this.readChangelog(issue.key, issue);
+          ages[issue.key] = statusAge(histories, status, created);
+        } catch (error) {
+          console.warn(`Could not read the history of ${issue.key}:`, error instanceof Error ? error.message : error);
+        }
+      }
+      cursor = page.nextCursor;
+    } while (cursor);
+
+    return ages;
+  }
+
+  // Watcher Methods
+
+  async listWatchers(ticketId: string): Promise<JiraUser[]> {
+    this.initialize();
+    try {
+      const response = await this.client!.get(`/issue/${ticketId}/watchers`);
+      return (response.data.watchers || []).map((raw: any) => UserResolver.toUser(raw));
+    } catch (error) {
+      handleJiraApiError(error, {
+        operation: "list watchers",
+        ticketId,
+        isLegacyMode: this.isLegacyMode
+      });
+    }
+  }
+
+  // The user can be an email, display name, username or accountId
+  async addWatcher(ticketId: string, user: string): Promise<JiraUser> {
+    this.initialize();
+    // Resolved first, so an unknown user isn't reported as a missing ticket
+    const watcher = await this.resolveUser(user);
+    try {
+      // The body is the bare accountId (JIRA Cloud) or username (JIRA Server) as a JSON string
+      await this.client!.post(`/issue/${ticketId}/watchers`, JSON.stringify(watcher.id), {
+        headers: { 'Content-Type': 'application/json' }
+      });
+      return watcher;
+    } catch (error) {
+      if (!axios.isAxiosError(error)) throw error;
+      handleJiraApiError(error, {
+        operation: "add watcher",
+        ticketId,
+        isLegacyMode: this.isLegacyMode,
+        customMessages: {
+          403: `Cannot add ${user} as a watcher of ${ticketId} - adding other watchers needs the Manage Watchers permission`
+        }
+      });
+    }
+  }
+
+  async removeWatcher(ticketId: string, user: string): Promise<JiraUser> {
+    this.initialize();
+    const watcher = await this.resolveUser(user);
+    try {
+      await this.client!.delete(`/issue/${ticketId}/watchers`, { params: this.userResolver.toParams(watcher) });
+      return watcher;
+    } catch (error) {
+      if (!axios.isAxiosError(error)) throw error;
+      handleJiraApiError(error, {
+        operation: "remove watcher",
+        ticketId,
+        isLegacyMode: this.isLegacyMode,
+        customMessages: {
+          403: `Cannot remove ${user} as a watcher of ${ticketId} - removing other watchers needs the Manage Watchers permission`
+        }
+      });
+    }
+  }
+
+  // Emails the recipients about the ticket; JIRA sends it even if they don't watch it
+  async notifyUsers(ticketId: string, request: NotifyRequest): Promise<{ users: JiraUser[] }> {
+    this.initialize();
+    const users = request.users || [];
+    const groups = request.groups || [];
+    if (users.length === 0 && groups.length === 0 && !request.reporter && !request.assignee && !request.watchers && !request.voters) {
+      throw new Error("Choose at least one recipient: users, groups, reporter, assignee, watchers or voters");
+    }
+
+    const recipients: JiraUser[] = [];
+    for (const user of users) {
+      recipients.push(await this.resolveUser(user));
+    }
+
+    try {
+      await this.client!.post(`/issue/${ticketId}/notify`, {
+        subject: request.subject,
+        textBody: request.body,
+        to: {
+          reporter: !!request.reporter,
+          assignee: !!request.assignee,
+          watchers: !!request.watchers,
+          voters: !!request.voters,
+          users: recipients.map(recipient => this.userResolver.toPayload(recipient)),
+          groups: groups.map(name => ({ name })),
+        },
+      });
+      return { users: recipients };
+    } catch (error) {
+      if (!axios.isAxiosError(error)) throw error;
+      handleJiraApiError(error, {
+        operation: "notify users",
+        ticketId,
+        isLegacyMode: this.isLegacyMode,
+        customMessages: {
+          400: `Cannot notify about ${ticketId} - outgoing email may be disabled, or a group doesn't exist`,
+          403: `Cannot notify about ${ticketId} - notifying others needs permission to browse users and groups`
+        }
+      });
+    }
+  }
+
+  // Voting Methods
+
+  async listVotes(ticketId: string): Promise<IssueVotes> {
+    this.initialize();
+    try {
+      const response = await this.client!.get(`/issue/${ticketId}/votes`);
+      return {
+        ticketId,
+        votes: response.data.votes || 0,
+        hasVoted: !!response.data.hasVoted,
+        voters: (response.data.voters || []).map((raw: any) => UserResolver.toUser(raw)),
+      };
+    } catch (error) {
+      handleJiraApiError(error, {
+        operation: "list votes",
+        ticketId,
+        isLegacyMode: this.isLegacyMode
+      });
+    }
+  }
+
+  // JIRA only lets users vote for themselves, so votes are cast and withdrawn as the authenticated user
+  async addVote(ticketId: string): Promise<void> {
+    this.initialize();
+    try {
+      await this.client!.post(`/issue/${ticketId}/votes`);
+    } catch (error) {
+      handleJiraApiError(error, {
+        operation: "add vote",
+        ticketId,
+        isLegacyMode: this.isLegacyMode,
+        customMessages: {
+          404: `Cannot vote for ${ticketId} - it doesn't exist, voting is disabled, or you reported it`
+        }
+      });
+    }
+  }
+
+  async removeVote(ticketId: string): Promise<void> {
+    this.initialize();
+    try {
+      await this.client!.delete(`/issue/${ticketId}/votes`);
+    } catch (error) {
+      handleJiraApiError(error, {
+        operation: "remove vote",
+        ticketId,
+        isLegacyMode: this.isLegacyMode,
+        customMessages: {
+          404: `Cannot remove your vote from ${ticketId} - it doesn't exist, voting is disabled, or you haven't voted for it`
+        }
+      });
+    }
+  }
+
+  // Relationship Methods
+
+  // Children of an issue from everywhere JIRA records them: sub-tasks, the parent field,
+  // the Epic Link field (JIRA Server) and issue links of the types in JIRA_CHILD_LINK_TYPES
+  async getChildIssues(parentKey: string): Promise<ChildIssue[]> {
+    this.initialize();
+    let parent: any;
+    try {
+      const response = await this.client!.get(`/issue/${parentKey}`, {
+        params: { fields: 'issuetype,subtasks,issuelinks' }
+      });
+      parent = response.data;
+    } catch (error) {
+      handleJiraApiError(error, {
+        operation: "get child issues",
+        ticketId: parentKey,
+        isLegacyMode: this.isLegacyMode
+      });
+    }
+
+    const relations = new Map<string, IssueRelation[]>();
+    const relate = (key: string, relation: IssueRelation) => {
+      const existing = relations.get(key) || [];
+      if (!existing.includes(relation)) existing.push(relation);
+      relations.set(key, existing);
+    };
+
+    for (const subtask of parent.fields.subtasks || []) {
+      relate(subtask.key, 'subtask');
+    }
+
+    // Links point both ways, so skip epics and issues of the parent's own type
+    const parentType = parent.fields.issuetype?.name;
+    for (const link of (parent.fields.issuelinks || []) as IssueLink[]) {
+      const linked = link.inwardIssue || link.outwardIssue;
+      const linkedType = linked?.fields?.issuetype?.name;
+      if (!linked || linkedType === 'Epic' || linkedType === parentType || !this.isChildLink(link)) {
+        continue;
+      }
+      relate(linked.key, `link:${link.type.name}`);
+    }
+
+    const issues = new Map<string, JiraTicket>();
+    const queries: Array<[IssueRelation, string]> = [['parent', `parent = ${parentKey}`]];
+    if (this.isLegacyMode) {
+      queries.push(['epicLink', `${await this.getEpicLinkJqlField()} = ${parentKey}`]);
+    }
+
+    for (const [relation, jql] of queries) {
+      try {
+        for (const issue of await this.searchAllIssues(jql, CHILD_ISSUE_FIELDS)) {
+          issues.set(issue.key, issue);
+          relate(issue.key, relation);
+        }
+      } catch (error) {
+        // e.g. the Epic Link field doesn't exist on this instance
+        console.warn(`Could not find ${relation} children of ${parentKey}:`, error instanceof Error ? error.message : error);
+      }
+    }
+
+    // Sub-tasks and linked issues only come with a few fields - fetch the rest in one search
+    const missing = [...relations.keys()].filter(key => !issues.has(key));
+    if (missing.length > 0) {
+      for (const issue of await this.searchAllIssues(`key in (${missing.join(', ')})`, CHILD_ISSUE_FIELDS)) {
+        issues.set(issue.key, issue);
+      }
+    }
+
+    return [...relations.entries()]
+      .filter(([key]) => issues.has(key))
+      .map(([key, issueRelations]) => ({ issue: issues.get(key)!, relations: issueRelations }));
+  }
+
+  // JIRA_CHILD_LINK_TYPES lists link type names or inward/outward descriptions. By default only links that
+  // describe the parent as "parent of" the linked issue count, not "relates to", "blocks" and the like.
+  private isChildLink(link: IssueLink): boolean {
+    const configured = (process.env.JIRA_CHILD_LINK_TYPES || '')
+      .split(',')
+      .map(name => name.trim().toLowerCase())
+      .filter(Boolean);
+    if (configured.length === 0) {
+      const description = link.outwardIssue ? link.type.outward : link.type.inward;
+      return !!description && DEFAULT_CHILD_LINK_DESCRIPTIONS.includes(description.trim().toLowerCase());
+    }
+
+    return [link.type.name, link.type.inward, link.type.outward].some(name => name && configured.includes(name.toLowerCase()));
+  }
+
+  // An issue and its descendants down to maxDepth levels, each issue appearing once
+  async getIssueTree(rootKey: string, maxDepth: number = 3): Promise<IssueTreeNode> {
+    const toNode = (issue: JiraTicket, relations?: IssueRelation[]): IssueTreeNode => ({
+      key: issue.key,
+      summary: issue.fields.summary,
+      issueType: issue.fields.issuetype?.name,
+      status: issue.fields.status?.name,
+      assignee: issue.fields.assignee?.displayName,
+      ...(relations && { relations }),
+      children: [],
+    });
+
+    const root = toNode(await this.getTicket(rootKey));
+    const visited = new Set([rootKey]);
+    const walk = async (node: IssueTreeNode, depth: number): Promise<void> => {
+      if (depth >= maxDepth) return;
+      for (const child of await this.getChildIssues(node.key)) {
+        if (visited.has(child.issue.key)) continue;
+        visited.add(child.issue.key);
+        node.children.push(toNode(child.issue, child.relations));
+      }
+      for (const child of node.children) {
+        await walk(child, depth + 1);
+      }
+    };
+    await walk(root, 0);
+    return root;
+  }
+
+  // Field Editing Methods
+
+  async getEditMeta(ticketId: string): Promise<Record<string, FieldMeta>> {
+    this.initialize();
+    try {
+      const response = await this.client!.get(`/issue/${ticketId}/editmeta`);
+      return response.data.fields || {};
+    } catch (error) {
+      handleJiraApiError(error, {
+        operation: "get edit metadata",
+        ticketId,
+        isLegacyMode: this.isLegacyMode
+      });
+    }
+  }
+
+  // Set any fields by ID, system name or custom field name. Values are checked against editmeta
+  // first and nothing is changed if any field can't be set.
+  async editTicket(ticketId: string, changes: Record<string, unknown>): Promise<EditTicketResult> {
+    this.initialize();
+    const editMeta = await this.getEditMeta(ticketId);
+    const values = await this.resolveUserFields(changes, editMeta, { issueKey: ticketId });
+    const { fields, updated, problems } = await this.fieldRegistry.coerceFields(values, editMeta, {
+      legacyMode: this.isLegacyMode,
+      richText: markdown => this.toRichText(markdown),
+      unavailable: `not editable on ${ticketId}`
+    });
+
+    if (problems.length > 0) {
+      throw new Error(`Cannot edit ${ticketId}: ${problems.join('; ')}`);
+    }
+    if (updated.length === 0) {
+      throw new Error(`No fields to edit on ${ticketId}`);
+    }
+
+    try {
+      await this.richTextClient.put(`/issue/${ticketId}`, { fields });
+    } catch (error) {
+      handleJiraApiError(error, {
+        operation: "edit JIRA ticket",
+        ticketId,
+        isLegacyMode: this.isLegacyMode
+      });
+    }
+    return { ticketId, updated };
+  }
+
+  // User fields take an email, display name, username, accountId or "me"; the assignee must be assignable in the scope
+  private async resolveUserFields(values: Record<string, unknown>, meta: Record<string, FieldMeta>, scope: AssignableScope): Promise<Record<string, unknown>> {
+    const resolved: Record<string, unknown> = {};
+    for (const [name, value] of Object.entries(values)) {
+      const id = await this.fieldRegistry.resolveFieldId(name, meta);
+      const schema = id ? meta[id]?.schema : undefined;
+      const isUserField = schema?.type === 'user' || (schema?.type === 'array' && schema.items === 'user');
+      if (!isUserField || value === null || value === '') {
+        resolved[name] = value;
+        continue;
+      }
+
+      const fieldScope = id === 'assignee' ? scope : undefined;
+      const users = Array.isArray(value) ? value : [value];
+      const payloads = [];
+      for (const user of users) {
+        payloads.push(typeof user === 'string' ? this.userResolver.toPayload(await this.resolveUser(user, fieldScope)) : user);
+      }
+      resolved[name] = Array.isArray(value) ? payloads : payloads[0];
+    }
+    return resolved;
+  }
+
+  private async resolveUser(query: string, scope?: AssignableScope): Promise<JiraUser> {
+    try {
+      return await this.userResolver.resolve(query, scope);
+    } catch (error) {
+      // Unknown or ambiguous users
+      if (!axios.isAxiosError(error)) throw error;
+      handleJiraApiError(error, {
+        operation: "find JIRA user",
+        isLegacyMode: this.isLegacyMode,
+        customMessages: {
+          404: `JIRA user "${query}" not found`
+        }
+      });
+    }
+  }
+
+  // Adds request.fields to the payload and checks the issue type, required fields and allowed values.
+  // Without create metadata (e.g. a JIRA Server without createmeta access) the payload is posted as is.
+  private async checkCreateFields(projectKey: string, request: CreateTicketRequest, fields: Record<string, unknown>): Promise<void> {
+    let createMeta: Record<string, FieldMeta>;
+    try {
+      createMeta = await this.fieldRegistry.getCreateMeta(projectKey, request.issueType);
+    } catch (error) {
+      // Unknown issue type
+      if (!axios.isAxiosError(error)) throw error;
+      // Fields by name can't be resolved without it
+      if (request.fields) {
+        handleJiraApiError(error, {
+          operation: "get create metadata",
+          isLegacyMode: this.isLegacyMode
+        });
+      }
+      console.warn(`Could not check ${request.issueType} fields in ${projectKey}:`, error.message);
+      return;
+    }
+
+    const options = {
+      legacyMode: this.isLegacyMode,
+      richText: (markdown: string) => this.toRichText(markdown),
+      unavailable: `not on the ${request.issueType} create screen in ${projectKey}`
+    };
+    const problems: string[] = [];
+
+    if (request.fields) {
+      const values = await this.resolveUserFields(request.fields, createMeta, { projectKey });
+      const coerced = await this.fieldRegistry.coerceFields(values, createMeta, options);
+      Object.assign(fields, coerced.fields);
+      problems.push(...coerced.problems);
+    }
+
+    if (request.priority && createMeta.priority) {
+      try {
+        fields.priority = coerceFieldValue('priority', createMeta.priority, request.priority, options);
+      } catch (error) {
+        problems.push(`priority: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+
+    // Same format as missing transition screen fields
+    const missing = Object.entries(createMeta)
+      .filter(([fieldId, field]) => field.required && !field.hasDefaultValue && fields[fieldId] === undefined)
+      .map(([fieldId, field]) => {
+        const allowed = FieldRegistry.describeField(fieldId, field).allowedValues || [];
+        return allowed.length > 0
+          ? `${field.name} (${fieldId}; allowed: ${allowed.join(', ')})`
+          : `${field.name} (${fieldId})`;
+      });
+    if (missing.length > 0) {
+      problems.push(`missing required fields: ${missing.join('; ')}`);
+    }
+
+    if (problems.length > 0) {
+      throw new Error(`Cannot create ${request.issueType} in ${projectKey}: ${problems.join('; ')}`);
+    }
+  }
+
+  // Every field, or the fields on an issue type's create screen with whether they're required and their allowed values
+  async listFields(options: ListFieldsOptions = {}): Promise<FieldDescription[]> {
+    this.initialize();
+    let fields: FieldDescription[];
+    try {
+      if (options.issueType) {
+        const projectKey = this.validateProjectKey(options.projectKey);
+        const createMeta = await this.fieldRegistry.getCreateMeta(projectKey, options.issueType);
+        fields = Object.entries(createMeta).map(([id, meta]) => FieldRegistry.describeField(id, meta));
+      } else {
+        fields = (await this.fieldRegistry.getFields()).map(field => FieldRegistry.describeField(field.id, field));
+      }
+    } catch (error) {
+      if (!axios.isAxiosError(error)) throw error;
+      handleJiraApiError(error, {
+        operation: "list JIRA fields",
+        isLegacyMode: this.isLegacyMode
+      });
+    }
+
+    const search = options.search?.toLowerCase();
+    return search
+      ? fields.filter(field => field.name.toLowerCase().includes(search) || field.id.toLowerCase() === search)
+      : fields;
+  }
+
+  // Sub-task Methods
+
+  // Sub-task issue type names of a project - "Sub-task" on JIRA Server, "Subtask" on newer JIRA Cloud projects
+  async getSubtaskIssueTypes(projectKey?: string): Promise<string[]> {
+    const levels = await this.getIssueTypeLevels(projectKey);
+    return Object.values(levels)
+      .filter(type => type.subtask)
+      .map(type => type.name);
+  }
+
+  async createSubtask(parentKey: string, request: CreateSubtaskRequest): Promise<JiraTicket> {
+    this.initialize();
+    const parent = await this.getTicket(parentKey);
+    const projectKey = parent.fields.project?.key || parentKey.split('-')[0];
+    const subtaskTypes = await this.getSubtaskIssueTypes(projectKey);
+
+    if (subtaskTypes.length === 0) {
+      throw new Error(`Project ${projectKey} has no sub-task issue type`);
+    }
+    if (subtaskTypes.some(type => type.toLowerCase() === parent.fields.issuetype.name.toLowerCase())) {
+      throw new Error(`${parentKey} is a ${parent.fields.issuetype.name} - sub-tasks can't have sub-tasks`);
+    }
+
+    let issueType = subtaskTypes[0];
+    if (request.issueType) {
+      const match = subtaskTypes.find(type => type.toLowerCase() === request.issueType!.toLowerCase());
+      if (!match) {
+        throw new Error(`"${request.issueType}" is not a sub-task issue type in ${projectKey}. Available: ${subtaskTypes.join(', ')}`);
+      }
+      issueType = match;
+    }
+
+    return this.createTicket({
+      summary: request.summary,
+      description: request.description,
+      issueType,
+      projectKey,
+      parentKey,
+      assignee: request.assignee,
+      priority: request.priority
+    });
+  }
+
+  async getSubtasks(parentKey: string): Promise<JiraSubtask[]> {
+    this.initialize();
+    try {
+      const response = await this.client!.get(`/issue/${parentKey}`, { params: { fields: 'subtasks' } });
+      return response.data.fields.subtasks || [];
+    } catch (error) {
+      handleJiraApiError(error, {
+        operation: "get sub-tasks",
+        ticketId: parentKey,
+        isLegacyMode: this.isLegacyMode
+      });
+    }
+  }
+
+  // Assignment Methods
+
+  // "automatic" hands the ticket to the project's default assignee; null unassigns it
+  async assignTicket(ticketId: string, assignee: string | null): Promise<JiraUser | null> {
+    this.initialize();
+    const automatic = assignee?.trim().toLowerCase() === 'automatic';
+    const user = assignee && !automatic ? await this.resolveUser(assignee, { issueKey: ticketId }) : null;
+    // JIRA's "-1" means automatic
+    const id = automatic ? '-1' : user ? user.id : null;
+
+    try {
+      await this.client!.put(`/issue/${ticketId}/assignee`, this.isLegacyMode ? { name: id } : { accountId: id });
+      if (!automatic) {
+        return user;
+      }
+      const response = await this.client!.get(`/issue/${ticketId}`, { params: { fields: 'assignee' } });
+      const raw = response.data.fields?.assignee;
+      return raw ? UserResolver.toUser(raw) : null;
+    } catch (error) {
+      handleJiraApiError(error, {
+        operation: assignee === null ? "unassign JIRA ticket" : "assign JIRA ticket",
+        ticketId,
+        isLegacyMode: this.isLegacyMode,
+        customMessages: {
+          400: automatic
+            ? `Cannot assign ${ticketId} automatically - the project has no default assignee`
+            : `Cannot ${assignee === null ? 'unassign' : 'assign'} ${ticketId} - unassigned issues may be turned off`,
+          403: `Insufficient permissions to assign ${ticketId} (needs Assign Issues)`
+        }
+      });
+    }
+  }
+
+  // Spreads the unassigned issues matched by the JQL over the members, each to whoever has the fewest open issues.
+  // Nothing changes in a dry run, so the proposal can be reviewed first. Applying takes the approved assignments
+  // rather than a new proposal, which could differ once workloads change; those whose issue has been assigned
+  // or no longer matches the JQL since are reported as failures.
+  async balanceAssignments(
+    jql: string,
+    members: string[],
+    dryRun: boolean = true,
+    approved?: ApprovedAssignment[]
+  ): Promise<BalanceAssignmentsResult> {
+    this.initialize();
+    if (members.length === 0) {
+      throw new Error("At least one team member is required");
+    }
+    if (!dryRun && !approved) {
+      throw new Error("Pass the assignments approved from a dry run to apply them");
+    }
+
+    const users = await this.userResolver.resolveAll(members);
+    const unique = users.filter((user, index) => users.findIndex(other => other.id === user.id) === index);
+
+    // ORDER BY has to stay at the end of the query, and decides who gets which issue
+    const { filter, orderBy } = JiraService.splitOrderBy(jql);
+    const unassigned = filter ? `(${filter}) AND assignee is EMPTY` : 'assignee is EMPTY';
+    const issues = await this.searchAllIssues(orderBy ? `${unassigned} ${orderBy}` : unassigned, ['summary']);
+    if (issues.length > MAX_BALANCED_ISSUES) {
+      throw new Error(`${issues.length} unassigned issues match - balance at most ${MAX_BALANCED_ISSUES} at a time by narrowing the JQL`);
+    }
+
+    const ids = unique.map(user => `"${user.id}"`).join(', ');
+    const open = await this.searchAllIssues(`assignee in (${ids}) AND statusCategory != Done`, ['assignee']);
+    const load = new Map(unique.map(user => [user.id, 0]));
+    for (const issue of open) {
+      const assignee = issue.fields.assignee;
+      const id = assignee?.accountId || assignee?.name;
+      if (id && load.has(id)) load.set(id, load.get(id)! + 1);
+    }
+    const openIssues = new Map(load);
+
+    const assignments: ProposedAssignment[] = [];
+    const failures: BalanceAssignmentsResult['failures'] = [];
+    if (approved) {
+      const assignees = await this.userResolver.resolveAll(approved.map(entry => entry.assignee));
+      for (const [index, entry] of approved.entries()) {
+        const assignee = unique.find(user => user.id === assignees[index].id);
+        if (!assignee) {
+          throw new Error(`${entry.assignee} is not one of the team members`);
+        }
+        if (approved.findIndex(other => other.issueKey === entry.issueKey) !== index) {
+          throw new Error(`${entry.issueKey} is assigned more than once`);
+        }
+        const issue = issues.find(candidate => candidate.key === entry.issueKey);
+        if (!issue) {
+          failures.push({ issueKey: entry.issueKey, error: `${entry.issueKey} is no longer an unassigned issue matching the JQL` });
+          continue;
+        }
+        load.set(assignee.id, load.get(assignee.id)! + 1);
+        assignments.push({ issueKey: issue.key, summary: issue.fields.summary, assignee });
+      }
+    } else {
+      // Ties go to the member listed first
+      for (const issue of issues) {
+        const assignee = unique.reduce((least, user) => load.get(user.id)! < load.get(least.id)! ? user : least);
+        load.set(assignee.id, load.get(assignee.id)! + 1);
+        assignments.push({ issueKey: issue.key, summary: issue.fields.summary, assignee });
+      }
+    }
+
+    const result: BalanceAssignmentsResult = {
+      jql,
+      dryRun,
+      workload: unique.map(user => ({
+        user,
+        openIssues: openIssues.get(user.id)!,
+        proposed: load.get(user.id)! - openIssues.get(user.id)!,
+      })),
+      assignments,
+      applied: [],
+      failures,
+    };
+
+    if (dryRun) {
+      return result;
+    }
+
+    for (const assignment of assignments) {
+      try {
+        await this.assignTicket(assignment.issueKey, assignment.assignee.id);
+        result.applied.push(assignment.issueKey);
+      } catch (error) {
+        result.failures.push({ issueKey: assignment.issueKey, error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+    return result;
+  }
+
+  // Splits a trailing ORDER BY clause (outside quoted values) off a JQL query
+  private static splitOrderBy(jql: string): { filter: string; orderBy?: string } {
+    let quote: string | null = null;
+    for (let index = 0; index < jql.length; index++) {
+      const char = jql[index];
+      if (quote) {
+        if (char === '\\') index++;
+        else if (char === quote) quote = null;
+      } else if (char === '"' || char === "'") {
+        quote = char;
+      } else if (/^order\s+by\b/i.test(jql.slice(index)) && (index === 0 || /\s/.test(jql[index - 1]))) {
+        return { filter: jql.slice(0, index).trim(), orderBy: jql.slice(index).trim() };
+      }
+    }
+    return { filter: jql.trim() };
+  }
+
+  // Workflow Path Methods
+
+  async moveTicketToStatus(ticketId: string, target: string | TransitionRequest, dryRun: boolean = false): Promise<MoveToStatusResult> {
+    this.initialize();
+    const request: TransitionRequest = typeof target === 'string' ? { status: target } : target;
+    if (!request.status && !request.statusCategory) {
+      throw new Error("A target status or status category is required");
+    }
+
+    const ticket = await this.getTicket(ticketId);
+    const fromStatus = ticket.fields.status.name;
+    const path = await this.findStatusPath(ticket, request);
+
+    const result: MoveToStatusResult = {
+      ticketId,
+      fromStatus,
+      targetStatus: path.length > 0 ? path[path.length - 1].to : fromStatus,
+      dryRun,
+      path,
+      executed: [],
+    };
+
+    if (dryRun) {
+      return result;
+    }
+
+    for (let index = 0; index < path.length; index++) {
+      const step = path[index];
+      const isLastStep = index === path.length - 1;
+      try {
+        // Screen fields and the comment belong to the final transition
+        await this.updateTicketStatus(ticketId, isLastStep
+          ? { ...request, status: undefined, statusCategory: undefined, transitionId: step.transitionId }
+          : { transitionId: step.transitionId });
+        result.executed.push(step);
+      } catch (error) {
+        result.failure = {
+          step: index + 1,
+          transition: step,
+          error: error instanceof Error ? error.message : String(error),
+        };
+        break;
+      }
+    }
+
+    return result;
+  }
+
+  // Breadth-first search over the workflow of the ticket's issue type. Where the workflow definition
+  // can't be read, transitions are sampled from issues of the same project and type in each status.
+  private async findStatusPath(ticket: JiraTicket, request: TransitionRequest, firstWhenAmbiguous: boolean = false): Promise<StatusPathStep[]> {
+    const isTarget = (status: { name: string; statusCategory?: { key: string } }) =>
+      request.status
+        ? status.name.toLowerCase() === request.status.trim().toLowerCase()
+        : status.statusCategory?.key === request.statusCategory;
+
+    if (isTarget(ticket.fields.status)) {
+      return [];
+    }
+
+    // Why statuses couldn't be explored, for the error when no path is found
+    const notes: string[] = [];
+    let workflow: Map<string, JiraTransition[]> | null = null;
+    if (this.isLegacyMode) {
+      notes.push('JIRA Server doesn\'t expose workflow transitions, so they were sampled from other issues');
+    } else {
+      try {
+        workflow = await this.getWorkflowTransitions(ticket);
+      } catch (error) {
+        notes.push(`The workflow couldn't be read (${error instanceof Error ? error.message : String(error)}), so transitions were sampled from other issues`);
+      }
+    }
+
+    const start = ticket.fields.status.name;
+    const visited = new Set<string>([start.toLowerCase()]);
+    let frontier: Array<{ status: string; path: StatusPathStep[] }> = [{ status: start, path: [] }];
+
+    for (let depth = 0; depth < MAX_WORKFLOW_PATH_LENGTH && frontier.length > 0; depth++) {
+      const next: Array<{ status: string; path: StatusPathStep[] }> = [];
+
+      for (const node of frontier) {
+        let transitions: JiraTransition[];
+        if (node.status === start) {
+          transitions = await this.getAvailableTransitions(ticket.key);
+        } else if (workflow) {
+          transitions = workflow.get(node.status.toLowerCase()) || [];
+        } else {
+          transitions = await this.getTransitionsFromStatus(ticket, node.status, notes);
+        }
+
+        const toStep = (transition: JiraTransition): StatusPathStep => ({
+          transitionId: transition.id,
+          transitionName: transition.name,
+          from: node.status,
+          to: transition.to.name,
+        });
+
+        const targets = transitions.filter(transition => transition.to?.name && isTarget(transition.to));
+        if (targets.length > 0) {
+          const transition = request.status
+            ? targets[0]
+            : JiraService.pickCategoryTransition(targets, request.statusCategory!, `"${node.status}"`, firstWhenAmbiguous)!;
+          return [...node.path, toStep(transition)];
+        }
+
+        for (const transition of transitions) {
+          if (!transition.to?.name || visited.has(transition.to.name.toLowerCase())) continue;
+
+          visited.add(transition.to.name.toLowerCase());
+          next.push({ status: transition.to.name, path: [...node.path, toStep(transition)] });
+        }
+      }
+
+      frontier = next;
+    }
+
+    const target = request.status ? `"${request.status}"` : `status category "${request.statusCategory}"`;
+    throw new Error(
+      `No transition path from "${start}" to ${target} found for ${ticket.key}. ` +
+      `Explored statuses: ${Array.from(visited).join(', ')}` +
+      (notes.length > 0 ? `. ${notes.join('. ')}` : '')
+    );
+  }
+
+  // Transitions out of each status (by lower-case name) in the workflow the ticket's issue type uses,
+  // from the project's workflow scheme. JIRA Cloud only; reading workflows usually needs admin permission.
+  private async getWorkflowTransitions(ticket: JiraTicket): Promise<Map<string, JiraTransition[]>> {
+    const projectId = ticket.fields.project?.id;
+    const issueTypeId = ticket.fields.issuetype?.id;
+    if (!projectId || !issueTypeId) {
+      throw new Error('the project or issue type ID is unknown');
+    }
+
+    const schemes = await this.client!.get('/workflowscheme/project', { params: { projectId } });
+    const scheme = schemes.data.values?.[0]?.workflowScheme;
+    const workflowName: string | undefined = scheme?.issueTypeMappings?.[issueTypeId] || scheme?.defaultWorkflow;
+    if (!workflowName) {
+      throw new Error(`no workflow scheme is associated with ${ticket.fields.project!.key}`);
+    }
+
+    const workflows = await this.client!.get('/workflow/search', {
+      params: { workflowName, expand: 'transitions,statuses' }
+    });
+    const definition = (workflows.data.values || []).find((value: any) => value.id?.name === workflowName);
+    if (!definition) {
+      throw new Error(`workflow "${workflowName}" not found`);
+    }
+
+    // The workflow only has status IDs; names and categories come from /status
+    const statuses = new Map<string, JiraTransition['to']>();
+    for (const status of (await this.client!.get('/status')).data || []) {
+      statuses.set(String(status.id), {
+        id: String(status.id),
+        name: status.name,
+        statusCategory: status.statusCategory && { key: status.statusCategory.key, name: status.statusCategory.name },
+      });
+    }
 
-      if (request.comment) {
-        linkPayload.comment = {
-          body: JiraService.formatJiraText(request.comment)
-        };
+    const transitions = new Map<string, JiraTransition[]>();
+    for (const status of definition.statuses || []) {
+      const from = String(status.id);
+      const name: string = statuses.get(from)?.name || status.name;
+      transitions.set(name.toLowerCase(), (definition.transitions || [])
+        // Global transitions can be taken from any status; the initial one only creates issues
+        .filter((transition: any) => transition.type === 'global' || (transition.from || []).map(String).includes(from))
+        .filter((transition: any) => statuses.has(String(transition.to)))
+        .map((transition: any): JiraTransition => ({
+          id: String(transition.id),
+          name: transition.name,
+          to: statuses.get(String(transition.to))!,
+        })));
+    }
+    return transitions;
+  }
+
+  // Transitions out of a status, read from another issue of the same project and type in that status.
+  // Statuses that can't be explored are noted with the reason.
+  private async getTransitionsFromStatus(ticket: JiraTicket, status: string, notes: string[]): Promise<JiraTransition[]> {
+    const quote = (value: string) => `"${value.replace(/(["\\])/g, '\\$1')}"`;
+    const clauses = [`status = ${quote(status)}`, `key != ${ticket.key}`];
+    if (ticket.fields.project?.key) clauses.push(`project = ${quote(ticket.fields.project.key)}`);
+    if (ticket.fields.issuetype?.name) clauses.push(`issuetype = ${quote(ticket.fields.issuetype.name)}`);
+
+    try {
+      const sample = await this.searchIssues(clauses.join(' AND '), { fields: ['status'], pageSize: 1 });
+      if (sample.issues.length === 0) {
+        notes.push(`"${status}" wasn't explored: no other ${ticket.fields.issuetype?.name || 'issue'} in ${ticket.fields.project?.key || 'the project'} is in it`);
+        return [];
       }
+      return await this.getAvailableTransitions(sample.issues[0].key);
+    } catch (error) {
+      notes.push(`"${status}" wasn't explored: ${error instanceof Error ? error.message : String(error)}`);
+      return [];
+    }
+  }
+
+  // Search Methods
+
+  async searchIssues(jql: string, options: SearchIssuesOptions = {}): Promise<SearchIssuesResult> {
+    this.initialize();
+    const page = await this.fetchSearchPage(jql, options);
+    const truncated = page.issues.reduce((wasTruncated, issue) => JiraService.truncateIssueFields(issue) || wasTruncated, false);
+    return { ...page, truncated };
+  }
+
+  // One page of search results with every field value intact. Rich text fields come back as wiki markup
+  // from the default client, or in the deployment's native format from richTextClient.
+  private async fetchSearchPage(
+    jql: string,
+    options: SearchIssuesOptions,
+    client: AxiosInstance = this.client!
+  ): Promise<Omit<SearchIssuesResult, 'truncated'>> {
+    try {
+      const pageSize = Math.min(Math.max(options.pageSize || DEFAULT_SEARCH_PAGE_SIZE, 1), MAX_SEARCH_PAGE_SIZE);
+      const fields = (options.fields && options.fields.length > 0 ? options.fields : DEFAULT_SEARCH_FIELDS).join(',');
+      const expand = options.expand && options.expand.length > 0 ? options.expand.join(',') : undefined;
+
+      let issues: JiraTicket[];
+      let total: number | undefined;
+      let nextCursor: string | undefined;
 
       if (this.isLegacyMode) {
-        // JIRA Server: Use v2 API
-        await this.client!.post('/issueLink', linkPayload);
+        // JIRA Server: Offset paging, the cursor is the next startAt
+        const startAt = options.cursor ? parseInt(options.cursor, 10) : 0;
+        if (isNaN(startAt) || startAt < 0) {
+          throw new Error(`Invalid search cursor: ${options.cursor}`);
+        }
+
+        const response = await client.get('/search', {
+          params: { jql, startAt, maxResults: pageSize, fields, expand }
+        });
+        issues = response.data.issues || [];
+        total = response.data.total;
+        const nextStartAt = startAt + issues.length;
+        if (issues.length > 0 && total !== undefined && nextStartAt < total) {
+          nextCursor = String(nextStartAt);
+        }
       } else {
-        // JIRA Cloud: Use v3 API
-        await this.v3Client!.post('/issueLink', linkPayload);
+        // JIRA Cloud: Token paging, the cursor is the nextPageToken
+        const response = await client.get('/search/jql', {
+          params: { jql, nextPageToken: options.cursor, maxResults: pageSize, fields, expand }
+        });
+        issues = response.data.issues || [];
+        if (!response.data.isLast && response.data.nextPageToken) {
+          nextCursor = response.data.nextPageToken;
+        }
       }
+
+      return { issues, total, nextCursor };
     } catch (error) {
       handleJiraApiError(error, {
-        operation: "link issues",
-        issueKeys: [request.fromIssue, request.toIssue],
+        operation: "search JIRA issues",
         isLegacyMode: this.isLegacyMode,
         customMessages: {
-          400: "Invalid link request"
+          400: `Invalid JQL query: ${jql}`
         }
       });
     }
   }
 
-  async getIssueLinks(ticketId: string): Promise<IssueLink[]> {
+  // Filter Methods
+
+  async getFilter(filterId: string): Promise<JiraFilter> {
     this.initialize();
     try {
-      let response;
-      
-      if (this.isLegacyMode) {
-        // JIRA Server: Use v2 API
-        response = await this.client!.get(`/issue/${ticketId}?fields=issuelinks`);
-      } else {
-        // JIRA Cloud: Use v3 API
-        response = await this.v3Client!.get(`/issue/${ticketId}?fields=issuelinks`);
-      }
-      
-      return response.data.fields.issuelinks || [];
+      const response = await this.client!.get(`/filter/${filterId}`);
+      return JiraService.toFilter(response.data);
     } catch (error) {
-      handleJiraApiError(error, { 
-        operation: "get issue links", 
-        ticketId,
+      handleJiraApiError(error, {
+        operation: "get filter",
+        isLegacyMode: this.isLegacyMode,
+        customMessages: {
+          400: `Filter ${filterId} not found or not shared with you`,
+          404: `Filter ${filterId} not found or not shared with you`
+        }
+      });
+    }
+  }
+
+  async listFavouriteFilters(): Promise<JiraFilter[]> {
+    this.initialize();
+    try {
+      const response = await this.client!.get('/filter/favourite');
+      return (response.data || []).map((raw: any) => JiraService.toFilter(raw));
+    } catch (error) {
+      handleJiraApiError(error, {
+        operation: "list favourite filters",
         isLegacyMode: this.isLegacyMode
       });
     }
   }
 
-  // Epic Management Methods (using parent field)
+  private static toFilter(raw: any): JiraFilter {
+    return {
+      id: String(raw.id),
+      name: raw.name,
+      jql: raw.jql,
+      description: raw.description || undefined,
+      owner: raw.owner?.displayName,
+    };
+  }
 
-  async setEpicLink(issueKey: string, epicKey: string): Promise<void> {
+  // Fetch every page of a JQL query - for internal use where completeness matters, so nothing is truncated.
+  // With richText, descriptions and other rich text fields are ADF on JIRA Cloud, as getTicket reads them.
+  private async searchAllIssues(jql: string, fields?: string[], richText: boolean = false): Promise<JiraTicket[]> {
     this.initialize();
-    try {
-      let updatePayload: any;
-      
-      if (this.isLegacyMode) {
-        // JIRA Server: Use custom field
-        updatePayload = {
-          fields: {
-            [this.fieldMappings.epicLink]: epicKey
-          }
+    const issues: JiraTicket[] = [];
+    let cursor: string | undefined;
+
+    do {
+      const page = await this.fetchSearchPage(jql, {
+        fields: fields || ['*navigable'],
+        pageSize: MAX_SEARCH_PAGE_SIZE,
+        cursor
+      }, richText ? this.richTextClient : this.client!);
+      issues.push(...page.issues);
+      cursor = page.nextCursor;
+    } while (cursor);
+
+    return issues;
+  }
+
+  // Cap long strings and arrays anywhere in the issue - fields, and expanded renderedFields, changelog
+  // and the like - so one issue can't dominate the result
+  private static truncateIssueFields(issue: JiraTicket): boolean {
+    let truncated = false;
+    const truncate = (value: unknown): unknown => {
+      if (typeof value === 'string' && value.length > MAX_SEARCH_FIELD_LENGTH) {
+        truncated = true;
+        return `${value.slice(0, MAX_SEARCH_FIELD_LENGTH)}... [truncated]`;
+      }
+      if (Array.isArray(value)) {
+        const kept = value.slice(0, MAX_SEARCH_ARRAY_LENGTH).map(truncate);
+        if (value.length > MAX_SEARCH_ARRAY_LENGTH) {
+          truncated = true;
+          kept.push(`... [${value.length - MAX_SEARCH_ARRAY_LENGTH} more truncated]`);
+        }
+        return kept;
+      }
+      if (value && typeof value === 'object') {
+        const object = value as Record<string, unknown>;
+        for (const [name, nested] of Object.entries(object)) {
+          object[name] = truncate(nested);
+        }
+      }
+      return value;
+    };
+
+    truncate(issue);
+    return truncated;
+  }
+
+  // Project Hierarchy Methods
+
+  async createProjectHierarchy(
+    hierarchy: ProjectHierarchy,
+    projectKey?: string,
+    options: CreateHierarchyOptions = {}
+  ): Promise<CreateHierarchyResult> {
+    this.initialize();
+    const project = this.validateProjectKey(projectKey);
+    const tree = resolveHierarchy(hierarchy);
+    JiraService.checkExternalIds(tree);
+    const typeLevels = await this.checkHierarchyTypes(tree, project);
+    const onFailure = options.onFailure || 'resume';
+    const fingerprint = JiraService.hierarchyFingerprint(hierarchy, project);
+
+    // Journal of created issues, keyed by hierarchy path - seeded from the resume token on a rerun
+    const journal = new Map<string, HierarchyJournalEntry>();
+    if (options.resumeToken) {
+      for (const entry of JiraService.decodeResumeToken(options.resumeToken, fingerprint)) {
+        journal.set(entry.path, entry);
+      }
+    }
+
+    let current: { path: string; step: HierarchyStep } = { path: tree.path, step: 'create' };
+
+    const ensureIssue = async (node: ResolvedHierarchyNode, parentKey?: string): Promise<JiraTicket> => {
+      const { path, issueType } = node;
+      let entry = journal.get(path);
+      let ticket: JiraTicket | undefined;
+
+      // Rerun with an external ID - update the issue created last time
+      if (!entry && node.externalId) {
+        current = { path, step: 'match' };
+        const existing = await this.findIssueByExternalId(node.externalId, project);
+        if (existing) {
+          current = { path, step: 'update' };
+          const updated = await this.syncHierarchyIssue(existing, node);
+          entry = {
+            path,
+            key: existing.key,
+            issueType,
+            summary: node.summary,
+            externalId: node.externalId,
+            action: updated ? 'updated' : 'unchanged',
+            parentKey,
+            linked: !parentKey || await this.getParentKey(existing) === parentKey
+          };
+          journal.set(path, entry);
+        }
+      }
+
+      if (!entry) {
+        current = { path, step: 'create' };
+        const subtask = typeLevels
+          ? !!typeLevels[issueType.toLowerCase()]?.subtask
+          : /^sub-?task$/i.test(issueType);
+        ticket = await this.createTicket({
+          summary: node.summary,
+          description: node.description,
+          issueType,
+          projectKey: project,
+          parentKey: subtask ? parentKey : undefined,
+          labels: node.externalId ? [JiraService.externalIdLabel(node.externalId)] : undefined
+        });
+        entry = {
+          path,
+          key: ticket.key,
+          issueType,
+          summary: node.summary,
+          externalId: node.externalId,
+          action: 'created',
+          parentKey,
+          linked: !parentKey || subtask
         };
-      } else {
-        // JIRA Cloud: Use parent field
-        updatePayload = {
-          fields: {
-            parent: { key: epicKey }
-          }
+        journal.set(path, entry);
+      }
+
+      // Set parent after creation
+      if (!entry.linked) {
+        current = { path, step: 'link' };
+        await this.setEpicLink(entry.key, parentKey!);
+        entry.linked = true;
+      }
+
+      if (!ticket) {
+        current = { path, step: 'fetch' };
+        ticket = await this.getTicket(entry.key);
+      }
+      return ticket;
+    };
+
+    // Parents first, so every child can be attached to an existing issue
+    const createNode = async (node: ResolvedHierarchyNode, parentKey?: string): Promise<CreatedHierarchyNode> => {
+      const ticket = await ensureIssue(node, parentKey);
+      const children: CreatedHierarchyNode[] = [];
+      for (const child of node.children) {
+        children.push(await createNode(child, ticket.key));
+      }
+      return { path: node.path, ticket, children };
+    };
+
+    try {
+      const root = await createNode(tree);
+      return { status: 'created', root, created: [...journal.values()] };
+    } catch (error) {
+      const failure = { ...current, error: error instanceof Error ? error.message : String(error) };
+      const created = [...journal.values()];
+
+      if (onFailure === 'resume') {
+        return {
+          status: 'incomplete',
+          created,
+          failure,
+          resumeToken: JiraService.encodeResumeToken(created, fingerprint)
         };
       }
 
-      await this.client!.put(`/issue/${issueKey}`, updatePayload);
+      // Issues matched by external ID existed before this run and are never rolled back
+      const rollback = await this.rollbackHierarchy(created.filter(entry => entry.action === 'created'), onFailure);
+      return {
+        status: 'rolled_back',
+        created: created.filter(entry => !rollback.removed.includes(entry.key)),
+        failure,
+        rollback
+      };
+    }
+  }
+
+  // Issue types of a project with their hierarchy level, keyed by lower-case name
+  async getIssueTypeLevels(projectKey?: string): Promise<Record<string, IssueTypeLevel>> {
+    this.initialize();
+    const project = this.validateProjectKey(projectKey);
+    try {
+      const response = await this.client!.get(`/project/${project}`);
+      const levels: Record<string, IssueTypeLevel> = {};
+
+      for (const issueType of response.data.issueTypes || []) {
+        levels[issueType.name.toLowerCase()] = { name: issueType.name, level: JiraService.hierarchyLevel(issueType), subtask: !!issueType.subtask };
+      }
+      return levels;
+    } catch (error) {
+      handleJiraApiError(error, { operation: "get project issue types", isLegacyMode: this.isLegacyMode });
+    }
+  }
+
+  // JIRA Server doesn't report hierarchyLevel - derive it from the sub-task flag and the Epic type
+  private static hierarchyLevel(issueType: any): number {
+    return typeof issueType.hierarchyLevel === 'number'
+      ? issueType.hierarchyLevel
+      : issueType.subtask ? -1 : issueType.name === 'Epic' ? 1 : 0;
+  }
+
+  // Issue types, statuses, priorities, components, versions and link types, cached for a few minutes
+  async describeProject(projectKey?: string, refresh: boolean = false): Promise<ProjectCatalog> {
+    this.initialize();
+    const key = this.validateProjectKey(projectKey);
+    const cached = this.projectCatalogs.get(key);
+    if (cached && !refresh && Date.now() - Date.parse(cached.fetchedAt) < PROJECT_CATALOG_TTL_MS) {
+      return cached;
+    }
+
+    let catalog: ProjectCatalog;
+    try {
+      const project = (await this.client!.get(`/project/${key}`)).data;
+      const statuses: any[] = (await this.client!.get(`/project/${key}/statuses`)).data || [];
+      const priorities: any[] = (await this.client!.get('/priority')).data || [];
+      const components: any[] = (await this.client!.get(`/project/${key}/components`)).data || [];
+      const versions: any[] = (await this.client!.get(`/project/${key}/versions`)).data || [];
+
+      catalog = {
+        key: project.key,
+        name: project.name,
+        lead: project.lead?.displayName,
+        issueTypes: (project.issueTypes || []).map((issueType: any) => ({
+          name: issueType.name,
+          subtask: !!issueType.subtask,
+          hierarchyLevel: JiraService.hierarchyLevel(issueType),
+          statuses: (statuses.find(entry => entry.id === issueType.id || entry.name === issueType.name)?.statuses || [])
+            .map((status: any) => ({ name: status.name, category: status.statusCategory?.key })),
+        })),
+        priorities: priorities.map(priority => priority.name),
+        components: components.map(component => ({ name: component.name, description: component.description || undefined })),
+        versions: versions
+          .filter(version => !version.archived)
+          .map(version => ({ name: version.name, released: !!version.released, releaseDate: version.releaseDate })),
+        linkTypes: [],
+        fetchedAt: new Date().toISOString(),
+      };
     } catch (error) {
       handleJiraApiError(error, {
-        operation: "set epic link",
-        issueKeys: [issueKey, epicKey],
+        operation: "describe JIRA project",
+        isLegacyMode: this.isLegacyMode,
         customMessages: {
-          400: this.isLegacyMode ? "Invalid epic link custom field" : "Invalid parent link"
+          404: `Project ${key} not found or you don't have permission to browse it`
         }
       });
     }
+
+    catalog.linkTypes = await this.getAvailableLinkTypes();
+    this.projectCatalogs.set(key, catalog);
+    return catalog;
   }
 
+  // Throws when the tree uses unknown issue types or nests them against the project's hierarchy.
+  // Returns the levels, or null when they couldn't be read and the check was skipped.
+  private async checkHierarchyTypes(
+    tree: ResolvedHierarchyNode,
+    projectKey: string
+  ): Promise<Record<string, IssueTypeLevel> | null> {
+    let typeLevels: Record<string, IssueTypeLevel>;
+    try {
+      typeLevels = await this.getIssueTypeLevels(projectKey);
+    } catch (error) {
+      console.warn(`Could not read issue types of ${projectKey}, skipping hierarchy check:`, error instanceof Error ? error.message : error);
+      return null;
+    }
 
-  async getEpicIssues(epicKey: string): Promise<JiraTicket[]> {
+    const problems: string[] = [];
+    const check = (node: ResolvedHierarchyNode, parent?: IssueTypeLevel) => {
+      const type = typeLevels[node.issueType.toLowerCase()];
+      if (!type) {
+        problems.push(`${node.path}: issue type "${node.issueType}" does not exist in project ${projectKey}`);
+      } else if (parent) {
+        const problem = JiraService.hierarchyLevelProblem(parent, type);
+        if (problem) problems.push(`${node.path}: ${problem}`);
+      }
+      node.children.forEach(child => check(child, type));
+    };
+    check(tree);
+
+    if (problems.length > 0) {
+      throw new Error(`Hierarchy does not fit project ${projectKey}: ${problems.join('; ')}`);
+    }
+    return typeLevels;
+  }
+
+  // A child sits one level below its parent; same-level children (Story → Task) are linked as before
+  private static hierarchyLevelProblem(parent: IssueTypeLevel, child: IssueTypeLevel): string | null {
+    const gap = parent.level - child.level;
+    if (gap < 0 || gap > 1 || (child.subtask && gap !== 1)) {
+      return `${child.name} (level ${child.level}) cannot be a child of ${parent.name} (level ${parent.level})`;
+    }
+    return null;
+  }
+
+  // Undo a partial hierarchy, children before parents
+  private async rollbackHierarchy(
+    created: HierarchyJournalEntry[],
+    mode: 'delete' | 'close'
+  ): Promise<NonNullable<CreateHierarchyResult['rollback']>> {
+    const removed: string[] = [];
+    const failed: Array<{ key: string; error: string }> = [];
+
+    for (const entry of [...created].reverse()) {
+      try {
+        if (mode === 'delete') {
+          await this.deleteTicket(entry.key);
+        } else {
+          await this.closeTicket(entry.key, 'Closed automatically: hierarchy creation failed and was rolled back.');
+        }
+        removed.push(entry.key);
+      } catch (error) {
+        failed.push({ key: entry.key, error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+
+    return { mode, removed, failed };
+  }
+
+  // Walks the workflow into the done category, however many steps away it is. Where several done statuses
+  // can be reached, the one named after the category wins, then the first JIRA lists - closing must not stall.
+  private async closeTicket(ticketId: string, comment: string): Promise<void> {
+    const ticket = await this.getTicket(ticketId);
+    const path = await this.findStatusPath(ticket, { statusCategory: 'done' }, true);
+    for (let index = 0; index < path.length; index++) {
+      await this.updateTicketStatus(ticketId, index === path.length - 1
+        ? { transitionId: path[index].transitionId, comment }
+        : { transitionId: path[index].transitionId });
+    }
+  }
+
+  async deleteTicket(ticketId: string): Promise<void> {
     this.initialize();
     try {
-      let jql: string;
-      
-      if (this.isLegacyMode) {
-        // JIRA Server: Query by custom field
-        jql = `"${this.fieldMappings.epicLink}" = ${epicKey}`;
-      } else {
-        // JIRA Cloud: Query by parent
-        jql = `parent = ${epicKey}`;
-      }
-      
-      const response = await this.client!.get('/search', {
-        params: { jql, maxResults: 1000 }
-      });
-      return response.data.issues;
+      await this.client!.delete(`/issue/${ticketId}`);
     } catch (error) {
-      handleJiraApiError(error, { operation: "get epic issues" });
+      handleJiraApiError(error, {
+        operation: "delete JIRA ticket",
+        ticketId,
+        isLegacyMode: this.isLegacyMode,
+        customMessages: {
+          403: `Insufficient permissions to delete ${ticketId}.`
+        }
+      });
     }
   }
 
-  // Project Hierarchy Methods
-
-  async createProjectHierarchy(hierarchy: ProjectHierarchy, projectKey?: string): Promise<{
-    epic: JiraTicket;
-    stories: Array<{ story: JiraTicket; tasks: JiraTicket[] }>;
-  }> {
+  async findIssueByExternalId(externalId: string, projectKey?: string): Promise<JiraTicket | null> {
     this.initialize();
+    const project = this.validateProjectKey(projectKey);
+    const label = JiraService.externalIdLabel(externalId).replace(/(["\\])/g, '\\$1');
+    const issues = await this.searchAllIssues(
+      `project = "${project}" AND labels = "${label}"`,
+      ['summary', 'description', 'issuetype', 'status', 'parent', (await this.fieldRegistry.getCommonFields()).epicLink],
+      true
+    );
+
+    if (issues.length > 1) {
+      throw new Error(`External ID "${externalId}" matches more than one issue: ${issues.map(issue => issue.key).join(', ')}`);
+    }
+    return issues[0] || null;
+  }
+
+  static externalIdLabel(externalId: string): string {
+    return `${EXTERNAL_ID_LABEL_PREFIX}${externalId.trim().replace(/\s+/g, '-')}`;
+  }
+
+  // Bring a matched issue in line with the hierarchy node; returns whether anything changed
+  private async syncHierarchyIssue(
+    issue: JiraTicket,
+    data: { summary: string; description?: string }
+  ): Promise<boolean> {
+    const changes = this.hierarchyFieldChanges(issue, data);
+    if (changes.length === 0) return false;
+
+    const fields: Record<string, any> = {};
+    for (const change of changes) {
+      fields[change.field] = change.field === 'description' ? this.toRichText(change.to!) : change.to;
+    }
+
     try {
-      const project = this.validateProjectKey(projectKey);
+      await this.richTextClient.put(`/issue/${issue.key}`, { fields });
+    } catch (error) {
+      handleJiraApiError(error, { operation: "update JIRA ticket", ticketId: issue.key, isLegacyMode: this.isLegacyMode });
+    }
+    return true;
+  }
 
-      // Create the epic first
-      const epic = await this.createTicket({
-        summary: hierarchy.epic.summary,
-        description: hierarchy.epic.description,
-        issueType: 'Epic',
-        projectKey: project
-      });
+  private hierarchyFieldChanges(issue: JiraTicket, data: { summary: string; description?: string }): PlanChange[] {
+    const changes: PlanChange[] = [];
+    if (issue.fields.summary !== data.summary) {
+      changes.push({ field: 'summary', from: issue.fields.summary, to: data.summary });
+    }
+    if (data.description !== undefined) {
+      // Markdown doesn't always survive the round trip through ADF or wiki markup unchanged,
+      // so the plan's description is compared as it would read back after being written
+      const current = this.fromRichText(issue.fields.description);
+      if (current.trim() !== this.fromRichText(this.toRichText(data.description)).trim()) {
+        changes.push({ field: 'description', from: current, to: data.description });
+      }
+    }
+    return changes;
+  }
 
-      const results = [];
+  private async getParentKey(issue: JiraTicket): Promise<string | undefined> {
+    const fields = issue.fields as Record<string, any>;
+    if (this.isLegacyMode) {
+      return fields[(await this.fieldRegistry.getCommonFields()).epicLink] || fields.parent?.key;
+    }
+    return fields.parent?.key;
+  }
 
-      // Create stories and their tasks
-      for (const storyData of hierarchy.stories) {
-        const story = await this.createTicket({
-          summary: storyData.summary,
-          description: storyData.description,
-          issueType: 'Story',
-          projectKey: project
-        });
+  private static checkExternalIds(tree: ResolvedHierarchyNode): void {
+    const ids = flattenHierarchy(tree)
+      .map(node => node.externalId)
+      .filter((id): id is string => !!id)
+      .map(id => JiraService.externalIdLabel(id));
 
-        // Set parent after creation
-        await this.setEpicLink(story.key, epic.key);
-
-        const tasks = [];
-        if (storyData.tasks) {
-          for (const taskData of storyData.tasks) {
-            const task = await this.createTicket({
-              summary: taskData.summary,
-              description: taskData.description,
-              issueType: 'Task',
-              projectKey: project
-            });
+    const duplicates = ids.filter((id, index) => ids.indexOf(id) !== index);
+    if (duplicates.length > 0) {
+      throw new Error(`Duplicate external IDs in hierarchy: ${[...new Set(duplicates)].join(', ')}`);
+    }
+  }
 
-            // Set story as parent of task
-            await this.setEpicLink(task.key, story.key);
+  // Ties a resume token to the hierarchy and project it was issued for
+  private static hierarchyFingerprint(hierarchy: ProjectHierarchy, projectKey: string): string {
+    return createHash('sha256')
+      .update(JSON.stringify({ projectKey, hierarchy }))
+      .digest('hex')
+      .slice(0, 16);
+  }
 
-            tasks.push(task);
-          }
+  private static encodeResumeToken(created: HierarchyJournalEntry[], fingerprint: string): string {
+    return Buffer.from(JSON.stringify({ v: 1, fingerprint, created })).toString('base64url');
+  }
+
+  private static decodeResumeToken(token: string, fingerprint: string): HierarchyJournalEntry[] {
+    let decoded: any;
+    try {
+      decoded = JSON.parse(Buffer.from(token, 'base64url').toString('utf8'));
+    } catch {
+      throw new Error('Invalid resume token');
+    }
+    if (decoded?.v !== 1 || !Array.isArray(decoded.created)) {
+      throw new Error('Invalid resume token');
+    }
+    if (decoded.fingerprint !== fingerprint) {
+      throw new Error('Resume token was issued for a different hierarchy or project');
+    }
+    return decoded.created;
+  }
+
+  // Compare a hierarchy with live JIRA without changing anything - nodes are matched by externalId
+  async diffProjectHierarchy(hierarchy: ProjectHierarchy, projectKey?: string): Promise<PlanDiffEntry[]> {
+    this.initialize();
+    const project = this.validateProjectKey(projectKey);
+    const tree = resolveHierarchy(hierarchy);
+    JiraService.checkExternalIds(tree);
+    await this.checkHierarchyTypes(tree, project);
+    const diff: PlanDiffEntry[] = [];
+
+    const compare = async (node: ResolvedHierarchyNode, parent?: PlanDiffEntry): Promise<void> => {
+      const existing = node.externalId ? await this.findIssueByExternalId(node.externalId, project) : null;
+      const entry: PlanDiffEntry = {
+        path: node.path,
+        depth: node.depth,
+        issueType: node.issueType,
+        summary: node.summary,
+        externalId: node.externalId,
+        key: existing?.key,
+        action: existing ? 'unchanged' : 'create',
+        changes: []
+      };
+
+      if (existing) {
+        entry.changes = this.hierarchyFieldChanges(existing, node);
+        const currentParent = await this.getParentKey(existing);
+        if (parent && currentParent !== parent.key) {
+          entry.changes.push({ field: 'parent', from: currentParent, to: parent.key || `new ${parent.issueType} at ${parent.path}` });
         }
+        if (entry.changes.length > 0) entry.action = 'update';
+      }
 
-        results.push({ story, tasks });
+      diff.push(entry);
+      for (const child of node.children) {
+        await compare(child, entry);
       }
+    };
 
-      return { epic, stories: results };
-    } catch (error) {
-      throw new Error(`Failed to create project hierarchy: ${error}`);
-    }
+    await compare(tree);
+    return diff;
   }
 
-  async validateProjectStructure(epicKey: string): Promise<{
+  // Walks the tree below rootKey; levels are the expected issue types per depth
+  async validateProjectStructure(rootKey: string, levels: string[] = DEFAULT_HIERARCHY_LEVELS): Promise<{
     isValid: boolean;
     issues: string[];
     warnings: string[];
@@ -579,40 +3371,47 @@ export class JiraService {
         warnings.push("Running in legacy JIRA Server mode - some features may be limited");
       }
 
-      // Check if epic exists
-      const epic = await this.getTicket(epicKey);
-      if (epic.fields.issuetype.name !== 'Epic') {
-        issues.push(`${epicKey} is not an Epic (type: ${epic.fields.issuetype.name})`);
+      // Check if the root exists and has the expected type
+      const root = await this.getTicket(rootKey);
+      const rootType = root.fields.issuetype.name;
+      if (levels[0] && rootType !== levels[0]) {
+        issues.push(`${rootKey} is not ${/^[aeiou]/i.test(levels[0]) ? 'an' : 'a'} ${levels[0]} (type: ${rootType})`);
       }
 
-      // Get all issues linked to this epic
-      const epicIssues = await this.getEpicIssues(epicKey);
-
-      if (epicIssues.length === 0) {
-        warnings.push(`Epic ${epicKey} has no linked stories or tasks`);
+      let typeLevels: Record<string, IssueTypeLevel> | null = null;
+      try {
+        typeLevels = await this.getIssueTypeLevels(root.fields.project?.key);
+      } catch (error) {
+        warnings.push(`Could not read project issue types - hierarchy levels not checked`);
       }
 
-      // Validate each issue in the epic
-      for (const issue of epicIssues) {
-        // Skip link validation in legacy mode if not supported
-        if (this.isLegacyMode && !this.serverCapabilities?.hasIssueLinks) {
-          continue;
+      const visited = new Set([rootKey]);
+      const walk = async (issue: JiraTicket, depth: number): Promise<void> => {
+        const type = issue.fields.issuetype.name;
+        const children = (await this.getChildIssues(issue.key)).filter(child => !visited.has(child.issue.key));
+
+        if (children.length === 0 && depth + 1 < levels.length) {
+          warnings.push(`${type} ${issue.key} has no ${levels[depth + 1]} children`);
         }
-        
-        const links = await this.getIssueLinks(issue.key);
 
-        if (issue.fields.issuetype.name === 'Story') {
-          // Stories should have tasks
-          const taskLinks = links.filter(link =>
-            (link.inwardIssue?.fields.issuetype.name === 'Task' ||
-             link.outwardIssue?.fields.issuetype.name === 'Task')
-          );
+        for (const child of children) {
+          visited.add(child.issue.key);
+          const childType = child.issue.fields.issuetype.name;
+
+          // Issue links aren't part of the hierarchy, so only parent-style relations are level-checked
+          const parentType = typeLevels?.[type.toLowerCase()];
+          const childLevel = typeLevels?.[childType.toLowerCase()];
+          if (parentType && childLevel && child.relations.some(relation => !relation.startsWith('link:'))) {
+            const problem = JiraService.hierarchyLevelProblem(parentType, childLevel);
+            if (problem) issues.push(`${child.issue.key}: ${problem}`);
+          }
 
-          if (taskLinks.length === 0) {
-            warnings.push(`Story ${issue.key} has no linked tasks`);
+          if (depth + 2 < levels.length) {
+            await walk(child.issue, depth + 1);
           }
         }
-      }
+      };
+      await walk(root, 0);
 
       return {
         isValid: issues.length === 0,
@@ -631,45 +3430,19 @@ export class JiraService {
     try {
       const updatePayload = {
         fields: {
-          description: JiraService.formatJiraText(description)
+          description: this.toRichText(description)
         }
       };
 
-      await this.client!.put(`/issue/${ticketId}`, updatePayload);
+      await this.richTextClient.put(`/issue/${ticketId}`, updatePayload);
     } catch (error) {
       handleJiraApiError(error, { operation: "update ticket description", ticketId });
     }
   }
 
-  // Helper method to format text for JIRA markup
+  // Helper method to format Markdown as JIRA markup (JIRA Server / API v2)
   static formatJiraText(text: string): string {
-    // Completely rewritten from scratch - simple and reliable approach
-    let result = text;
-
-    // Headers: # Header → h1. Header
-    result = result.replace(/^# (.+)$/gm, 'h1. $1');
-    result = result.replace(/^## (.+)$/gm, 'h2. $1');
-    result = result.replace(/^### (.+)$/gm, 'h3. $1');
-
-    // Bold: **text** → *text*
-    result = result.replace(/\*\*(.+?)\*\*/g, '*$1*');
-
-    // Italic: _text_ → _text_ (underscore syntax, already JIRA format)
-    // Note: Single asterisk italic (*text*) intentionally not supported to avoid conflicts
-
-    // Code blocks: ```code``` → {code}code{code}
-    result = result.replace(/```[\w]*\n?([\s\S]*?)\n?```/g, '{code}$1{code}');
-
-    // Inline code: `code` → {{code}}
-    result = result.replace(/`([^`]+)`/g, '{{$1}}');
-
-    // Links: [text](url) → [text|url]
-    result = result.replace(/\[([^\]]+)\]\(([^)]+)\)/g, '[$1|$2]');
-
-    // Lists: - item → * item (simple, no complex regex)
-    result = result.replace(/^- (.+)$/gm, '* $1');
-
-    return result;
+    return markdownToWiki(text);
   }
 
   // Story Status Management Methods
@@ -677,74 +3450,57 @@ export class JiraService {
   async getRelatedTasks(storyKey: string): Promise<JiraTicket[]> {
     this.initialize();
     try {
-      // Get issues linked to this story via issue links
-      const links = await this.getIssueLinks(storyKey);
-      const relatedTaskKeys = links
-        .filter(link => {
-          const relatedIssue = link.inwardIssue || link.outwardIssue;
-          return relatedIssue && relatedIssue.fields?.issuetype?.name === 'Task';
-        })
-        .map(link => {
-          const relatedIssue = link.inwardIssue || link.outwardIssue;
-          return relatedIssue?.key;
-        })
-        .filter(key => key !== undefined);
-
-      // Fetch full ticket details for each related task
-      const relatedTasks: JiraTicket[] = [];
-      for (const taskKey of relatedTaskKeys) {
-        if (taskKey) {
-          try {
-            const task = await this.getTicket(taskKey);
-            relatedTasks.push(task);
-          } catch (error) {
-            console.warn(`Could not fetch task ${taskKey}:`, error);
-          }
-        }
-      }
-
-      return relatedTasks;
+      const children = await this.getChildIssues(storyKey);
+      return children.map(child => child.issue);
     } catch (error) {
       throw new Error(`Failed to get related tasks for ${storyKey}: ${error}`);
     }
   }
 
-  async analyzeStoryStatus(storyKey: string): Promise<{
+  async analyzeStoryStatus(storyKey: string, options: { timeInStatus?: boolean } = {}): Promise<{
     story: JiraTicket;
     relatedTasks: JiraTicket[];
+    relations: Record<string, IssueRelation[]>;
     shouldBeInProgress: boolean;
     shouldBeDone: boolean;
     currentStatus: string;
-    tasksSummary: {
-      total: number;
-      done: number;
-      inProgress: number;
-      toDo: number;
-    };
+    aggregateState: RollupBucket | null;
+    targetStatus: ParentStatusRule | null;
+    tasksSummary: RollupSummary;
+    // How long each task has been in its current status, where its changelog could be read. Only filled
+    // in when asked for, as it reads every task's changelog
+    timeInStatus: Record<string, StatusAge>;
   }> {
     this.initialize();
     try {
       const story = await this.getTicket(storyKey);
-      const relatedTasks = await this.getRelatedTasks(storyKey);
+      const children = await this.getChildIssues(storyKey);
+      const relatedTasks = children.map(child => child.issue);
+      const rules = this.statusRollupRules;
 
-      const tasksSummary = {
-        total: relatedTasks.length,
-        done: relatedTasks.filter(task => task.fields.status.name === 'Done').length,
-        inProgress: relatedTasks.filter(task => task.fields.status.name === 'In Progress').length,
-        toDo: relatedTasks.filter(task => task.fields.status.name === 'To Do').length,
-      };
+      const tasksSummary = summarizeStatuses(relatedTasks.map(task => task.fields.status), rules);
+      const state = aggregateState(tasksSummary);
 
-      const currentStatus = story.fields.status.name;
-      const shouldBeDone = tasksSummary.total > 0 && tasksSummary.done === tasksSummary.total;
-      const shouldBeInProgress = !shouldBeDone && (tasksSummary.inProgress > 0 || tasksSummary.done > 0);
+      let timeInStatus: Record<string, StatusAge> = {};
+      if (options.timeInStatus) {
+        try {
+          timeInStatus = await this.getStatusAges(relatedTasks.map(task => task.key));
+        } catch (error) {
+          console.warn(`Could not read the history of the tasks of ${storyKey}:`, error instanceof Error ? error.message : error);
+        }
+      }
 
       return {
         story,
         relatedTasks,
-        shouldBeInProgress,
-        shouldBeDone,
-        currentStatus,
-        tasksSummary
+        relations: Object.fromEntries(children.map(child => [child.issue.key, child.relations])),
+        shouldBeInProgress: state === 'inProgress',
+        shouldBeDone: state === 'done',
+        currentStatus: story.fields.status.name,
+        aggregateState: state,
+        targetStatus: resolveParentStatus(story.fields.status, state, rules),
+        tasksSummary,
+        timeInStatus
       };
     } catch (error) {
       throw new Error(`Failed to analyze story status for ${storyKey}: ${error}`);
@@ -760,39 +3516,35 @@ export class JiraService {
     this.initialize();
     try {
       const analysis = await this.analyzeStoryStatus(storyKey);
-      const { story, shouldBeInProgress, shouldBeDone, currentStatus, tasksSummary } = analysis;
-
-      let targetStatus = currentStatus;
-      let transitionId: string | null = null;
-      let reason = '';
-
-      // Determine target status
-      if (shouldBeDone && currentStatus !== 'Done') {
-        targetStatus = 'Done';
-        transitionId = '31';
-        reason = `All ${tasksSummary.total} related tasks are completed`;
-      } else if (shouldBeInProgress && currentStatus === 'To Do') {
-        targetStatus = 'In Progress';
-        transitionId = '21';
-        reason = `${tasksSummary.inProgress + tasksSummary.done} of ${tasksSummary.total} tasks are started/completed`;
-      }
-
-      // Update status if needed
-      if (transitionId && targetStatus !== currentStatus) {
-        await this.updateTicketStatus(storyKey, transitionId);
+      const { aggregateState: state, targetStatus: target, currentStatus, tasksSummary } = analysis;
+
+      // Update status if the rules call for it
+      if (target) {
+        const reason = state === 'done'
+          ? `All ${tasksSummary.total} related tasks are completed`
+          : state === 'inProgress'
+            ? `${tasksSummary.inProgress + tasksSummary.done} of ${tasksSummary.total} tasks are started/completed`
+            : `None of the ${tasksSummary.total} related tasks are started`;
+
+        const transition = await this.updateTicketStatus(storyKey, {
+          status: target.status,
+          statusCategory: target.status ? undefined : target.statusCategory,
+        });
+        const targetStatus = transition.to.name;
 
         // Add comment explaining the status change
         const comment = `Story Status Updated Automatically
 
-*Previous Status:* ${currentStatus}
-*New Status:* ${targetStatus}
-*Reason:* ${reason}
+**Previous Status:** ${currentStatus}
+**New Status:** ${targetStatus}
+**Reason:** ${reason}
 
-*Task Summary:*
-* Total Tasks: ${tasksSummary.total}
-* Done: ${tasksSummary.done}
-* In Progress: ${tasksSummary.inProgress}
-* To Do: ${tasksSummary.toDo}
+**Task Summary:**
+- Total Tasks: ${tasksSummary.total}
+- Done: ${tasksSummary.done}
+- In Progress: ${tasksSummary.inProgress}
+- To Do: ${tasksSummary.toDo}${tasksSummary.ignored ? `
+- Ignored: ${tasksSummary.ignored}` : ''}
 
 Status updated automatically based on related task completion.`;
 
@@ -817,6 +3569,14 @@ Status updated automatically based on related task completion.`;
     }
   }
 
+  // Loaded on first use so a broken rules file only affects the rollup tools
+  private get statusRollupRules(): StatusRollupRules {
+    if (!this.rollupRules) {
+      this.rollupRules = loadStatusRollupRules(process.env.JIRA_STATUS_RULES);
+    }
+    return this.rollupRules;
+  }
+
   async updateAllStoryStatuses(epicKey: string): Promise<{
     storiesChecked: number;
     storiesUpdated: number;
@@ -830,8 +3590,10 @@ Status updated automatically based on related task completion.`;
     this.initialize();
     try {
       // Get all stories in the epic
-      const epicIssues = await this.getEpicIssues(epicKey);
-      const stories = epicIssues.filter(issue => issue.fields.issuetype.name === 'Story');
+      const epicChildren = await this.getChildIssues(epicKey);
+      const stories = epicChildren
+        .map(child => child.issue)
+        .filter(issue => issue.fields.issuetype.name === 'Story');
 
       const updates = [];
       let storiesUpdated = 0;
@@ -0,0 +1,136 @@
+import { AxiosInstance } from "axios";
+
+/**
+ * JIRA user resolver
+ * Finds users by email, display name, username, accountId or "me", so tools don't need to know
+ * that JIRA Cloud identifies users by accountId and JIRA Server by username
+ */
+
+export interface JiraUser {
+  // accountId on JIRA Cloud, username on JIRA Server
+  id: string;
+  displayName: string;
+  email?: string;
+  active: boolean;
+}
+
+// Limits the search to users who can be assigned issues in a project, or one issue
+export interface AssignableScope {
+  projectKey?: string;
+  issueKey?: string;
+}
+
+// Cloud accountIds: 24 hex digits, or "<number>:<uuid>"
+const ACCOUNT_ID_PATTERN = /^([0-9a-f]{24}|\d+:[0-9a-f-]{36})$/i;
+
+// How many candidates an ambiguity error lists
+const MAX_LISTED_CANDIDATES = 5;
+
+export class UserResolver {
+  private users = new Map<string, JiraUser>();
+
+  // Both are read on every request so a reconfigured service is picked up
+  constructor(
+    private readonly getClient: () => AxiosInstance,
+    private readonly isLegacyMode: () => boolean
+  ) {}
+
+  // Lookups are cached, as tools often refer to the same people repeatedly.
+  // With a scope, only users who can be assigned issues there are considered.
+  async resolve(query: string, scope?: AssignableScope): Promise<JiraUser> {
+    const text = query.trim();
+    if (!text) {
+      throw new Error('A user is required');
+    }
+    const isMe = text.toLowerCase() === 'me';
+    const isAccountId = !this.isLegacyMode() && ACCOUNT_ID_PATTERN.test(text);
+    // accountIds are looked up directly, whatever the scope
+    const cacheKey = isMe ? 'me' : `${isAccountId ? '' : scope?.issueKey || scope?.projectKey || ''}|${text.toLowerCase()}`;
+    const cached = this.users.get(cacheKey);
+    if (cached) return cached;
+
+    let user: JiraUser;
+    if (isMe) {
+      user = UserResolver.toUser((await this.getClient().get('/myself')).data);
+    } else if (isAccountId) {
+      user = await this.getByAccountId(text);
+    } else {
+      user = this.pick(text, await this.search(text, scope), scope);
+    }
+    this.users.set(cacheKey, user);
+    return user;
+  }
+
+  async resolveAll(queries: string[]): Promise<JiraUser[]> {
+    const users: JiraUser[] = [];
+    for (const query of queries) {
+      users.push(await this.resolve(query));
+    }
+    return users;
+  }
+
+  // { accountId } on JIRA Cloud, { name } on JIRA Server
+  toPayload(user: JiraUser): { accountId: string } | { name: string } {
+    return this.isLegacyMode() ? { name: user.id } : { accountId: user.id };
+  }
+
+  // Query parameter naming the user, e.g. for DELETE /issue/{key}/watchers
+  toParams(user: JiraUser): { accountId: string } | { username: string } {
+    return this.isLegacyMode() ? { username: user.id } : { accountId: user.id };
+  }
+
+  static toUser(raw: any): JiraUser {
+    return {
+      id: raw.accountId || raw.name,
+      displayName: raw.displayName || raw.name || raw.accountId,
+      email: raw.emailAddress || undefined,
+      active: raw.active !== false,
+    };
+  }
+
+  private async search(query: string, scope?: AssignableScope): Promise<JiraUser[]> {
+    // JIRA Server matches username, name and email through "username"
+    const params: Record<string, unknown> = this.isLegacyMode() ? { username: query, maxResults: 50 } : { query, maxResults: 50 };
+    if (scope?.issueKey) {
+      params.issueKey = scope.issueKey;
+    } else if (scope?.projectKey) {
+      params.project = scope.projectKey;
+    }
+    const url = scope?.issueKey || scope?.projectKey ? '/user/assignable/search' : '/user/search';
+    const response = await this.getClient().get(url, { params });
+    return (response.data || []).map((raw: any) => UserResolver.toUser(raw));
+  }
+
+  private async getByAccountId(accountId: string): Promise<JiraUser> {
+    const response = await this.getClient().get('/user', { params: { accountId } });
+    return UserResolver.toUser(response.data);
+  }
+
+  // An exact email, username or display name match wins; otherwise the search must find exactly one active user
+  private pick(query: string, users: JiraUser[], scope?: AssignableScope): JiraUser {
+    const lowerQuery = query.toLowerCase();
+    const active = users.filter(user => user.active);
+    const exact = active.filter(user =>
+      user.id.toLowerCase() === lowerQuery ||
+      user.email?.toLowerCase() === lowerQuery ||
+      user.displayName.toLowerCase() === lowerQuery
+    );
+
+    const candidates = exact.length > 0 ? exact : active;
+    if (candidates.length === 1) {
+      return candidates[0];
+    }
+    if (candidates.length === 0) {
+      const where = scope?.issueKey || scope?.projectKey;
+      throw new Error(where
+        ? `No active JIRA user matching "${query}" can be assigned issues in ${where}`
+        : `No active JIRA user matches "${query}"`);
+    }
+
+    const listed = candidates
+      .slice(0, MAX_LISTED_CANDIDATES)
+      .map(user => `${user.displayName} (${[user.email, user.id].filter(Boolean).join(', ')})`);
+    const more = candidates.length > MAX_LISTED_CANDIDATES ? `, and ${candidates.length - MAX_LISTED_CANDIDATES} more` : '';
+    throw new Error(`"${query}" matches ${candidates.length} users: ${listed.join(', ')}${more}. Use their email or ${this.isLegacyMode() ? 'username' : 'accountId'} instead`);
+  }
+}
@@ -0,0 +1,910 @@
+/**
+ * Atlassian Document Format (ADF) conversion
+ * Converts Markdown to ADF for JIRA Cloud writes (API v3) and renders ADF back to Markdown for reads
+ */
+
+export interface AdfMark {
+  type: string;
+  attrs?: Record<string, any>;
+}
+
+export interface AdfNode {
+  type: string;
+  attrs?: Record<string, any>;
+  content?: AdfNode[];
+  marks?: AdfMark[];
+  text?: string;
+}
+
+export interface AdfDocument extends AdfNode {
+  type: 'doc';
+  version: 1;
+  content: AdfNode[];
+}
+
+// Panel types map to GitHub-style alerts: > [!INFO]
+const PANEL_TYPES = ['info', 'note', 'warning', 'success', 'error'];
+
+// Characters that may be backslash-escaped in Markdown
+const ESCAPABLE = '\\`*_{}[]()#+-.!|~<>';
+
+// Mentions are written as [@Display Name](mention:accountId) or [~accountid:accountId]
+const MENTION_HREF_PREFIX = 'mention:';
+
+// ---------------------------------------------------------------------------
+// Markdown → ADF
+// ---------------------------------------------------------------------------
+
+export function markdownToAdf(markdown: string): AdfDocument {
+  const lines = (markdown || '').replace(/\r\n?/g, '\n').replace(/\t/g, '    ').split('\n');
+  return {
+    type: 'doc',
+    version: 1,
+    content: parseBlocks(lines),
+  };
+}
+
+interface ListMarker {
+  indent: number;
+  ordered: boolean;
+  start: number;
+  contentIndent: number;
+  content: string;
+}
+
+const FENCE_PATTERN = /^(\s*)(`{3,}|~{3,})\s*([\w+#.-]*)\s*$/;
+const HEADING_PATTERN = /^\s{0,3}(#{1,6})\s+(.*?)(\s+#+)?\s*$/;
+const RULE_PATTERN = /^\s{0,3}([-*_])(\s*\1){2,}\s*$/;
+const BLOCKQUOTE_PATTERN = /^\s{0,3}>\s?/;
+const TABLE_SEPARATOR_PATTERN = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+
+function matchListMarker(line: string): ListMarker | null {
+  const match = line.match(/^(\s*)([-*+]|(\d{1,9})[.)])(\s+)(.*)$/);
+  if (!match) return null;
+  // A lone "---" or "***" is a rule, not a list item
+  if (RULE_PATTERN.test(line)) return null;
+  const indent = match[1].length;
+  return {
+    indent,
+    ordered: match[3] !== undefined,
+    start: match[3] !== undefined ? parseInt(match[3], 10) : 1,
+    contentIndent: indent + match[2].length + Math.min(match[4].length, 4),
+    content: match[5],
+  };
+}
+
+function isBlank(line: string): boolean {
+  return line.trim() === '';
+}
+
+function leadingSpaces(line: string): number {
+  return line.length - line.trimStart().length;
+}
+
+function isTableStart(lines: string[], index: number): boolean {
+  return lines[index].includes('|') &&
+    index + 1 < lines.length &&
+    lines[index + 1].includes('-') &&
+    TABLE_SEPARATOR_PATTERN.test(lines[index + 1]);
+}
+
+function startsBlock(lines: string[], index: number): boolean {
+  const line = lines[index];
+  return FENCE_PATTERN.test(line) ||
+    HEADING_PATTERN.test(line) ||
+    RULE_PATTERN.test(line) ||
+    BLOCKQUOTE_PATTERN.test(line) ||
+    matchListMarker(line) !== null ||
+    isTableStart(lines, index);
+}
+
+function parseBlocks(lines: string[]): AdfNode[] {
+  const blocks: AdfNode[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (isBlank(line)) {
+      i++;
+      continue;
+    }
+
+    // Fenced code block - contents are never parsed for inline formatting
+    const fence = line.match(FENCE_PATTERN);
+    if (fence) {
+      const fenceChars = fence[2];
+      const codeLines: string[] = [];
+      i++;
+      while (i < lines.length && !(lines[i].trim().startsWith(fenceChars) && lines[i].trim().replace(/[`~]/g, '') === '')) {
+        codeLines.push(lines[i].slice(Math.min(fence[1].length, leadingSpaces(lines[i]))));
+        i++;
+      }
+      i++; // Skip closing fence
+      const codeBlock: AdfNode = { type: 'codeBlock', content: [] };
+      if (fence[3]) codeBlock.attrs = { language: fence[3] };
+      if (codeLines.length > 0) codeBlock.content = [{ type: 'text', text: codeLines.join('\n') }];
+      blocks.push(codeBlock);
+      continue;
+    }
+
+    const heading = line.match(HEADING_PATTERN);
+    if (heading) {
+      blocks.push({
+        type: 'heading',
+        attrs: { level: heading[1].length },
+        content: parseInline(heading[2]),
+      });
+      i++;
+      continue;
+    }
+
+    if (RULE_PATTERN.test(line)) {
+      blocks.push({ type: 'rule' });
+      i++;
+      continue;
+    }
+
+    if (BLOCKQUOTE_PATTERN.test(line)) {
+      const quoteLines: string[] = [];
+      while (i < lines.length && BLOCKQUOTE_PATTERN.test(lines[i])) {
+        quoteLines.push(lines[i].replace(BLOCKQUOTE_PATTERN, ''));
+        i++;
+      }
+      blocks.push(parseQuote(quoteLines));
+      continue;
+    }
+
+    if (isTableStart(lines, i)) {
+      const headerCells = splitTableRow(lines[i]);
+      const rows: AdfNode[] = [tableRow(headerCells, 'tableHeader')];
+      i += 2;
+      while (i < lines.length && !isBlank(lines[i]) && lines[i].includes('|')) {
+        const cells = splitTableRow(lines[i]);
+        // Pad or trim body rows to the header width
+        const normalized = headerCells.map((_, index) => cells[index] ?? '');
+        rows.push(tableRow(normalized, 'tableCell'));
+        i++;
+      }
+      blocks.push({
+        type: 'table',
+        attrs: { isNumberColumnEnabled: false, layout: 'default' },
+        content: rows,
+      });
+      continue;
+    }
+
+    const marker = matchListMarker(line);
+    if (marker) {
+      i = parseList(lines, i, blocks);
+      continue;
+    }
+
+    // Paragraph: consume lines until a blank line or another block starts
+    const paragraphLines: string[] = [line.trim()];
+    i++;
+    while (i < lines.length && !isBlank(lines[i]) && !startsBlock(lines, i)) {
+      paragraphLines.push(lines[i].trim());
+      i++;
+    }
+    blocks.push(parseParagraph(paragraphLines));
+  }
+
+  return blocks;
+}
+
+function parseQuote(quoteLines: string[]): AdfNode {
+  const alert = quoteLines[0]?.trim().match(/^\[!(\w+)\]\s*$/);
+  if (alert && PANEL_TYPES.includes(alert[1].toLowerCase())) {
+    return {
+      type: 'panel',
+      attrs: { panelType: alert[1].toLowerCase() },
+      content: parseBlocks(quoteLines.slice(1)),
+    };
+  }
+  return { type: 'blockquote', content: parseBlocks(quoteLines) };
+}
+
+function parseList(lines: string[], startIndex: number, blocks: AdfNode[]): number {
+  const first = matchListMarker(lines[startIndex])!;
+  const itemSources: string[][] = [];
+  let i = startIndex;
+
+  while (i < lines.length) {
+    const marker = matchListMarker(lines[i]);
+    if (!marker || marker.indent !== first.indent || marker.ordered !== first.ordered) break;
+
+    const itemLines: string[] = [marker.content];
+    i++;
+
+    while (i < lines.length) {
+      const line = lines[i];
+
+      if (isBlank(line)) {
+        // A blank line only continues the item when indented content follows
+        let next = i + 1;
+        while (next < lines.length && isBlank(lines[next])) next++;
+        if (next < lines.length && leadingSpaces(lines[next]) >= marker.contentIndent) {
+          itemLines.push('');
+          i++;
+          continue;
+        }
+        break;
+      }
+
+      const indent = leadingSpaces(line);
+      if (indent > first.indent) {
+        itemLines.push(line.slice(Math.min(indent, marker.contentIndent)));
+        i++;
+        continue;
+      }
+
+      // Lazy continuation of the item's paragraph
+      if (!startsBlock(lines, i) && !isBlank(lines[i - 1])) {
+        itemLines.push(line.trim());
+        i++;
+        continue;
+      }
+      break;
+    }
+
+    itemSources.push(itemLines);
+
+    // Blank lines between items of the same list
+    let next = i;
+    while (next < lines.length && isBlank(lines[next])) next++;
+    const nextMarker = next < lines.length ? matchListMarker(lines[next]) : null;
+    if (nextMarker && nextMarker.indent === first.indent && nextMarker.ordered === first.ordered) {
+      i = next;
+    }
+  }
+
+  // GitHub task lists: every item starts with [ ] or [x]
+  const taskPattern = /^\[([ xX])\]\s+/;
+  if (!first.ordered && itemSources.every(itemLines => taskPattern.test(itemLines[0]))) {
+    blocks.push({
+      type: 'taskList',
+      attrs: { localId: 'tasks' },
+      content: itemSources.map((itemLines, index) => {
+        const state = itemLines[0].match(taskPattern)![1] === ' ' ? 'TODO' : 'DONE';
+        const text = [itemLines[0].replace(taskPattern, ''), ...itemLines.slice(1)].join('\n');
+        return {
+          type: 'taskItem',
+          attrs: { localId: `task-${index + 1}`, state },
+          content: parseInline(text.trim()),
+        };
+      }),
+    });
+    return i;
+  }
+
+  const list: AdfNode = {
+    type: first.ordered ? 'orderedList' : 'bulletList',
+    content: itemSources.map(listItem),
+  };
+  if (first.ordered) list.attrs = { order: first.start };
+  blocks.push(list);
+  return i;
+}
+
+function listItem(itemLines: string[]): AdfNode {
+  const content = parseBlocks(itemLines);
+  // ADF list items must start with a paragraph
+  if (content.length === 0 || (content[0].type !== 'paragraph' && !content[0].type.endsWith('List'))) {
+    content.unshift({ type: 'paragraph', content: [] });
+  }
+  return { type: 'listItem', content };
+}
+
+function splitTableRow(line: string): string[] {
+  let row = line.trim();
+  if (row.startsWith('|')) row = row.slice(1);
+  if (row.endsWith('|') && !row.endsWith('\\|')) row = row.slice(0, -1);
+
+  const cells: string[] = [];
+  let current = '';
+  let inCode = false;
+  for (let i = 0; i < row.length; i++) {
+    const ch = row[i];
+    if (ch === '\\' && row[i + 1] === '|') {
+      current += '\\|';
+      i++;
+    } else if (ch === '`') {
+      inCode = !inCode;
+      current += ch;
+    } else if (ch === '|' && !inCode) {
+      cells.push(current.trim());
+      current = '';
+    } else {
+      current += ch;
+    }
+  }
+  cells.push(current.trim());
+  return cells;
+}
+
+function tableRow(cells: string[], cellType: 'tableHeader' | 'tableCell'): AdfNode {
+  return {
+    type: 'tableRow',
+    content: cells.map(cell => ({
+      type: cellType,
+      attrs: {},
+      content: [{ type: 'paragraph', content: parseInline(cell.replace(/<br\s*\/?>/gi, '\n')) }],
+    })),
+  };
+}
+
+function parseParagraph(paragraphLines: string[]): AdfNode {
+  // A paragraph holding only an image becomes a media block
+  if (paragraphLines.length === 1) {
+    const image = paragraphLines[0].match(/^!\[([^\]]*)\]\(\s*(\S+?)(?:\s+"[^"]*")?\s*\)$/);
+    if (image) {
+      return {
+        type: 'mediaSingle',
+        attrs: { layout: 'center' },
+        content: [{ type: 'media', attrs: { type: 'external', url: image[2], alt: image[1] } }],
+      };
+    }
+  }
+
+  // Line breaks inside a paragraph are kept, matching how JIRA renders plain text
+  const text = paragraphLines
+    .map(line => line.replace(/( {2,}|\\)$/, ''))
+    .join('\n');
+  return { type: 'paragraph', content: parseInline(text) };
+}
+
+// Inline parsing
+
+function parseInline(source: string, marks: AdfMark[] = []): AdfNode[] {
+  const nodes: AdfNode[] = [];
+  let buffer = '';
+  let i = 0;
+
+  const flush = () => {
+    if (buffer) {
+      pushText(nodes, buffer, marks);
+      buffer = '';
+    }
+  };
+
+  while (i < source.length) {
+    const ch = source[i];
+
+    if (ch === '\\' && i + 1 < source.length && ESCAPABLE.includes(source[i + 1])) {
+      buffer += source[i + 1];
+      i += 2;
+      continue;
+    }
+
+    if (ch === '\n') {
+      flush();
+      nodes.push({ type: 'hardBreak' });
+      i++;
+      continue;
+    }
+
+    if (ch === '`') {
+      const span = matchCodeSpan(source, i);
+      if (span) {
+        flush();
+        // Code marks may only be combined with links
+        const codeMarks = marks.filter(mark => mark.type === 'link');
+        pushText(nodes, span.text, [...codeMarks, { type: 'code' }]);
+        i = span.end;
+        continue;
+      }
+      const run = source.slice(i).match(/^`+/)![0];
+      buffer += run;
+      i += run.length;
+      continue;
+    }
+
+    if (ch === '!' && source[i + 1] === '[') {
+      const link = matchLink(source, i + 1);
+      if (link) {
+        flush();
+        pushText(nodes, link.text || link.href, [...marks, linkMark(link.href)]);
+        i = link.end;
+        continue;
+      }
+    }
+
+    if (ch === '[') {
+      const legacyMention = source.slice(i).match(/^\[~accountid:([\w:-]+)\]/);
+      if (legacyMention) {
+        flush();
+        nodes.push({ type: 'mention', attrs: { id: legacyMention[1] } });
+        i += legacyMention[0].length;
+        continue;
+      }
+
+      const link = matchLink(source, i);
+      if (link) {
+        flush();
+        if (link.href.startsWith(MENTION_HREF_PREFIX)) {
+          const name = link.text.replace(/^@/, '');
+          nodes.push({ type: 'mention', attrs: { id: link.href.slice(MENTION_HREF_PREFIX.length), text: `@${name}` } });
+        } else {
+          nodes.push(...parseInline(link.text, [...marks, linkMark(link.href)]));
+        }
+        i = link.end;
+        continue;
+      }
+    }
+
+    if (ch === '<') {
+      const autolink = source.slice(i).match(/^<((?:https?|mailto):[^>\s]+)>/);
+      if (autolink) {
+        flush();
+        pushText(nodes, autolink[1], [...marks, linkMark(autolink[1])]);
+        i += autolink[0].length;
+        continue;
+      }
+    }
+
+    if (ch === 'h' && !marks.some(mark => mark.type === 'link') && (i === 0 || !/[\w/]/.test(source[i - 1]))) {
+      const url = source.slice(i).match(/^https?:\/\/[^\s<>()[\]]*[^\s<>()[\].,;:!?'"*_~]/);
+      if (url) {
+        flush();
+        pushText(nodes, url[0], [...marks, linkMark(url[0])]);
+        i += url[0].length;
+        continue;
+      }
+    }
+
+    const emphasis = matchEmphasis(source, i);
+    if (emphasis) {
+      flush();
+      nodes.push(...parseInline(emphasis.inner, addMark(marks, { type: emphasis.mark })));
+      i = emphasis.end;
+      continue;
+    }
+
+    buffer += ch;
+    i++;
+  }
+
+  flush();
+  return nodes;
+}
+
+function matchCodeSpan(source: string, start: number): { text: string; end: number } | null {
+  const run = source.slice(start).match(/^`+/)![0];
+  const close = source.indexOf(run, start + run.length);
+  if (close === -1) return null;
+  // The closing run must be exactly as long as the opening run
+  let searchFrom = start + run.length;
+  let end = close;
+  while (end !== -1 && source[end + run.length] === '`') {
+    searchFrom = end + run.length;
+    while (source[searchFrom] === '`') searchFrom++;
+    end = source.indexOf(run, searchFrom);
+  }
+  if (end === -1) return null;
+  let text = source.slice(start + run.length, end);
+  if (text.length > 2 && text.startsWith(' ') && text.endsWith(' ') && text.trim() !== '') {
+    text = text.slice(1, -1);
+  }
+  return { text, end: end + run.length };
+}
+
+function matchLink(source: string, start: number): { text: string; href: string; end: number } | null {
+  // Find the matching close bracket, allowing nested brackets
+  let depth = 0;
+  let i = start;
+  for (; i < source.length; i++) {
+    const ch = source[i];
+    if (ch === '\\') {
+      i++;
+      continue;
+    }
+    if (ch === '[') depth++;
+    if (ch === ']') {
+      depth--;
+      if (depth === 0) break;
+    }
+  }
+  if (depth !== 0 || source[i + 1] !== '(') return null;
+
+  const target = source.slice(i + 2).match(/^\s*<?([^\s()<>]*(?:\([^\s()]*\)[^\s()<>]*)*)>?(?:\s+"([^"]*)")?\s*\)/);
+  if (!target) return null;
+
+  return {
+    text: source.slice(start + 1, i),
+    href: target[1],
+    end: i + 2 + target[0].length,
+  };
+}
+
+const EMPHASIS_DELIMITERS: Array<{ delimiter: string; mark: string }> = [
+  { delimiter: '**', mark: 'strong' },
+  { delimiter: '__', mark: 'strong' },
+  { delimiter: '~~', mark: 'strike' },
+  { delimiter: '*', mark: 'em' },
+  { delimiter: '_', mark: 'em' },
+];
+
+function matchEmphasis(source: string, start: number): { inner: string; mark: string; end: number } | null {
+  for (const { delimiter, mark } of EMPHASIS_DELIMITERS) {
+    if (!source.startsWith(delimiter, start)) continue;
+
+    const afterOpen = source[start + delimiter.length];
+    if (afterOpen === undefined || /\s/.test(afterOpen)) continue;
+    // Underscores inside words (snake_case) are literal
+    if (delimiter[0] === '_' && start > 0 && /[A-Za-z0-9]/.test(source[start - 1])) continue;
+
+    const close = findCloser(source, start + delimiter.length, delimiter);
+    if (close !== -1) {
+      return {
+        inner: source.slice(start + delimiter.length, close),
+        mark,
+        end: close + delimiter.length,
+      };
+    }
+  }
+  return null;
+}
+
+function findCloser(source: string, from: number, delimiter: string): number {
+  for (let i = from; i < source.length; i++) {
+    const ch = source[i];
+    if (ch === '\\') {
+      i++;
+      continue;
+    }
+    if (ch === '`') {
+      const span = matchCodeSpan(source, i);
+      if (span) {
+        i = span.end - 1;
+        continue;
+      }
+    }
+    if (!source.startsWith(delimiter, i)) continue;
+
+    // A single delimiter must not be half of a double one
+    if (delimiter.length === 1 && source[i + 1] === delimiter) {
+      i++;
+      continue;
+    }
+    if (i === from || /\s/.test(source[i - 1])) continue;
+    if (delimiter[0] === '_' && /[A-Za-z0-9]/.test(source[i + delimiter.length] || '')) continue;
+    return i;
+  }
+  return -1;
+}
+
+function linkMark(href: string): AdfMark {
+  return { type: 'link', attrs: { href } };
+}
+
+function addMark(marks: AdfMark[], mark: AdfMark): AdfMark[] {
+  return marks.some(existing => existing.type === mark.type) ? marks : [...marks, mark];
+}
+
+function pushText(nodes: AdfNode[], text: string, marks: AdfMark[]): void {
+  if (!text) return;
+  const last = nodes[nodes.length - 1];
+  if (last && last.type === 'text' && JSON.stringify(last.marks || []) === JSON.stringify(marks)) {
+    last.text += text;
+    return;
+  }
+  const node: AdfNode = { type: 'text', text };
+  if (marks.length > 0) node.marks = marks.map(mark => ({ ...mark }));
+  nodes.push(node);
+}
+
+// ---------------------------------------------------------------------------
+// ADF → Markdown
+// ---------------------------------------------------------------------------
+
+export function isAdfDocument(value: unknown): value is AdfDocument {
+  return typeof value === 'object' && value !== null && (value as AdfNode).type === 'doc';
+}
+
+export function adfToMarkdown(document: AdfNode | null | undefined): string {
+  if (!document) return '';
+  return renderBlocks(document.content || [], '\n\n').trim();
+}
+
+function renderBlocks(nodes: AdfNode[], separator: string): string {
+  return nodes
+    .map(node => renderBlock(node))
+    .filter(block => block !== '')
+    .join(separator);
+}
+
+function prefixLines(text: string, firstPrefix: string, restPrefix: string): string {
+  return text
+    .split('\n')
+    .map((line, index) => {
+      const prefix = index === 0 ? firstPrefix : restPrefix;
+      return line === '' ? prefix.trimEnd() : prefix + line;
+    })
+    .join('\n');
+}
+
+function renderBlock(node: AdfNode): string {
+  const content = node.content || [];
+
+  switch (node.type) {
+    case 'paragraph':
+      return escapeLineStarts(renderInlines(content));
+
+    case 'heading':
+      return `${'#'.repeat(Math.min(Math.max(node.attrs?.level || 1, 1), 6))} ${renderInlines(content)}`;
+
+    case 'bulletList':
+      return content.map(item => renderListItem(item, '- ')).join('\n');
+
+    case 'orderedList': {
+      const start = node.attrs?.order ?? 1;
+      return content.map((item, index) => renderListItem(item, `${start + index}. `)).join('\n');
+    }
+
+    case 'taskList':
+    case 'decisionList':
+      return content.map(item => {
+        const box = item.type === 'taskItem' ? (item.attrs?.state === 'DONE' ? '[x] ' : '[ ] ') : '';
+        const body = item.content?.some(child => child.type === 'paragraph')
+          ? renderBlocks(item.content, '\n')
+          : renderInlines(item.content || []);
+        return prefixLines(`${box}${body}`, '- ', '  ');
+      }).join('\n');
+
+    case 'codeBlock': {
+      const code = content.map(child => child.text || '').join('');
+      const longestRun = Math.max(2, ...(code.match(/`+/g) || []).map(run => run.length));
+      const fence = '`'.repeat(longestRun + 1);
+      return `${fence}${node.attrs?.language || ''}\n${code}\n${fence}`;
+    }
+
+    case 'blockquote':
+      return prefixLines(renderBlocks(content, '\n\n'), '> ', '> ');
+
+    case 'panel': {
+      const panelType = (node.attrs?.panelType || 'info').toUpperCase();
+      return prefixLines(`[!${panelType}]\n${renderBlocks(content, '\n\n')}`, '> ', '> ');
+    }
+
+    case 'rule':
+      return '---';
+
+    case 'table':
+      return renderTable(node);
+
+    case 'mediaSingle':
+    case 'mediaGroup':
+      return content.map(renderMedia).join('\n');
+
+    case 'media':
+      return renderMedia(node);
+
+    case 'expand':
+    case 'nestedExpand': {
+      const title = node.attrs?.title ? `**${node.attrs.title}**\n\n` : '';
+      return `${title}${renderBlocks(content, '\n\n')}`;
+    }
+
+    case 'blockCard':
+    case 'embedCard':
+      return node.attrs?.url || '';
+
+    default:
+      // Unknown blocks degrade to their inline text
+      if (content.length > 0) {
+        return content.every(child => isInline(child)) ? renderInlines(content) : renderBlocks(content, '\n\n');
+      }
+      return node.text ? escapeText(node.text) : '';
+  }
+}
+
+function renderListItem(item: AdfNode, marker: string): string {
+  const body = renderBlocks(item.content || [], '\n');
+  const indent = ' '.repeat(marker.length);
+  return prefixLines(body, marker, indent);
+}
+
+function renderMedia(node: AdfNode): string {
+  if (node.type !== 'media') return renderBlock(node);
+  const alt = node.attrs?.alt || '';
+  if (node.attrs?.type === 'external' && node.attrs.url) {
+    return `![${alt}](${node.attrs.url})`;
+  }
+  // Attachment media only carries an internal ID
+  return `[attachment: ${alt || node.attrs?.id || 'media'}]`;
+}
+
+function renderTable(node: AdfNode): string {
+  const rows = (node.content || []).map(row =>
+    (row.content || []).map(cell =>
+      renderBlocks(cell.content || [], ' ').replace(/\n/g, '<br>').replace(/\|/g, '\\|')
+    )
+  );
+  if (rows.length === 0) return '';
+
+  const width = Math.max(...rows.map(row => row.length));
+  const pad = (row: string[]) => Array.from({ length: width }, (_, index) => row[index] ?? '');
+  const line = (row: string[]) => `| ${pad(row).join(' | ')} |`;
+
+  const [header, ...body] = rows;
+  return [
+    line(header),
+    `| ${Array.from({ length: width }, () => '---').join(' | ')} |`,
+    ...body.map(line),
+  ].join('\n');
+}
+
+const INLINE_TYPES = ['text', 'hardBreak', 'mention', 'emoji', 'inlineCard', 'date', 'status', 'placeholder'];
+
+function isInline(node: AdfNode): boolean {
+  return INLINE_TYPES.includes(node.type);
+}
+
+// Inline serialization shared by the Markdown and wiki markup renderers
+export interface InlineSyntax {
+  // Opening and closing delimiters for a mark, or null when the mark isn't rendered
+  delimiters(mark: AdfMark): [string, string] | null;
+  text(text: string, marks: AdfMark[]): string;
+  node(node: AdfNode): string;
+  bareLink?(href: string): string;
+}
+
+function sameMark(a: AdfMark, b: AdfMark): boolean {
+  return a.type === b.type && JSON.stringify(a.attrs || {}) === JSON.stringify(b.attrs || {});
+}
+
+function runLength(nodes: AdfNode[], start: number, mark: AdfMark): number {
+  let end = start;
+  while (end < nodes.length && (nodes[end].marks || []).some(existing => sameMark(existing, mark))) end++;
+  return end - start;
+}
+
+/**
+ * Render inline nodes so that marks spanning several text nodes open and close once,
+ * nesting correctly (e.g. **bold _and italic_**) with whitespace kept outside delimiters
+ */
+export function renderInlineRuns(nodes: AdfNode[], syntax: InlineSyntax): string {
+  let output = '';
+  const open: AdfMark[] = [];
+
+  const closeTo = (depth: number) => {
+    if (open.length <= depth) return;
+    const trailing = output.match(/\s*$/)![0];
+    output = output.slice(0, output.length - trailing.length);
+    while (open.length > depth) {
+      output += syntax.delimiters(open.pop()!)![1];
+    }
+    output += trailing;
+  };
+
+  for (let index = 0; index < nodes.length; index++) {
+    const node = nodes[index];
+
+    if (node.type === 'text' && (node.text || '').trim() === '' && open.length > 0) {
+      output += node.text || '';
+      continue;
+    }
+
+    const marks = node.type === 'text'
+      ? (node.marks || []).filter(mark => syntax.delimiters(mark) !== null)
+      : [];
+
+    // Close every open mark this node doesn't carry, along with anything opened after it
+    let keep = 0;
+    while (keep < open.length && marks.some(mark => sameMark(mark, open[keep]))) keep++;
+    closeTo(keep);
+
+    const link = marks.find(mark => mark.type === 'link');
+    if (syntax.bareLink && link && marks.length === 1 && open.length === 0 &&
+        node.text === link.attrs?.href && runLength(nodes, index, link) === 1) {
+      output += syntax.bareLink(link.attrs!.href);
+      continue;
+    }
+
+    let text = node.type === 'text' ? syntax.text(node.text || '', node.marks || []) : syntax.node(node);
+
+    // Marks that run longest open first so they nest outermost
+    const toOpen = marks
+      .filter(mark => !open.some(existing => sameMark(existing, mark)))
+      .sort((a, b) => runLength(nodes, index, b) - runLength(nodes, index, a));
+    if (toOpen.length > 0) {
+      const leading = text.match(/^\s*/)![0];
+      output += leading;
+      text = text.slice(leading.length);
+      for (const mark of toOpen) {
+        output += syntax.delimiters(mark)![0];
+        open.push(mark);
+      }
+    }
+
+    output += text;
+  }
+
+  closeTo(0);
+  return output;
+}
+
+const markdownSyntax: InlineSyntax = {
+  delimiters(mark) {
+    switch (mark.type) {
+      case 'strong':
+        return ['**', '**'];
+      case 'em':
+        return ['_', '_'];
+      case 'strike':
+        return ['~~', '~~'];
+      case 'link':
+        return ['[', `](${mark.attrs?.href || ''})`];
+      default:
+        return null;
+    }
+  },
+  text(text, marks) {
+    return marks.some(mark => mark.type === 'code') ? wrapCode(text) : escapeText(text);
+  },
+  node: renderInline,
+  bareLink: href => href,
+};
+
+function renderInlines(nodes: AdfNode[]): string {
+  return renderInlineRuns(nodes, markdownSyntax);
+}
+
+function renderInline(node: AdfNode): string {
+  switch (node.type) {
+    case 'hardBreak':
+      return '\n';
+
+    case 'mention': {
+      const name = (node.attrs?.text || '').replace(/^@/, '');
+      return name
+        ? `[@${name}](${MENTION_HREF_PREFIX}${node.attrs?.id})`
+        : `[~accountid:${node.attrs?.id}]`;
+    }
+
+    case 'emoji':
+      return node.attrs?.text || node.attrs?.shortName || '';
+
+    case 'inlineCard':
+      return node.attrs?.url || '';
+
+    case 'date':
+      return formatAdfDate(node);
+
+    case 'status':
+      return `[${node.attrs?.text || ''}]`;
+
+    default:
+      return node.content ? renderInlines(node.content) : escapeText(node.text || '');
+  }
+}
+
+export function formatAdfDate(node: AdfNode): string {
+  const timestamp = Number(node.attrs?.timestamp);
+  return isNaN(timestamp) ? '' : new Date(timestamp).toISOString().split('T')[0];
+}
+
+// Paragraph lines that would otherwise be read back as block syntax
+function escapeLineStarts(text: string): string {
+  return text
+    .split('\n')
+    .map(line => line
+      .replace(/^(#{1,6}\s|>|[-+*]\s|\|)/, '\\$1')
+      .replace(/^(\d+)([.)]\s)/, '$1\\$2'))
+    .join('\n');
+}
+
+function wrapCode(text: string): string {
+  const longestRun = Math.max(0, ...(text.match(/`+/g) || []).map(run => run.length));
+  const fence = '`'.repeat(longestRun + 1);
+  const padding = text.startsWith('`') || text.endsWith('`') ? ' ' : '';
+  return `${fence}${padding}${text}${padding}${fence}`;
+}
+
+function escapeText(text: string): string {
+  return text
+    .replace(/([\\`*[\]]|~~)/g, '\\$1')
+    // Underscores only matter at word boundaries
+    .replace(/(^|[^A-Za-z0-9])_|_(?=$|[^A-Za-z0-9])/g, (match) => match.replace('_', '\\_'));
+}
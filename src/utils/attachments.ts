@@ -0,0 +1,86 @@
+/**
+ * Attachment helpers
+ * Size limits for uploads and downloads, and which attachments are small text that can be returned inline
+ */
+
+export interface AttachmentLimits {
+  // Largest file uploaded or downloaded
+  maxBytes: number;
+  // Largest text attachment returned inline by a download
+  maxInlineBytes: number;
+}
+
+export const DEFAULT_ATTACHMENT_LIMITS: AttachmentLimits = {
+  maxBytes: 10 * 1024 * 1024,
+  maxInlineBytes: 64 * 1024,
+};
+
+const SIZE_UNITS: Record<string, number> = {
+  '': 1,
+  b: 1,
+  kb: 1024,
+  mb: 1024 * 1024,
+  gb: 1024 * 1024 * 1024,
+};
+
+// "10MB", "512kb" or a plain number of bytes
+export function parseByteSize(value: string): number {
+  const match = value.trim().toLowerCase().match(/^(\d+(?:\.\d+)?)\s*(b|kb|mb|gb)?$/);
+  if (!match) {
+    throw new Error(`Invalid size "${value}": use bytes or a size like 512KB or 10MB`);
+  }
+  return Math.floor(parseFloat(match[1]) * SIZE_UNITS[match[2] || '']);
+}
+
+export function formatByteSize(bytes: number): string {
+  if (bytes >= SIZE_UNITS.mb) return `${(bytes / SIZE_UNITS.mb).toFixed(1)}MB`;
+  if (bytes >= SIZE_UNITS.kb) return `${(bytes / SIZE_UNITS.kb).toFixed(1)}KB`;
+  return `${bytes}B`;
+}
+
+// JIRA_MAX_ATTACHMENT_SIZE and JIRA_MAX_INLINE_ATTACHMENT_SIZE override the defaults
+export function getAttachmentLimits(env: NodeJS.ProcessEnv = process.env): AttachmentLimits {
+  return {
+    maxBytes: env.JIRA_MAX_ATTACHMENT_SIZE
+      ? parseByteSize(env.JIRA_MAX_ATTACHMENT_SIZE)
+      : DEFAULT_ATTACHMENT_LIMITS.maxBytes,
+    maxInlineBytes: env.JIRA_MAX_INLINE_ATTACHMENT_SIZE
+      ? parseByteSize(env.JIRA_MAX_INLINE_ATTACHMENT_SIZE)
+      : DEFAULT_ATTACHMENT_LIMITS.maxInlineBytes,
+  };
+}
+
+const TEXT_MIME_TYPES = ['application/json', 'application/xml', 'application/x-yaml', 'application/yaml', 'application/javascript'];
+const TEXT_EXTENSIONS = ['.txt', '.log', '.md', '.json', '.csv', '.xml', '.yaml', '.yml', '.html', '.js', '.ts', '.py', '.sql', '.diff', '.patch'];
+
+export function isTextAttachment(filename: string, mimeType?: string): boolean {
+  const type = (mimeType || '').split(';')[0].trim().toLowerCase();
+  if (type.startsWith('text/') || TEXT_MIME_TYPES.includes(type)) {
+    return true;
+  }
+  const lowerName = filename.toLowerCase();
+  return TEXT_EXTENSIONS.some(extension => lowerName.endsWith(extension));
+}
+
+// Common types, so JIRA shows previews; anything else is uploaded as binary
+const MIME_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.svg': 'image/svg+xml',
+  '.pdf': 'application/pdf',
+  '.zip': 'application/zip',
+  '.txt': 'text/plain',
+  '.log': 'text/plain',
+  '.md': 'text/markdown',
+  '.csv': 'text/csv',
+  '.json': 'application/json',
+  '.xml': 'application/xml',
+  '.html': 'text/html',
+};
+
+export function guessMimeType(filename: string): string {
+  const extension = filename.toLowerCase().match(/\.[^.]+$/)?.[0] || '';
+  return MIME_TYPES[extension] || 'application/octet-stream';
+}
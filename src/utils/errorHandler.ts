@@ -20,6 +20,9 @@ export function handleJiraApiError(error: unknown, options: ErrorHandlerOptions)
     // Handle common HTTP status codes with consistent messaging
     switch (status) {
       case 404:
+        if (options.customMessages?.[404]) {
+          throw new Error(options.customMessages[404]);
+        }
         if (options.ticketId) {
           throw new Error(`JIRA ticket ${options.ticketId} not found`);
         }
@@ -0,0 +1,129 @@
+/**
+ * JIRA field values
+ * Converts plain values (strings, numbers, lists of names) into the shapes JIRA expects for each field type
+ */
+
+export interface JiraFieldSchema {
+  type: string;
+  items?: string;
+  system?: string;
+  custom?: string;
+}
+
+export interface JiraAllowedValue {
+  id?: string;
+  name?: string;
+  value?: string;
+}
+
+// A field as described by editmeta / createmeta
+export interface FieldMeta {
+  name: string;
+  required?: boolean;
+  hasDefaultValue?: boolean;
+  schema?: JiraFieldSchema;
+  operations?: string[];
+  allowedValues?: JiraAllowedValue[];
+}
+
+export interface FieldValueOptions {
+  // JIRA Cloud identifies users by accountId, JIRA Server by username
+  legacyMode: boolean;
+  // Markdown → wiki markup (JIRA Server) or ADF (JIRA Cloud)
+  richText: (markdown: string) => unknown;
+}
+
+const RICH_TEXT_FIELDS = ['description', 'environment'];
+
+export function isRichTextField(id: string, meta: FieldMeta): boolean {
+  return RICH_TEXT_FIELDS.includes(id) || !!meta.schema?.custom?.endsWith(':textarea');
+}
+
+export function isSprintField(meta: FieldMeta): boolean {
+  return !!meta.schema?.custom?.endsWith(':gh-sprint');
+}
+
+export function coerceFieldValue(id: string, meta: FieldMeta, value: unknown, options: FieldValueOptions): unknown {
+  if (value === null || value === undefined || value === '') {
+    if (meta.required) {
+      throw new Error('is required and cannot be cleared');
+    }
+    return null;
+  }
+
+  // Listed as an array, but JIRA only accepts a single sprint ID
+  if (isSprintField(meta)) {
+    const sprintId = Number(Array.isArray(value) && value.length === 1 ? value[0] : value);
+    if (!Number.isInteger(sprintId)) {
+      throw new Error(`expects a sprint ID, got "${Array.isArray(value) ? value.join(', ') : String(value)}"`);
+    }
+    return sprintId;
+  }
+
+  const type = meta.schema?.type || 'any';
+  if (type === 'array') {
+    const items = Array.isArray(value) ? value : [value];
+    return items.map(item => coerceSingleValue(id, meta, meta.schema?.items || 'string', item, options));
+  }
+  if (Array.isArray(value)) {
+    throw new Error('takes a single value, not a list');
+  }
+  return coerceSingleValue(id, meta, type, value, options);
+}
+
+function coerceSingleValue(id: string, meta: FieldMeta, type: string, value: unknown, options: FieldValueOptions): unknown {
+  // Already in JIRA's shape, e.g. { id: "10001" }
+  if (typeof value === 'object' && value !== null) {
+    return value;
+  }
+
+  const text = String(value);
+  switch (type) {
+    case 'string':
+      return isRichTextField(id, meta) ? options.richText(text) : text;
+
+    case 'number': {
+      const number = Number(value);
+      if (Number.isNaN(number)) {
+        throw new Error(`expects a number, got "${text}"`);
+      }
+      return number;
+    }
+
+    case 'date':
+      if (!/^\d{4}-\d{2}-\d{2}$/.test(text)) {
+        throw new Error(`expects a date as YYYY-MM-DD, got "${text}"`);
+      }
+      return text;
+
+    case 'user':
+      return options.legacyMode ? { name: text } : { accountId: text };
+
+    case 'option':
+      return { value: matchAllowedValue(meta, text, 'value') };
+
+    case 'priority':
+    case 'version':
+    case 'component':
+    case 'resolution':
+    case 'issuetype':
+      return { name: matchAllowedValue(meta, text, 'name') };
+
+    default:
+      return value;
+  }
+}
+
+// Checks the value against allowedValues (when JIRA lists them) and returns its canonical spelling
+function matchAllowedValue(meta: FieldMeta, text: string, property: 'name' | 'value'): string {
+  if (!meta.allowedValues || meta.allowedValues.length === 0) {
+    return text;
+  }
+
+  const match = meta.allowedValues.find(allowed => (allowed[property] || '').toLowerCase() === text.toLowerCase());
+  if (!match) {
+    const allowed = meta.allowedValues.map(value => value[property]).filter(Boolean);
+    throw new Error(`"${text}" is not allowed (allowed: ${allowed.join(', ')})`);
+  }
+  return match[property]!;
+}
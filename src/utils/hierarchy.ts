@@ -0,0 +1,74 @@
+/**
+ * Project hierarchy trees
+ * Resolves both hierarchy shapes into one tree with an issue type and a stable path on every node
+ */
+
+import type { HierarchyNode, ProjectHierarchy } from '../services/jira.js';
+
+// Issue types per depth for the epic/stories shorthand, and the default for validation
+export const DEFAULT_HIERARCHY_LEVELS = ['Epic', 'Story', 'Task'];
+
+export interface ResolvedHierarchyNode {
+  // Position in the source document, e.g. "stories[0].tasks[1]" or "root.children[2]"
+  path: string;
+  depth: number;
+  issueType: string;
+  summary: string;
+  description?: string;
+  externalId?: string;
+  children: ResolvedHierarchyNode[];
+}
+
+export function resolveHierarchy(hierarchy: ProjectHierarchy): ResolvedHierarchyNode {
+  if ('root' in hierarchy) {
+    return resolveNode(hierarchy.root, 'root', 0, hierarchy.levels || []);
+  }
+
+  // Epic → Story → Task shorthand, keeping its own paths
+  const { epic, stories } = hierarchy;
+  return {
+    path: 'epic',
+    depth: 0,
+    issueType: DEFAULT_HIERARCHY_LEVELS[0],
+    ...nodeData(epic),
+    children: stories.map((story, storyIndex) => ({
+      path: `stories[${storyIndex}]`,
+      depth: 1,
+      issueType: DEFAULT_HIERARCHY_LEVELS[1],
+      ...nodeData(story),
+      children: (story.tasks || []).map((task, taskIndex) => ({
+        path: `stories[${storyIndex}].tasks[${taskIndex}]`,
+        depth: 2,
+        issueType: DEFAULT_HIERARCHY_LEVELS[2],
+        ...nodeData(task),
+        children: [],
+      })),
+    })),
+  };
+}
+
+// Parents before children, in document order
+export function flattenHierarchy(root: ResolvedHierarchyNode): ResolvedHierarchyNode[] {
+  return [root, ...root.children.flatMap(flattenHierarchy)];
+}
+
+function resolveNode(node: HierarchyNode, path: string, depth: number, levels: string[]): ResolvedHierarchyNode {
+  const issueType = node.issueType || levels[depth];
+  if (!issueType) {
+    throw new Error(`No issue type for ${path}: set issueType on the node or add level ${depth + 1} to levels`);
+  }
+
+  return {
+    path,
+    depth,
+    issueType,
+    ...nodeData(node),
+    children: (node.children || []).map((child, index) =>
+      resolveNode(child, `${path}.children[${index}]`, depth + 1, levels)
+    ),
+  };
+}
+
+function nodeData(node: { summary: string; description?: string; externalId?: string }) {
+  return { summary: node.summary, description: node.description, externalId: node.externalId };
+}
@@ -0,0 +1,108 @@
+/**
+ * Issue history helpers
+ * Normalizes JIRA changelog histories into a timeline and works out how long an issue has been in its status
+ */
+
+export interface HistoryChange {
+  field: string;
+  fieldId?: string;
+  // Display values; the IDs are set for fields such as status, assignee and sprint
+  from: string | null;
+  to: string | null;
+  fromId?: string;
+  toId?: string;
+}
+
+export interface HistoryEntry {
+  id: string;
+  author: string;
+  authorId?: string;
+  created: string;
+  changes: HistoryChange[];
+}
+
+export interface HistoryFilter {
+  // Field names or IDs, case-insensitive
+  fields?: string[];
+  // ISO 8601 timestamps or YYYY-MM-DD dates, both inclusive
+  since?: string;
+  until?: string;
+}
+
+export interface StatusAge {
+  status: string;
+  since: string;
+  seconds: number;
+  duration: string;
+}
+
+// Oldest first; JIRA Server and JIRA Cloud don't agree on the order
+export function normalizeHistory(histories: any[]): HistoryEntry[] {
+  return histories
+    .map(history => ({
+      id: String(history.id),
+      author: history.author?.displayName || 'Unknown',
+      authorId: history.author?.accountId || history.author?.name,
+      created: history.created,
+      changes: (history.items || []).map((item: any): HistoryChange => ({
+        field: item.field,
+        fieldId: item.fieldId,
+        from: item.fromString ?? null,
+        to: item.toString ?? null,
+        ...(item.from != null && { fromId: String(item.from) }),
+        ...(item.to != null && { toId: String(item.to) }),
+      })),
+    }))
+    .sort((a, b) => Date.parse(a.created) - Date.parse(b.created));
+}
+
+function parseBoundary(value: string, endOfDay: boolean): number {
+  const dateOnly = /^\d{4}-\d{2}-\d{2}$/.test(value);
+  const time = Date.parse(dateOnly ? `${value}T00:00:00Z` : value);
+  if (isNaN(time)) {
+    throw new Error(`Invalid date "${value}": use YYYY-MM-DD or an ISO 8601 timestamp`);
+  }
+  return dateOnly && endOfDay ? time + 24 * 3600 * 1000 - 1 : time;
+}
+
+// Entries in the date range, keeping only changes to the given fields
+export function filterHistory(entries: HistoryEntry[], filter: HistoryFilter): HistoryEntry[] {
+  const since = filter.since ? parseBoundary(filter.since, false) : -Infinity;
+  const until = filter.until ? parseBoundary(filter.until, true) : Infinity;
+  const fields = (filter.fields || []).map(field => field.toLowerCase());
+
+  return entries
+    .filter(entry => {
+      const created = Date.parse(entry.created);
+      return created >= since && created <= until;
+    })
+    .map(entry => fields.length === 0 ? entry : {
+      ...entry,
+      changes: entry.changes.filter(change =>
+        fields.includes(change.field.toLowerCase()) || (!!change.fieldId && fields.includes(change.fieldId.toLowerCase()))
+      ),
+    })
+    .filter(entry => entry.changes.length > 0);
+}
+
+// Days, hours and minutes - elapsed calendar time, unlike worklog durations
+export function formatElapsed(seconds: number): string {
+  const minutes = Math.floor(seconds / 60);
+  const days = Math.floor(minutes / (24 * 60));
+  const hours = Math.floor(minutes / 60) % 24;
+  if (days > 0) return hours > 0 ? `${days}d ${hours}h` : `${days}d`;
+  if (hours > 0) return minutes % 60 > 0 ? `${hours}h ${minutes % 60}m` : `${hours}h`;
+  return `${minutes}m`;
+}
+
+// Since the last status change, or since the issue was created if its status never changed
+export function statusAge(entries: HistoryEntry[], status: string, createdAt: string, now: Date = new Date()): StatusAge {
+  let since = createdAt;
+  for (const entry of entries) {
+    if (entry.changes.some(change => change.field === 'status')) {
+      since = entry.created;
+    }
+  }
+  const seconds = Math.max(0, Math.floor((now.getTime() - Date.parse(since)) / 1000));
+  return { status, since, seconds, duration: formatElapsed(seconds) };
+}
@@ -0,0 +1,133 @@
+/**
+ * JIRA plan files
+ * Reads epic/story/task breakdowns kept as YAML or JSON and renders plan diffs
+ */
+
+import * as fs from 'fs';
+import { parse as parseYaml } from 'yaml';
+import { z } from 'zod';
+import type { HierarchyNode, PlanDiffEntry, ProjectHierarchy } from '../services/jira.js';
+import { flattenHierarchy, resolveHierarchy } from './hierarchy.js';
+
+const hierarchyNodeSchema: z.ZodType<HierarchyNode> = z.lazy(() => z.object({
+  summary: z.string().describe("Issue summary"),
+  description: z.string().optional().describe("Issue description"),
+  externalId: z.string().optional().describe("Stable ID for idempotent reruns - an existing issue with this ID is updated instead of created"),
+  issueType: z.string().optional().describe("Issue type (defaults to the type of this node's level)"),
+  children: z.array(hierarchyNodeSchema).optional().describe("Child issues"),
+}));
+
+const hierarchyTreeSchema = z.object({
+  levels: z.array(z.string()).optional().describe("Issue type per level, starting with the root (e.g. Initiative, Epic, Story, Sub-task)"),
+  root: hierarchyNodeSchema,
+});
+
+const epicHierarchySchema = z.object({
+  epic: z.object({
+    summary: z.string().describe("Epic summary"),
+    description: z.string().optional().describe("Epic description"),
+    externalId: z.string().optional().describe("Stable ID for idempotent reruns - an existing issue with this ID is updated instead of created"),
+  }),
+  stories: z.array(z.object({
+    summary: z.string().describe("Story summary"),
+    description: z.string().optional().describe("Story description"),
+    externalId: z.string().optional().describe("Stable ID for idempotent reruns"),
+    tasks: z.array(z.object({
+      summary: z.string().describe("Task summary"),
+      description: z.string().optional().describe("Task description"),
+      externalId: z.string().optional().describe("Stable ID for idempotent reruns"),
+    })).optional().describe("Tasks for this story"),
+  })).describe("Stories in the epic"),
+});
+
+export const projectHierarchySchema = z.union([epicHierarchySchema, hierarchyTreeSchema])
+  .describe("Project hierarchy definition: { epic, stories } or { levels, root } for any depth");
+
+// A plan file is a hierarchy with an optional project key at the top level
+const epicPlanSchema = epicHierarchySchema.extend({ projectKey: z.string().optional() });
+const treePlanSchema = hierarchyTreeSchema.extend({ projectKey: z.string().optional() });
+
+export interface JiraPlan {
+  projectKey?: string;
+  hierarchy: ProjectHierarchy;
+}
+
+export function loadPlanFile(filePath: string): JiraPlan {
+  let content: string;
+  try {
+    content = fs.readFileSync(filePath, 'utf8');
+  } catch (error) {
+    throw new Error(`Could not read plan file ${filePath}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  return parsePlan(content, filePath);
+}
+
+// YAML is a superset of JSON, so one parser reads both formats
+export function parsePlan(content: string, source: string = 'plan'): JiraPlan {
+  let raw: unknown;
+  try {
+    raw = parseYaml(content);
+  } catch (error) {
+    throw new Error(`Invalid ${source}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  // Pick the shape up front so validation errors point at the fields of that shape
+  const isTree = typeof raw === 'object' && raw !== null && 'root' in raw;
+  const parsed = (isTree ? treePlanSchema : epicPlanSchema).safeParse(raw);
+  if (!parsed.success) {
+    const problems = parsed.error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`);
+    throw new Error(`Invalid ${source}: ${problems.join('; ')}`);
+  }
+
+  const { projectKey, ...hierarchy } = parsed.data;
+
+  // Plans are applied repeatedly, so every node must be matchable against live JIRA
+  let missing: string[];
+  try {
+    missing = flattenHierarchy(resolveHierarchy(hierarchy))
+      .filter(node => !node.externalId)
+      .map(node => node.path);
+  } catch (error) {
+    throw new Error(`Invalid ${source}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  if (missing.length > 0) {
+    throw new Error(`Invalid ${source}: every node needs an externalId (missing at ${missing.join(', ')})`);
+  }
+
+  return { projectKey, hierarchy };
+}
+
+export function summarizePlanDiff(diff: PlanDiffEntry[]): { create: number; update: number; unchanged: number } {
+  return {
+    create: diff.filter(entry => entry.action === 'create').length,
+    update: diff.filter(entry => entry.action === 'update').length,
+    unchanged: diff.filter(entry => entry.action === 'unchanged').length,
+  };
+}
+
+const ACTION_SYMBOLS: Record<PlanDiffEntry['action'], string> = {
+  create: '+',
+  update: '~',
+  unchanged: ' ',
+};
+
+export function formatPlanDiff(diff: PlanDiffEntry[]): string {
+  const lines: string[] = [];
+
+  for (const entry of diff) {
+    const indent = '  '.repeat(entry.depth);
+    const key = entry.key ? `${entry.key} ` : '';
+    lines.push(`${ACTION_SYMBOLS[entry.action]} ${indent}${entry.issueType} ${key}"${entry.summary}" (${entry.externalId || entry.path})`);
+
+    for (const change of entry.changes) {
+      const detail = change.field === 'description'
+        ? 'description changed'
+        : `${change.field}: ${change.from ?? '(none)'} → ${change.to ?? '(none)'}`;
+      lines.push(`  ${indent}    ${detail}`);
+    }
+  }
+
+  const summary = summarizePlanDiff(diff);
+  lines.push('', `Plan: ${summary.create} to create, ${summary.update} to update, ${summary.unchanged} unchanged.`);
+  return lines.join('\n');
+}
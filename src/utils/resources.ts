@@ -0,0 +1,145 @@
+/**
+ * MCP resource helpers
+ * Parses jira:// resource URIs, renders issues as Markdown and polls subscribed resources for changes
+ */
+
+import { createHash } from 'crypto';
+import type { JiraTicket } from '../services/jira.js';
+
+export type JiraResourceUri =
+  | { kind: 'issue'; key: string }
+  | { kind: 'project'; key: string }
+  | { kind: 'epicTree'; key: string }
+  | { kind: 'filter'; id: string };
+
+const RESOURCE_PATTERNS: Array<[RegExp, (match: RegExpMatchArray) => JiraResourceUri]> = [
+  [/^jira:\/\/issue\/([A-Z][A-Z0-9_]*-\d+)$/i, match => ({ kind: 'issue', key: match[1].toUpperCase() })],
+  [/^jira:\/\/project\/([A-Z][A-Z0-9_]*)$/i, match => ({ kind: 'project', key: match[1].toUpperCase() })],
+  [/^jira:\/\/epic\/([A-Z][A-Z0-9_]*-\d+)\/tree$/i, match => ({ kind: 'epicTree', key: match[1].toUpperCase() })],
+  [/^jira:\/\/filter\/(\d+)$/, match => ({ kind: 'filter', id: match[1] })],
+];
+
+export function parseJiraUri(uri: string): JiraResourceUri {
+  for (const [pattern, toResource] of RESOURCE_PATTERNS) {
+    const match = uri.match(pattern);
+    if (match) return toResource(match);
+  }
+  throw new Error(`Unknown JIRA resource "${uri}": use jira://issue/{key}, jira://project/{key}, jira://epic/{key}/tree or jira://filter/{id}`);
+}
+
+// The description is expected as Markdown, as getTicket returns it
+export function issueToMarkdown(ticket: JiraTicket): string {
+  const fields = ticket.fields as JiraTicket['fields'] & Record<string, any>;
+  const lines = [
+    `# ${ticket.key}: ${fields.summary}`,
+    '',
+    `- **Type:** ${fields.issuetype?.name || 'Unknown'}`,
+    `- **Status:** ${fields.status?.name || 'Unknown'}`,
+  ];
+  if (fields.priority?.name) lines.push(`- **Priority:** ${fields.priority.name}`);
+  lines.push(`- **Assignee:** ${fields.assignee?.displayName || 'Unassigned'}`);
+  if (fields.reporter?.displayName) lines.push(`- **Reporter:** ${fields.reporter.displayName}`);
+  if (fields.parent?.key) lines.push(`- **Parent:** ${fields.parent.key}`);
+  if (fields.labels?.length) lines.push(`- **Labels:** ${fields.labels.join(', ')}`);
+  if (fields.updated) lines.push(`- **Updated:** ${fields.updated}`);
+
+  if (fields.subtasks?.length) {
+    lines.push('', '## Sub-tasks', '');
+    for (const subtask of fields.subtasks) {
+      lines.push(`- ${subtask.key}: ${subtask.fields.summary} (${subtask.fields.status.name})`);
+    }
+  }
+
+  if (fields.description) {
+    lines.push('', '## Description', '', fields.description);
+  }
+  return lines.join('\n');
+}
+
+// JIRA_RESOURCE_POLL_INTERVAL, in seconds, overrides the default of a minute
+export function getResourcePollInterval(env: NodeJS.ProcessEnv = process.env): number {
+  const seconds = env.JIRA_RESOURCE_POLL_INTERVAL ? Number(env.JIRA_RESOURCE_POLL_INTERVAL) : 60;
+  if (!Number.isFinite(seconds) || seconds < 10) {
+    throw new Error(`Invalid JIRA_RESOURCE_POLL_INTERVAL "${env.JIRA_RESOURCE_POLL_INTERVAL}": use a number of seconds, at least 10`);
+  }
+  return seconds * 1000;
+}
+
+// JIRA has no push notifications for MCP, so subscribed resources are re-read on an interval
+// and reported as updated when their content changes
+export class ResourceSubscriptions {
+  // Content hash per subscribed URI; null until the first successful read
+  private fingerprints = new Map<string, string | null>();
+  private timer: NodeJS.Timeout | null = null;
+  private polling = false;
+
+  constructor(
+    private readonly read: (uri: string) => Promise<string>,
+    private readonly notify: (uri: string) => Promise<void>,
+    // Read on the first subscription, so a bad setting only fails subscribing
+    private readonly getIntervalMs: () => number
+  ) {}
+
+  async subscribe(uri: string): Promise<void> {
+    const intervalMs = this.getIntervalMs();
+    if (!this.fingerprints.has(uri)) {
+      this.fingerprints.set(uri, await this.fingerprint(uri));
+    }
+    if (!this.timer) {
+      this.timer = setInterval(() => { void this.poll(); }, intervalMs);
+      // Subscriptions alone don't keep the process alive
+      this.timer.unref();
+    }
+  }
+
+  unsubscribe(uri: string): void {
+    this.fingerprints.delete(uri);
+    if (this.fingerprints.size === 0) {
+      this.stop();
+    }
+  }
+
+  get uris(): string[] {
+    return [...this.fingerprints.keys()];
+  }
+
+  async poll(): Promise<void> {
+    if (this.polling) return;
+    this.polling = true;
+    try {
+      for (const uri of this.uris) {
+        const fingerprint = await this.fingerprint(uri);
+        const previous = this.fingerprints.get(uri);
+        // Unsubscribed while reading, or unreadable this time
+        if (previous === undefined || fingerprint === null) continue;
+
+        this.fingerprints.set(uri, fingerprint);
+        if (previous !== null && previous !== fingerprint) {
+          try {
+            await this.notify(uri);
+          } catch (error) {
+            console.warn(`Could not report ${uri} as updated:`, error instanceof Error ? error.message : error);
+          }
+        }
+      }
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private async fingerprint(uri: string): Promise<string | null> {
+    try {
+      return createHash('sha256').update(await this.read(uri)).digest('hex');
+    } catch (error) {
+      console.warn(`Could not read subscribed resource ${uri}:`, error instanceof Error ? error.message : error);
+      return null;
+    }
+  }
+}
@@ -0,0 +1,206 @@
+/**
+ * Story status rollup rules
+ * Classifies task statuses into buckets and decides which status the parent story should move to
+ */
+
+import * as fs from 'fs';
+import type { StatusCategoryKey } from '../services/jira.js';
+
+export type RollupBucket = 'toDo' | 'inProgress' | 'done';
+
+// Statuses mapped to 'ignore' are left out of the counts (e.g. "Won't Do", "Duplicate")
+export type StatusMapping = RollupBucket | 'ignore';
+
+export interface ParentStatusRule {
+  status?: string;
+  statusCategory?: StatusCategoryKey;
+  // Story buckets this rule applies from; defaults to any bucket other than the aggregate state
+  from?: RollupBucket[];
+}
+
+export interface StatusRollupRules {
+  statuses: Record<string, StatusMapping>;
+  categories: Record<StatusCategoryKey, StatusMapping>;
+  parentStatus: Record<RollupBucket, ParentStatusRule | null>;
+}
+
+export interface RollupSummary {
+  total: number;
+  done: number;
+  inProgress: number;
+  toDo: number;
+  ignored: number;
+}
+
+interface RollupStatus {
+  name: string;
+  statusCategory?: { key: string };
+}
+
+const BUCKETS: RollupBucket[] = ['toDo', 'inProgress', 'done'];
+const CATEGORY_KEYS: StatusCategoryKey[] = ['new', 'indeterminate', 'done'];
+
+// Stories are never moved back to "To Do" and never reopened from "Done" unless a rules file says so
+export const DEFAULT_STATUS_ROLLUP_RULES: StatusRollupRules = {
+  statuses: {},
+  categories: {
+    new: 'toDo',
+    indeterminate: 'inProgress',
+    done: 'done',
+  },
+  parentStatus: {
+    toDo: null,
+    inProgress: { statusCategory: 'indeterminate', from: ['toDo'] },
+    done: { statusCategory: 'done', from: ['toDo', 'inProgress'] },
+  },
+};
+
+// Used only when Jira does not return a status category
+const FALLBACK_STATUS_NAMES: Record<string, RollupBucket> = {
+  'done': 'done',
+  'in progress': 'inProgress',
+};
+
+export function loadStatusRollupRules(filePath?: string): StatusRollupRules {
+  if (!filePath) return DEFAULT_STATUS_ROLLUP_RULES;
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+  } catch (error) {
+    throw new Error(`Could not read status rules file ${filePath}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  return parseStatusRollupRules(raw, filePath);
+}
+
+export function parseStatusRollupRules(raw: unknown, source: string = 'status rules'): StatusRollupRules {
+  if (!isObject(raw)) {
+    throw new Error(`Invalid ${source}: expected a JSON object`);
+  }
+
+  const statuses: Record<string, StatusMapping> = {};
+  for (const [name, mapping] of Object.entries(optionalObject(raw.statuses, `${source}: statuses`))) {
+    statuses[name.toLowerCase()] = parseMapping(mapping, `${source}: statuses.${name}`);
+  }
+
+  const categories = { ...DEFAULT_STATUS_ROLLUP_RULES.categories };
+  for (const [key, mapping] of Object.entries(optionalObject(raw.categories, `${source}: categories`))) {
+    if (!CATEGORY_KEYS.includes(key as StatusCategoryKey)) {
+      throw new Error(`Invalid ${source}: unknown status category "${key}" (expected ${CATEGORY_KEYS.join(', ')})`);
+    }
+    categories[key as StatusCategoryKey] = parseMapping(mapping, `${source}: categories.${key}`);
+  }
+
+  const parentStatus = { ...DEFAULT_STATUS_ROLLUP_RULES.parentStatus };
+  for (const [bucket, rule] of Object.entries(optionalObject(raw.parentStatus, `${source}: parentStatus`))) {
+    if (!BUCKETS.includes(bucket as RollupBucket)) {
+      throw new Error(`Invalid ${source}: unknown parentStatus state "${bucket}" (expected ${BUCKETS.join(', ')})`);
+    }
+    parentStatus[bucket as RollupBucket] = parseParentRule(rule, `${source}: parentStatus.${bucket}`);
+  }
+
+  return { statuses, categories, parentStatus };
+}
+
+export function classifyStatus(status: RollupStatus, rules: StatusRollupRules): StatusMapping {
+  const byName = rules.statuses[status.name.toLowerCase()];
+  if (byName) return byName;
+
+  const category = status.statusCategory?.key as StatusCategoryKey | undefined;
+  if (category && rules.categories[category]) {
+    return rules.categories[category];
+  }
+  return FALLBACK_STATUS_NAMES[status.name.toLowerCase()] || 'toDo';
+}
+
+export function summarizeStatuses(statuses: RollupStatus[], rules: StatusRollupRules): RollupSummary {
+  const summary: RollupSummary = { total: 0, done: 0, inProgress: 0, toDo: 0, ignored: 0 };
+  for (const status of statuses) {
+    const bucket = classifyStatus(status, rules);
+    if (bucket === 'ignore') {
+      summary.ignored++;
+    } else {
+      summary[bucket]++;
+      summary.total++;
+    }
+  }
+  return summary;
+}
+
+// Aggregate state of the children, or null when there is nothing to roll up
+export function aggregateState(summary: RollupSummary): RollupBucket | null {
+  if (summary.total === 0) return null;
+  if (summary.done === summary.total) return 'done';
+  if (summary.done > 0 || summary.inProgress > 0) return 'inProgress';
+  return 'toDo';
+}
+
+export function resolveParentStatus(
+  storyStatus: RollupStatus,
+  state: RollupBucket | null,
+  rules: StatusRollupRules
+): ParentStatusRule | null {
+  if (!state) return null;
+  const rule = rules.parentStatus[state];
+  if (!rule) return null;
+
+  if (rule.status && rule.status.toLowerCase() === storyStatus.name.toLowerCase()) {
+    return null;
+  }
+
+  const storyBucket = classifyStatus(storyStatus, rules);
+  const from = rule.from || BUCKETS.filter(bucket => bucket !== state);
+  if (storyBucket === 'ignore' || !from.includes(storyBucket)) {
+    return null;
+  }
+  return rule;
+}
+
+function parseMapping(value: unknown, path: string): StatusMapping {
+  if (value === 'ignore' || BUCKETS.includes(value as RollupBucket)) {
+    return value as StatusMapping;
+  }
+  throw new Error(`Invalid ${path}: expected one of ${[...BUCKETS, 'ignore'].join(', ')}`);
+}
+
+function parseParentRule(value: unknown, path: string): ParentStatusRule | null {
+  if (value === null) return null;
+  if (typeof value === 'string') return { status: value };
+  if (!isObject(value)) {
+    throw new Error(`Invalid ${path}: expected a status name, an object or null`);
+  }
+
+  const rule: ParentStatusRule = {};
+  if (value.status !== undefined) {
+    if (typeof value.status !== 'string') throw new Error(`Invalid ${path}.status: expected a string`);
+    rule.status = value.status;
+  }
+  if (value.statusCategory !== undefined) {
+    if (!CATEGORY_KEYS.includes(value.statusCategory as StatusCategoryKey)) {
+      throw new Error(`Invalid ${path}.statusCategory: expected one of ${CATEGORY_KEYS.join(', ')}`);
+    }
+    rule.statusCategory = value.statusCategory as StatusCategoryKey;
+  }
+  if (!rule.status && !rule.statusCategory) {
+    throw new Error(`Invalid ${path}: a status or statusCategory is required`);
+  }
+  if (value.from !== undefined) {
+    if (!Array.isArray(value.from) || value.from.some(bucket => !BUCKETS.includes(bucket))) {
+      throw new Error(`Invalid ${path}.from: expected a list of ${BUCKETS.join(', ')}`);
+    }
+    rule.from = value.from as RollupBucket[];
+  }
+  return rule;
+}
+
+function optionalObject(value: unknown, path: string): Record<string, unknown> {
+  if (value === undefined) return {};
+  if (!isObject(value)) {
+    throw new Error(`Invalid ${path}: expected an object`);
+  }
+  return value;
+}
+
+function isObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
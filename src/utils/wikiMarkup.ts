@@ -0,0 +1,768 @@
+/**
+ * JIRA wiki markup conversion
+ * Converts between Markdown and JIRA wiki markup (JIRA Server / API v2), using ADF as the shared document tree
+ */
+
+import {
+  AdfDocument,
+  AdfMark,
+  AdfNode,
+  InlineSyntax,
+  adfToMarkdown,
+  formatAdfDate,
+  markdownToAdf,
+  renderInlineRuns,
+} from './adf.js';
+
+export function markdownToWiki(markdown: string): string {
+  return adfToWiki(markdownToAdf(markdown));
+}
+
+export function wikiToMarkdown(wiki: string): string {
+  return adfToMarkdown(wikiToAdf(wiki));
+}
+
+// Panel macros and the ADF panel types they map to
+const PANEL_MACROS: Record<string, string> = {
+  info: 'info',
+  note: 'note',
+  warning: 'warning',
+  tip: 'success',
+};
+
+const PANEL_TYPE_MACROS: Record<string, string> = {
+  info: 'info',
+  note: 'note',
+  warning: 'warning',
+  success: 'tip',
+  error: 'warning',
+};
+
+// ---------------------------------------------------------------------------
+// ADF → wiki markup
+// ---------------------------------------------------------------------------
+
+export function adfToWiki(document: AdfNode | null | undefined): string {
+  if (!document) return '';
+  return renderBlocks(document.content || []).trim();
+}
+
+function renderBlocks(nodes: AdfNode[], separator: string = '\n\n'): string {
+  return nodes
+    .map(renderBlock)
+    .filter(block => block !== '')
+    .join(separator);
+}
+
+function renderBlock(node: AdfNode): string {
+  const content = node.content || [];
+
+  switch (node.type) {
+    case 'paragraph':
+      return escapeLineStarts(renderInlines(content));
+
+    case 'heading':
+      return `h${Math.min(Math.max(node.attrs?.level || 1, 1), 6)}. ${renderInlines(content)}`;
+
+    case 'bulletList':
+    case 'orderedList':
+      return renderList(node, '');
+
+    case 'taskList':
+    case 'decisionList':
+      return content.map(item => {
+        const box = item.type === 'taskItem' ? (item.attrs?.state === 'DONE' ? '(/) ' : '(x) ') : '';
+        return `* ${box}${renderInlines(item.content || [])}`;
+      }).join('\n');
+
+    case 'codeBlock': {
+      const code = content.map(child => child.text || '').join('');
+      const language = node.attrs?.language ? `:${node.attrs.language}` : '';
+      return `{code${language}}\n${code}\n{code}`;
+    }
+
+    case 'blockquote':
+      if (content.length === 1 && content[0].type === 'paragraph' &&
+          !(content[0].content || []).some(child => child.type === 'hardBreak')) {
+        return `bq. ${renderInlines(content[0].content || [])}`;
+      }
+      return `{quote}\n${renderBlocks(content)}\n{quote}`;
+
+    case 'panel': {
+      const macro = PANEL_TYPE_MACROS[node.attrs?.panelType] || 'panel';
+      return `{${macro}}\n${renderBlocks(content)}\n{${macro}}`;
+    }
+
+    case 'rule':
+      return '----';
+
+    case 'table':
+      return content.map(row =>
+        (row.content || []).map(cell => {
+          const delimiter = cell.type === 'tableHeader' ? '||' : '|';
+          const text = (cell.content || [])
+            .map(child => child.type === 'paragraph' ? renderInlines(child.content || [], true) : renderBlock(child))
+            .join(' ');
+          return `${delimiter}${text || ' '}`;
+        }).join('') + ((row.content || [])[0]?.type === 'tableHeader' ? '||' : '|')
+      ).join('\n');
+
+    case 'mediaSingle':
+    case 'mediaGroup':
+      return content.map(renderMedia).join('\n');
+
+    case 'media':
+      return renderMedia(node);
+
+    case 'expand':
+    case 'nestedExpand': {
+      const title = node.attrs?.title ? `*${escapeText(node.attrs.title)}*\n\n` : '';
+      return `${title}${renderBlocks(content)}`;
+    }
+
+    case 'blockCard':
+    case 'embedCard':
+      return node.attrs?.url ? `[${node.attrs.url}]` : '';
+
+    default:
+      if (content.length > 0) {
+        return content.every(child => child.type === 'text' || child.type === 'hardBreak')
+          ? renderInlines(content)
+          : renderBlocks(content);
+      }
+      return node.text ? escapeText(node.text) : '';
+  }
+}
+
+function renderList(list: AdfNode, prefix: string): string {
+  const marker = prefix + (list.type === 'orderedList' ? '#' : '*');
+  const lines: string[] = [];
+
+  for (const item of list.content || []) {
+    let hasText = false;
+    for (const child of item.content || []) {
+      if (child.type === 'bulletList' || child.type === 'orderedList') {
+        if (!hasText) {
+          lines.push(`${marker} `);
+          hasText = true;
+        }
+        lines.push(renderList(child, marker));
+      } else if (!hasText && child.type === 'paragraph') {
+        lines.push(`${marker} ${renderInlines(child.content || [])}`);
+        hasText = true;
+      } else {
+        // Wiki lists can't hold other blocks, so they follow the item
+        lines.push(hasText ? renderBlock(child) : `${marker} ${renderBlock(child)}`);
+        hasText = true;
+      }
+    }
+    if (!hasText) lines.push(`${marker} `);
+  }
+
+  return lines.join('\n');
+}
+
+function renderMedia(node: AdfNode): string {
+  if (node.type !== 'media') return renderBlock(node);
+  const alt = node.attrs?.alt ? `|alt=${node.attrs.alt}` : '';
+  if (node.attrs?.type === 'external' && node.attrs.url) {
+    return `!${node.attrs.url}${alt}!`;
+  }
+  return `!${node.attrs?.alt || node.attrs?.id || 'attachment'}!`;
+}
+
+function wikiSyntax(inTable: boolean): InlineSyntax {
+  return {
+    delimiters(mark: AdfMark) {
+      switch (mark.type) {
+        case 'strong':
+          return ['*', '*'];
+        case 'em':
+          return ['_', '_'];
+        case 'strike':
+          return ['-', '-'];
+        case 'underline':
+          return ['+', '+'];
+        case 'subsup':
+          return mark.attrs?.type === 'sub' ? ['~', '~'] : ['^', '^'];
+        case 'textColor':
+          return [`{color:${mark.attrs?.color}}`, '{color}'];
+        case 'link':
+          return ['[', `|${mark.attrs?.href || ''}]`];
+        default:
+          return null;
+      }
+    },
+    text(text, marks) {
+      if (marks.some(mark => mark.type === 'code')) {
+        return `{{${text}}}`;
+      }
+      const escaped = escapeText(text);
+      return inTable || marks.some(mark => mark.type === 'link') ? escaped.replace(/\|/g, '\\|') : escaped;
+    },
+    node: renderInline,
+    bareLink: href => href,
+  };
+}
+
+function renderInlines(nodes: AdfNode[], inTable: boolean = false): string {
+  return renderInlineRuns(nodes, wikiSyntax(inTable));
+}
+
+function renderInline(node: AdfNode): string {
+  switch (node.type) {
+    case 'hardBreak':
+      return '\n';
+
+    case 'mention':
+      return `[~${node.attrs?.id}]`;
+
+    case 'emoji':
+      return node.attrs?.text || node.attrs?.shortName || '';
+
+    case 'inlineCard':
+      return node.attrs?.url ? `[${node.attrs.url}]` : '';
+
+    case 'date':
+      return formatAdfDate(node);
+
+    case 'status':
+      return `*${escapeText(node.attrs?.text || '')}*`;
+
+    default:
+      return node.content ? renderInlines(node.content) : escapeText(node.text || '');
+  }
+}
+
+// Characters that open or close inline formatting when they touch a word
+const WIKI_EMPHASIS_CHARS = '*_-+';
+// Superscript and subscript also apply inside words (x^2^)
+const WIKI_INTRAWORD_CHARS = '^~';
+
+function escapeText(text: string): string {
+  let result = '';
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if ('{}[]'.includes(ch) || WIKI_INTRAWORD_CHARS.includes(ch)) {
+      result += `\\${ch}`;
+      continue;
+    }
+    if (WIKI_EMPHASIS_CHARS.includes(ch)) {
+      const before = text[i - 1];
+      const after = text[i + 1];
+      const canOpen = (before === undefined || !/[A-Za-z0-9]/.test(before)) && after !== undefined && !/\s/.test(after);
+      const canClose = before !== undefined && !/\s/.test(before) && (after === undefined || !/[A-Za-z0-9]/.test(after));
+      if (canOpen || canClose) {
+        result += `\\${ch}`;
+        continue;
+      }
+    }
+    result += ch;
+  }
+  return result;
+}
+
+// Paragraph lines that would otherwise be read back as block syntax
+function escapeLineStarts(text: string): string {
+  return text
+    .split('\n')
+    .map(line => line.replace(/^([*#-]+\s|h[1-6]\.\s|bq\.\s|\|)/, '\\$1'))
+    .join('\n');
+}
+
+// ---------------------------------------------------------------------------
+// Wiki markup → ADF
+// ---------------------------------------------------------------------------
+
+const HEADING_PATTERN = /^\s*h([1-6])\.\s*(.*)$/;
+const LIST_PATTERN = /^\s*([*#-]+)\s+(.*)$/;
+const RULE_PATTERN = /^\s*-{4,}\s*$/;
+const QUOTE_LINE_PATTERN = /^\s*bq\.\s+(.*)$/;
+const MACRO_PATTERN = /^\s*\{(code|noformat|quote|panel|info|note|warning|tip)(?::([^}]*))?\}(.*)$/;
+
+export function wikiToAdf(wiki: string): AdfDocument {
+  const lines = (wiki || '').replace(/\r\n?/g, '\n').split('\n');
+  return {
+    type: 'doc',
+    version: 1,
+    content: parseBlocks(lines),
+  };
+}
+
+function isBlank(line: string): boolean {
+  return line.trim() === '';
+}
+
+function startsBlock(line: string): boolean {
+  return HEADING_PATTERN.test(line) ||
+    RULE_PATTERN.test(line) ||
+    LIST_PATTERN.test(line) ||
+    QUOTE_LINE_PATTERN.test(line) ||
+    MACRO_PATTERN.test(line) ||
+    line.trimStart().startsWith('|');
+}
+
+function parseMacroParams(params: string | undefined): Record<string, string> {
+  const result: Record<string, string> = {};
+  if (!params) return result;
+  for (const part of params.split('|')) {
+    const [key, ...rest] = part.split('=');
+    if (rest.length > 0) {
+      result[key.trim()] = rest.join('=').trim();
+    } else if (key.trim()) {
+      // A bare parameter is the language of a code macro
+      result.language = key.trim();
+    }
+  }
+  return result;
+}
+
+// Collect macro body lines up to the closing {name} tag
+function collectMacroBody(lines: string[], start: number, name: string, firstRest: string): { body: string[]; next: number } {
+  const closing = `{${name}}`;
+  const body: string[] = [];
+
+  const sameLineClose = firstRest.indexOf(closing);
+  if (sameLineClose !== -1) {
+    return { body: [firstRest.slice(0, sameLineClose)], next: start + 1 };
+  }
+  if (firstRest.trim() !== '') body.push(firstRest);
+
+  let i = start + 1;
+  while (i < lines.length) {
+    const closeIndex = lines[i].indexOf(closing);
+    if (closeIndex !== -1) {
+      const before = lines[i].slice(0, closeIndex);
+      if (before.trim() !== '') body.push(before);
+      return { body, next: i + 1 };
+    }
+    body.push(lines[i]);
+    i++;
+  }
+  return { body, next: i };
+}
+
+function parseBlocks(lines: string[]): AdfNode[] {
+  const blocks: AdfNode[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (isBlank(line)) {
+      i++;
+      continue;
+    }
+
+    const macro = line.match(MACRO_PATTERN);
+    if (macro) {
+      const [, name, params, rest] = macro;
+      const { body, next } = collectMacroBody(lines, i, name, rest);
+      i = next;
+
+      if (name === 'code' || name === 'noformat') {
+        // Code is never parsed for formatting
+        const codeBlock: AdfNode = { type: 'codeBlock', content: [] };
+        const language = name === 'code' ? parseMacroParams(params).language : undefined;
+        if (language) codeBlock.attrs = { language };
+        const code = body.join('\n');
+        if (code) codeBlock.content = [{ type: 'text', text: code }];
+        blocks.push(codeBlock);
+      } else if (name === 'quote') {
+        blocks.push({ type: 'blockquote', content: parseBlocks(body) });
+      } else {
+        const content = parseBlocks(body);
+        const title = parseMacroParams(params).title;
+        if (title) {
+          content.unshift({ type: 'paragraph', content: [{ type: 'text', text: title, marks: [{ type: 'strong' }] }] });
+        }
+        blocks.push({
+          type: 'panel',
+          attrs: { panelType: PANEL_MACROS[name] || 'info' },
+          content,
+        });
+      }
+      continue;
+    }
+
+    const heading = line.match(HEADING_PATTERN);
+    if (heading) {
+      blocks.push({
+        type: 'heading',
+        attrs: { level: parseInt(heading[1], 10) },
+        content: parseInline(heading[2].trim()),
+      });
+      i++;
+      continue;
+    }
+
+    if (RULE_PATTERN.test(line)) {
+      blocks.push({ type: 'rule' });
+      i++;
+      continue;
+    }
+
+    const quote = line.match(QUOTE_LINE_PATTERN);
+    if (quote) {
+      blocks.push({ type: 'blockquote', content: [{ type: 'paragraph', content: parseInline(quote[1]) }] });
+      i++;
+      continue;
+    }
+
+    if (line.trimStart().startsWith('|')) {
+      const rows: AdfNode[] = [];
+      while (i < lines.length && lines[i].trimStart().startsWith('|')) {
+        rows.push(parseTableRow(lines[i].trim()));
+        i++;
+      }
+      blocks.push({
+        type: 'table',
+        attrs: { isNumberColumnEnabled: false, layout: 'default' },
+        content: rows,
+      });
+      continue;
+    }
+
+    if (LIST_PATTERN.test(line)) {
+      const items: Array<{ prefix: string; text: string }> = [];
+      while (i < lines.length && LIST_PATTERN.test(lines[i]) && !RULE_PATTERN.test(lines[i])) {
+        const [, prefix, text] = lines[i].match(LIST_PATTERN)!;
+        items.push({ prefix: prefix.replace(/-/g, '*'), text });
+        i++;
+      }
+      blocks.push(...buildLists(items, 0));
+      continue;
+    }
+
+    // Paragraph: consecutive lines up to a blank line or another block
+    const paragraphLines: string[] = [line.trim()];
+    i++;
+    while (i < lines.length && !isBlank(lines[i]) && !startsBlock(lines[i])) {
+      paragraphLines.push(lines[i].trim());
+      i++;
+    }
+    blocks.push(parseParagraph(paragraphLines));
+  }
+
+  return blocks;
+}
+
+function buildLists(items: Array<{ prefix: string; text: string }>, level: number): AdfNode[] {
+  const lists: AdfNode[] = [];
+  let i = 0;
+
+  while (i < items.length) {
+    const typeChar = items[i].prefix[level];
+    const list: AdfNode = {
+      type: typeChar === '#' ? 'orderedList' : 'bulletList',
+      content: [],
+    };
+    if (typeChar === '#') list.attrs = { order: 1 };
+
+    while (i < items.length && items[i].prefix[level] === typeChar) {
+      const item = items[i];
+      if (item.prefix.length === level + 1) {
+        list.content!.push({
+          type: 'listItem',
+          content: [{ type: 'paragraph', content: parseInline(item.text) }],
+        });
+        i++;
+        continue;
+      }
+
+      // Deeper items nest under the previous item
+      let end = i;
+      while (end < items.length && items[end].prefix.length > level + 1 && items[end].prefix[level] === typeChar) end++;
+      if (list.content!.length === 0) {
+        list.content!.push({ type: 'listItem', content: [{ type: 'paragraph', content: [] }] });
+      }
+      const parent = list.content![list.content!.length - 1];
+      parent.content!.push(...buildLists(items.slice(i, end), level + 1));
+      i = end;
+    }
+
+    lists.push(list);
+  }
+
+  return lists;
+}
+
+function parseTableRow(line: string): AdfNode {
+  const cells: AdfNode[] = [];
+  let i = 0;
+
+  while (i < line.length) {
+    const header = line.startsWith('||', i);
+    i += header ? 2 : 1;
+
+    // Read up to the next unescaped cell delimiter outside links and monospace
+    let text = '';
+    let depth = 0;
+    while (i < line.length) {
+      if (line[i] === '\\' && i + 1 < line.length) {
+        text += line.slice(i, i + 2);
+        i += 2;
+        continue;
+      }
+      if (line.startsWith('{{', i)) {
+        const close = line.indexOf('}}', i + 2);
+        if (close !== -1) {
+          text += line.slice(i, close + 2);
+          i = close + 2;
+          continue;
+        }
+      }
+      if (line[i] === '[') depth++;
+      if (line[i] === ']' && depth > 0) depth--;
+      if (line[i] === '|' && depth === 0) break;
+      text += line[i];
+      i++;
+    }
+
+    // Trailing delimiter closes the row
+    if (i >= line.length && text.trim() === '' && cells.length > 0) break;
+
+    cells.push({
+      type: header ? 'tableHeader' : 'tableCell',
+      attrs: {},
+      content: [{ type: 'paragraph', content: parseInline(text.trim()) }],
+    });
+  }
+
+  return { type: 'tableRow', content: cells };
+}
+
+function parseParagraph(paragraphLines: string[]): AdfNode {
+  // A paragraph holding only an external image becomes a media block
+  if (paragraphLines.length === 1) {
+    const image = paragraphLines[0].match(/^!(https?:\/\/[^|!\s]+)(?:\|([^!]*))?!$/);
+    if (image) {
+      const alt = parseMacroParams(image[2]?.replace(/,/g, '|')).alt || '';
+      return {
+        type: 'mediaSingle',
+        attrs: { layout: 'center' },
+        content: [{ type: 'media', attrs: { type: 'external', url: image[1], alt } }],
+      };
+    }
+  }
+
+  return { type: 'paragraph', content: parseInline(paragraphLines.join('\n')) };
+}
+
+// Inline parsing
+
+const WIKI_MARKS: Record<string, AdfMark> = {
+  '*': { type: 'strong' },
+  '_': { type: 'em' },
+  '??': { type: 'em' },
+  '-': { type: 'strike' },
+  '+': { type: 'underline' },
+  '^': { type: 'subsup', attrs: { type: 'sup' } },
+  '~': { type: 'subsup', attrs: { type: 'sub' } },
+};
+
+function parseInline(source: string, marks: AdfMark[] = []): AdfNode[] {
+  const nodes: AdfNode[] = [];
+  let buffer = '';
+  let i = 0;
+
+  const flush = () => {
+    if (buffer) {
+      pushText(nodes, buffer, marks);
+      buffer = '';
+    }
+  };
+
+  while (i < source.length) {
+    const ch = source[i];
+
+    // Forced line break
+    if (source.startsWith('\\\\', i)) {
+      flush();
+      nodes.push({ type: 'hardBreak' });
+      i += 2;
+      continue;
+    }
+
+    if (ch === '\\' && i + 1 < source.length) {
+      buffer += source[i + 1];
+      i += 2;
+      continue;
+    }
+
+    if (ch === '\n') {
+      flush();
+      nodes.push({ type: 'hardBreak' });
+      i++;
+      continue;
+    }
+
+    if (source.startsWith('{{', i)) {
+      const close = source.indexOf('}}', i + 2);
+      if (close !== -1) {
+        flush();
+        const linkMarks = marks.filter(mark => mark.type === 'link');
+        pushText(nodes, source.slice(i + 2, close), [...linkMarks, { type: 'code' }]);
+        i = close + 2;
+        continue;
+      }
+    }
+
+    if (ch === '{') {
+      // Color and other inline macros keep their content but drop the styling
+      const color = source.slice(i).match(/^\{color(?::[^}]*)?\}/);
+      if (color) {
+        flush();
+        i += color[0].length;
+        continue;
+      }
+    }
+
+    if (ch === '[') {
+      const close = findClosingBracket(source, i);
+      if (close !== -1) {
+        const inner = source.slice(i + 1, close);
+        flush();
+        nodes.push(...parseLink(inner, marks));
+        i = close + 1;
+        continue;
+      }
+    }
+
+    if (ch === '!') {
+      const image = source.slice(i).match(/^!([^\s!|][^!|\n]*?)(?:\|[^!\n]*)?!/);
+      if (image && (i === 0 || /[\s([]/.test(source[i - 1]))) {
+        flush();
+        const target = image[1];
+        pushText(nodes, target, /^https?:/.test(target) ? [...marks, { type: 'link', attrs: { href: target } }] : marks);
+        i += image[0].length;
+        continue;
+      }
+    }
+
+    if (ch === 'h' && !marks.some(mark => mark.type === 'link') && (i === 0 || !/[\w/]/.test(source[i - 1]))) {
+      const url = source.slice(i).match(/^https?:\/\/[^\s<>()[\]|]*[^\s<>()[\]|.,;:!?'"*_~]/);
+      if (url) {
+        flush();
+        pushText(nodes, url[0], [...marks, { type: 'link', attrs: { href: url[0] } }]);
+        i += url[0].length;
+        continue;
+      }
+    }
+
+    const emphasis = matchEmphasis(source, i);
+    if (emphasis) {
+      flush();
+      const mark = WIKI_MARKS[emphasis.delimiter];
+      const nextMarks = marks.some(existing => existing.type === mark.type) ? marks : [...marks, mark];
+      nodes.push(...parseInline(emphasis.inner, nextMarks));
+      i = emphasis.end;
+      continue;
+    }
+
+    buffer += ch;
+    i++;
+  }
+
+  flush();
+  return nodes;
+}
+
+function findClosingBracket(source: string, start: number): number {
+  for (let i = start + 1; i < source.length; i++) {
+    if (source[i] === '\\') {
+      i++;
+      continue;
+    }
+    if (source[i] === '\n' || source[i] === '[') return -1;
+    if (source[i] === ']') return i;
+  }
+  return -1;
+}
+
+function parseLink(inner: string, marks: AdfMark[]): AdfNode[] {
+  // User mentions: [~username] on JIRA Server, [~accountid:id] on JIRA Cloud
+  const mention = inner.match(/^~(?:accountid:)?(.+)$/);
+  if (mention) {
+    return [{ type: 'mention', attrs: { id: mention[1], text: `@${mention[1]}` } }];
+  }
+
+  // Split on the last unescaped pipe: [text|url]
+  let separator = -1;
+  for (let i = 0; i < inner.length; i++) {
+    if (inner[i] === '\\') {
+      i++;
+      continue;
+    }
+    if (inner[i] === '|') separator = i;
+  }
+
+  const text = separator === -1 ? inner : inner.slice(0, separator);
+  const href = (separator === -1 ? inner : inner.slice(separator + 1)).trim();
+
+  // Anchors and attachment references have no external target
+  if (href.startsWith('#') || href.startsWith('^')) {
+    return parseInline(separator === -1 ? href.slice(1) : text, marks);
+  }
+
+  const linkMarks = [...marks, { type: 'link', attrs: { href } }];
+  if (separator === -1) {
+    const nodes: AdfNode[] = [];
+    pushText(nodes, href, linkMarks);
+    return nodes;
+  }
+  return parseInline(text, linkMarks);
+}
+
+function matchEmphasis(source: string, start: number): { delimiter: string; inner: string; end: number } | null {
+  const delimiter = source.startsWith('??', start) ? '??' : source[start];
+  if (!WIKI_MARKS[delimiter]) return null;
+
+  const intraword = WIKI_INTRAWORD_CHARS.includes(delimiter);
+  const before = source[start - 1];
+  const afterOpen = source[start + delimiter.length];
+  if (!intraword && before !== undefined && /[A-Za-z0-9]/.test(before)) return null;
+  if (afterOpen === undefined || /\s/.test(afterOpen) || afterOpen === delimiter[0]) return null;
+
+  // Formatting never spans lines
+  for (let i = start + delimiter.length + 1; i < source.length; i++) {
+    const ch = source[i];
+    if (ch === '\n') return null;
+    if (ch === '\\') {
+      i++;
+      continue;
+    }
+    if (source.startsWith('{{', i)) {
+      const close = source.indexOf('}}', i + 2);
+      if (close !== -1) {
+        i = close + 1;
+        continue;
+      }
+    }
+    if (!source.startsWith(delimiter, i)) continue;
+
+    const beforeClose = source[i - 1];
+    const afterClose = source[i + delimiter.length];
+    if (/\s/.test(beforeClose)) continue;
+    if (!intraword && afterClose !== undefined && /[A-Za-z0-9]/.test(afterClose)) continue;
+
+    return {
+      delimiter,
+      inner: source.slice(start + delimiter.length, i),
+      end: i + delimiter.length,
+    };
+  }
+  return null;
+}
+
+function pushText(nodes: AdfNode[], text: string, marks: AdfMark[]): void {
+  if (!text) return;
+  const last = nodes[nodes.length - 1];
+  if (last && last.type === 'text' && JSON.stringify(last.marks || []) === JSON.stringify(marks)) {
+    last.text += text;
+    return;
+  }
+  const node: AdfNode = { type: 'text', text };
+  if (marks.length > 0) node.marks = marks.map(mark => ({ ...mark }));
+  nodes.push(node);
+}
@@ -0,0 +1,128 @@
+/**
+ * Worklog helpers
+ * Parses JIRA durations ("1w 2d 3h 30m") and groups worklogs into a per-user, per-day timesheet
+ */
+
+// JIRA's default time tracking settings
+export interface WorkingTime {
+  hoursPerDay: number;
+  daysPerWeek: number;
+}
+
+export const DEFAULT_WORKING_TIME: WorkingTime = { hoursPerDay: 8, daysPerWeek: 5 };
+
+const DURATION_PART = /(\d+(?:\.\d+)?)\s*(w|d|h|m)\b/g;
+
+function unitSeconds(unit: string, workingTime: WorkingTime): number {
+  switch (unit) {
+    case 'w': return workingTime.daysPerWeek * workingTime.hoursPerDay * 3600;
+    case 'd': return workingTime.hoursPerDay * 3600;
+    case 'h': return 3600;
+    default: return 60;
+  }
+}
+
+export function parseDuration(duration: string, workingTime: WorkingTime = DEFAULT_WORKING_TIME): number {
+  const text = duration.trim().toLowerCase();
+  let seconds = 0;
+  let matched = '';
+
+  for (const [part, amount, unit] of text.matchAll(DURATION_PART)) {
+    seconds += parseFloat(amount) * unitSeconds(unit, workingTime);
+    matched += part;
+  }
+
+  // Every character apart from whitespace must belong to a part, so "1h30" or "90 minutes" are rejected
+  if (!matched || matched.replace(/\s/g, '') !== text.replace(/\s/g, '') || seconds <= 0) {
+    throw new Error(`Invalid duration "${duration}": use JIRA's format, e.g. "1h 30m", "2d" or "1w 2d"`);
+  }
+  return Math.round(seconds);
+}
+
+// JIRA only accepts "yyyy-MM-dd'T'HH:mm:ss.SSSZ" for worklog start times
+export function toJiraTimestamp(value: string | Date): string {
+  const date = typeof value === 'string' ? new Date(value) : value;
+  if (isNaN(date.getTime())) {
+    throw new Error(`Invalid date "${value}": use an ISO 8601 timestamp, e.g. 2024-05-01T09:00:00Z`);
+  }
+  return date.toISOString().replace('Z', '+0000');
+}
+
+export interface TimesheetEntry {
+  issueKey: string;
+  author: string;
+  authorId?: string;
+  // As reported by JIRA, in the worklog author's time zone
+  started: string;
+  timeSpentSeconds: number;
+}
+
+export interface TimesheetDay {
+  date: string;
+  seconds: number;
+  timeSpent: string;
+  issues: Record<string, string>;
+}
+
+export interface TimesheetUser {
+  author: string;
+  authorId?: string;
+  seconds: number;
+  timeSpent: string;
+  days: TimesheetDay[];
+}
+
+export interface Timesheet {
+  from: string;
+  to: string;
+  seconds: number;
+  timeSpent: string;
+  users: TimesheetUser[];
+}
+
+// Hours and minutes only, so totals don't depend on how many hours the instance counts as a day
+function formatHours(seconds: number): string {
+  const minutes = Math.round(seconds / 60);
+  const parts = [Math.floor(minutes / 60) && `${Math.floor(minutes / 60)}h`, minutes % 60 && `${minutes % 60}m`];
+  return parts.filter(Boolean).join(' ') || '0m';
+}
+
+// Groups worklogs started between from and to (inclusive dates, YYYY-MM-DD) by author and day
+export function summarizeTimesheet(entries: TimesheetEntry[], from: string, to: string): Timesheet {
+  const users = new Map<string, { author: string; authorId?: string; days: Map<string, Map<string, number>> }>();
+
+  for (const entry of entries) {
+    const date = entry.started.slice(0, 10);
+    if (date < from || date > to) continue;
+
+    const userKey = entry.authorId || entry.author;
+    if (!users.has(userKey)) {
+      users.set(userKey, { author: entry.author, authorId: entry.authorId, days: new Map() });
+    }
+    const days = users.get(userKey)!.days;
+    if (!days.has(date)) days.set(date, new Map());
+    const issues = days.get(date)!;
+    issues.set(entry.issueKey, (issues.get(entry.issueKey) || 0) + entry.timeSpentSeconds);
+  }
+
+  const summarized: TimesheetUser[] = [...users.values()]
+    .map(user => {
+      const days: TimesheetDay[] = [...user.days.entries()]
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([date, issues]) => {
+          const seconds = [...issues.values()].reduce((sum, value) => sum + value, 0);
+          return {
+            date,
+            seconds,
+            timeSpent: formatHours(seconds),
+            issues: Object.fromEntries([...issues.entries()].map(([key, value]) => [key, formatHours(value)])),
+          };
+        });
+      const seconds = days.reduce((sum, day) => sum + day.seconds, 0);
+      return { author: user.author, authorId: user.authorId, seconds, timeSpent: formatHours(seconds), days };
+    })
+    .sort((a, b) => a.author.localeCompare(b.author));
+
+  const seconds = summarized.reduce((sum, user) => sum + user.seconds, 0);
+  return { from, to, seconds, timeSpent: formatHours(seconds), users: summarized };
+}
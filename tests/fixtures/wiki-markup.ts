@@ -0,0 +1,206 @@
+/**
+ * Wiki Markup Conversion Fixtures
+ * Markdown and JIRA wiki markup pairs that must convert into each other in both directions
+ */
+
+export interface WikiMarkupFixture {
+  name: string;
+  markdown: string;
+  wiki: string;
+}
+
+export const bidirectionalFixtures: WikiMarkupFixture[] = [
+  {
+    name: 'headings',
+    markdown: '# Title\n\n### Section',
+    wiki: 'h1. Title\n\nh3. Section',
+  },
+  {
+    name: 'bold and italic',
+    markdown: '**bold** and _italic_',
+    wiki: '*bold* and _italic_',
+  },
+  {
+    name: 'nested emphasis',
+    markdown: '**bold _and italic_**',
+    wiki: '*bold _and italic_*',
+  },
+  {
+    name: 'strikethrough',
+    markdown: 'this is ~~gone~~ now',
+    wiki: 'this is -gone- now',
+  },
+  {
+    name: 'inline code',
+    markdown: 'run `npm test` first',
+    wiki: 'run {{npm test}} first',
+  },
+  {
+    name: 'code block with language keeps its contents verbatim',
+    markdown: '```js\nconst a = **b** + `c`;\n```',
+    wiki: '{code:js}\nconst a = **b** + `c`;\n{code}',
+  },
+  {
+    name: 'code block without language',
+    markdown: '```\nplain [text](here)\n```',
+    wiki: '{code}\nplain [text](here)\n{code}',
+  },
+  {
+    name: 'links',
+    markdown: 'see [the docs](https://example.com/docs)',
+    wiki: 'see [the docs|https://example.com/docs]',
+  },
+  {
+    name: 'bare URLs',
+    markdown: 'visit https://example.com/path today',
+    wiki: 'visit https://example.com/path today',
+  },
+  {
+    name: 'nested bullet lists',
+    markdown: '- one\n  - nested\n  - again\n- two',
+    wiki: '* one\n** nested\n** again\n* two',
+  },
+  {
+    name: 'numbered lists',
+    markdown: '1. first\n2. second',
+    wiki: '# first\n# second',
+  },
+  {
+    name: 'mixed nested lists',
+    markdown: '1. step\n   - detail\n2. next',
+    wiki: '# step\n#* detail\n# next',
+  },
+  {
+    name: 'tables',
+    markdown: '| Name | Value |\n| --- | --- |\n| a | **b** |',
+    wiki: '||Name||Value||\n|a|*b*|',
+  },
+  {
+    name: 'single line blockquote',
+    markdown: '> quoted text',
+    wiki: 'bq. quoted text',
+  },
+  {
+    name: 'multi paragraph blockquote',
+    markdown: '> one\n>\n> two',
+    wiki: '{quote}\none\n\ntwo\n{quote}',
+  },
+  {
+    name: 'panels',
+    markdown: '> [!WARNING]\n> Heads up',
+    wiki: '{warning}\nHeads up\n{warning}',
+  },
+  {
+    name: 'horizontal rule',
+    markdown: 'above\n\n---\n\nbelow',
+    wiki: 'above\n\n----\n\nbelow',
+  },
+  {
+    name: 'images',
+    markdown: '![diagram](https://example.com/d.png)',
+    wiki: '!https://example.com/d.png|alt=diagram!',
+  },
+  {
+    name: 'line breaks',
+    markdown: 'line one\nline two',
+    wiki: 'line one\nline two',
+  },
+  {
+    name: 'mentions',
+    markdown: 'ping [@jdoe](mention:jdoe)',
+    wiki: 'ping [~jdoe]',
+  },
+  {
+    name: 'escaped formatting characters',
+    markdown: '\\*not bold\\* and \\[not a link\\]',
+    wiki: '\\*not bold\\* and \\[not a link\\]',
+  },
+  {
+    name: 'plain punctuation stays readable',
+    markdown: 'a - b + c, well-known snake_case',
+    wiki: 'a - b + c, well-known snake_case',
+  },
+];
+
+// Wiki markup that has no exact Markdown counterpart, converted one way
+export const wikiToMarkdownFixtures: WikiMarkupFixture[] = [
+  {
+    name: 'noformat blocks',
+    wiki: '{noformat}\n*raw*\n{noformat}',
+    markdown: '```\n*raw*\n```',
+  },
+  {
+    name: 'code macro with named language parameter',
+    wiki: '{code:language=python|title=x.py}\nprint(1)\n{code}',
+    markdown: '```python\nprint(1)\n```',
+  },
+  {
+    name: 'tip panels and titles',
+    wiki: '{tip:title=Hint}\nUse cache\n{tip}',
+    markdown: '> [!SUCCESS]\n> **Hint**\n>\n> Use cache',
+  },
+  {
+    name: 'underline, superscript and citations lose their styling',
+    wiki: '+under+ x^2^ ??cite??',
+    markdown: 'under x2 _cite_',
+  },
+  {
+    name: 'colored text',
+    wiki: '{color:red}alert{color}',
+    markdown: 'alert',
+  },
+  {
+    name: 'dash bullets',
+    wiki: '- one\n- two',
+    markdown: '- one\n- two',
+  },
+  {
+    name: 'forced line breaks',
+    wiki: 'one\\\\two',
+    markdown: 'one\ntwo',
+  },
+  {
+    name: 'cloud mentions',
+    wiki: '[~accountid:5b10ac8d82e05b22cc7d4ef5]',
+    markdown: '[@5b10ac8d82e05b22cc7d4ef5](mention:5b10ac8d82e05b22cc7d4ef5)',
+  },
+  {
+    name: 'table cells with links',
+    wiki: '||Link||\n|[docs|https://example.com]|',
+    markdown: '| Link |\n| --- |\n| [docs](https://example.com) |',
+  },
+];
+
+// Markdown that has no exact wiki counterpart, converted one way
+export const markdownToWikiFixtures: WikiMarkupFixture[] = [
+  {
+    name: 'alternate emphasis delimiters',
+    markdown: '__bold__ and *italic*',
+    wiki: '*bold* and _italic_',
+  },
+  {
+    name: 'star and plus bullets',
+    markdown: '* one\n+ two',
+    wiki: '* one\n* two',
+  },
+  {
+    name: 'formatting characters inside inline code',
+    markdown: 'use `**kwargs` and `a_b_c`',
+    wiki: 'use {{**kwargs}} and {{a_b_c}}',
+  },
+  {
+    name: 'task lists',
+    markdown: '- [ ] open\n- [x] done',
+    wiki: '* (x) open\n* (/) done',
+  },
+  {
+    name: 'pipes in table cells',
+    markdown: '| A |\n| --- |\n| x \\| y |',
+    wiki: '||A||\n|x \\| y|',
+  },
+  {
+    name: 'literal list markers in paragraphs',
+    markdown: 'Totals:\n\\- none',
+    wiki: 'Totals:\n\\- none',
+  },
+];
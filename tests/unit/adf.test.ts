@@ -0,0 +1,164 @@
+/**
+ * ADF Conversion Unit Tests
+ * Tests Markdown → ADF conversion and ADF → Markdown rendering
+ */
+
+import { describe, expect, test } from '@jest/globals';
+import { markdownToAdf, adfToMarkdown, isAdfDocument } from '../../src/utils/adf.js';
+
+describe('ADF Conversion', () => {
+  describe('markdownToAdf', () => {
+    test('should build a versioned document', () => {
+      const doc = markdownToAdf('Hello');
+      expect(doc).toEqual({
+        type: 'doc',
+        version: 1,
+        content: [{ type: 'paragraph', content: [{ type: 'text', text: 'Hello' }] }],
+      });
+      expect(isAdfDocument(doc)).toBe(true);
+    });
+
+    test('should convert headings and inline marks', () => {
+      const doc = markdownToAdf('## Title\n\n**bold** _em_ ~~gone~~ `code`');
+      expect(doc.content[0]).toEqual({
+        type: 'heading',
+        attrs: { level: 2 },
+        content: [{ type: 'text', text: 'Title' }],
+      });
+      expect(doc.content[1].content).toEqual([
+        { type: 'text', text: 'bold', marks: [{ type: 'strong' }] },
+        { type: 'text', text: ' ' },
+        { type: 'text', text: 'em', marks: [{ type: 'em' }] },
+        { type: 'text', text: ' ' },
+        { type: 'text', text: 'gone', marks: [{ type: 'strike' }] },
+        { type: 'text', text: ' ' },
+        { type: 'text', text: 'code', marks: [{ type: 'code' }] },
+      ]);
+    });
+
+    test('should not parse formatting inside code', () => {
+      const doc = markdownToAdf('```ts\nconst a = **b** + `c`;\n```\n\nUse `**raw**` here');
+      expect(doc.content[0]).toEqual({
+        type: 'codeBlock',
+        attrs: { language: 'ts' },
+        content: [{ type: 'text', text: 'const a = **b** + `c`;' }],
+      });
+      expect(doc.content[1].content?.[1]).toEqual({ type: 'text', text: '**raw**', marks: [{ type: 'code' }] });
+    });
+
+    test('should keep underscores inside words literal', () => {
+      const doc = markdownToAdf('set snake_case_name now');
+      expect(doc.content[0].content).toEqual([{ type: 'text', text: 'set snake_case_name now' }]);
+    });
+
+    test('should convert nested lists', () => {
+      const doc = markdownToAdf('- one\n  - nested\n- two\n\n3. third\n4. fourth');
+      const bullet = doc.content[0];
+      expect(bullet.type).toBe('bulletList');
+      expect(bullet.content).toHaveLength(2);
+      expect(bullet.content?.[0].content?.[1].type).toBe('bulletList');
+
+      const ordered = doc.content[1];
+      expect(ordered.type).toBe('orderedList');
+      expect(ordered.attrs).toEqual({ order: 3 });
+    });
+
+    test('should convert tables, panels and mentions', () => {
+      const doc = markdownToAdf([
+        '| Name | Value |',
+        '| --- | --- |',
+        '| a | `b|c` |',
+        '',
+        '> [!WARNING]',
+        '> Careful',
+        '',
+        'Ping [@Jane Doe](mention:abc-123)',
+      ].join('\n'));
+
+      const table = doc.content[0];
+      expect(table.type).toBe('table');
+      expect(table.content?.[0].content?.[0].type).toBe('tableHeader');
+      expect(table.content?.[1].content?.[1].content?.[0].content).toEqual([
+        { type: 'text', text: 'b|c', marks: [{ type: 'code' }] },
+      ]);
+
+      expect(doc.content[1]).toEqual({
+        type: 'panel',
+        attrs: { panelType: 'warning' },
+        content: [{ type: 'paragraph', content: [{ type: 'text', text: 'Careful' }] }],
+      });
+
+      expect(doc.content[2].content?.[1]).toEqual({
+        type: 'mention',
+        attrs: { id: 'abc-123', text: '@Jane Doe' },
+      });
+    });
+
+    test('should convert links and bare URLs', () => {
+      const doc = markdownToAdf('See [docs](https://example.com/a) or https://example.com/b.');
+      expect(doc.content[0].content).toEqual([
+        { type: 'text', text: 'See ' },
+        { type: 'text', text: 'docs', marks: [{ type: 'link', attrs: { href: 'https://example.com/a' } }] },
+        { type: 'text', text: ' or ' },
+        { type: 'text', text: 'https://example.com/b', marks: [{ type: 'link', attrs: { href: 'https://example.com/b' } }] },
+        { type: 'text', text: '.' },
+      ]);
+    });
+  });
+
+  describe('adfToMarkdown', () => {
+    test('should render an empty document', () => {
+      expect(adfToMarkdown(null)).toBe('');
+      expect(adfToMarkdown({ type: 'doc', version: 1, content: [] } as any)).toBe('');
+    });
+
+    test('should render nodes that have no Markdown source', () => {
+      const markdown = adfToMarkdown({
+        type: 'doc',
+        content: [
+          {
+            type: 'paragraph',
+            content: [
+              { type: 'emoji', attrs: { shortName: ':smile:', text: '😄' } },
+              { type: 'text', text: ' due ' },
+              { type: 'date', attrs: { timestamp: '1735689600000' } },
+              { type: 'hardBreak' },
+              { type: 'inlineCard', attrs: { url: 'https://example.com' } },
+            ],
+          },
+          {
+            type: 'expand',
+            attrs: { title: 'Details' },
+            content: [{ type: 'paragraph', content: [{ type: 'text', text: 'Hidden' }] }],
+          },
+        ],
+      });
+      expect(markdown).toBe('😄 due 2025-01-01\nhttps://example.com\n\n**Details**\n\nHidden');
+    });
+
+    test('should escape Markdown characters in plain text', () => {
+      const markdown = adfToMarkdown({
+        type: 'doc',
+        content: [{ type: 'paragraph', content: [{ type: 'text', text: 'a * b [c] _d_ snake_case' }] }],
+      });
+      expect(markdown).toBe('a \\* b \\[c\\] \\_d\\_ snake_case');
+    });
+  });
+
+  describe('round trips', () => {
+    const samples = [
+      '# Heading\n\nSome **bold** and _italic_ text with `code`.',
+      '- one\n  - nested **item**\n- two\n\n1. first\n2. second',
+      '| Name | Value |\n| --- | --- |\n| a | b |',
+      '> [!INFO]\n> Panel text\n\n> Quoted',
+      '```js\nconst x = `y`;\n```',
+      'Hi [@Jane Doe](mention:abc-123), see [docs](https://example.com/a)',
+      '- [ ] open\n- [x] closed',
+      'Line one\nLine two\n\n---\n\n![diagram](https://example.com/d.png)',
+    ];
+
+    test.each(samples)('should survive Markdown → ADF → Markdown: %s', (markdown) => {
+      expect(adfToMarkdown(markdownToAdf(markdown))).toBe(markdown);
+    });
+  });
+});
@@ -0,0 +1,43 @@
+/**
+ * Attachment Unit Tests
+ * Tests size limits and text detection for attachments
+ */
+
+import { describe, expect, test } from '@jest/globals';
+import {
+  DEFAULT_ATTACHMENT_LIMITS,
+  getAttachmentLimits,
+  guessMimeType,
+  isTextAttachment,
+  parseByteSize,
+} from '../../src/utils/attachments.js';
+
+describe('Attachments', () => {
+  test('should parse sizes with units', () => {
+    expect(parseByteSize('2048')).toBe(2048);
+    expect(parseByteSize('512KB')).toBe(512 * 1024);
+    expect(parseByteSize('1.5 mb')).toBe(1.5 * 1024 * 1024);
+    expect(() => parseByteSize('big')).toThrow('Invalid size "big"');
+  });
+
+  test('should read limits from the environment', () => {
+    expect(getAttachmentLimits({})).toEqual(DEFAULT_ATTACHMENT_LIMITS);
+    expect(getAttachmentLimits({ JIRA_MAX_ATTACHMENT_SIZE: '25MB', JIRA_MAX_INLINE_ATTACHMENT_SIZE: '1KB' })).toEqual({
+      maxBytes: 25 * 1024 * 1024,
+      maxInlineBytes: 1024,
+    });
+  });
+
+  test('should detect text attachments by type or extension', () => {
+    expect(isTextAttachment('build.log', 'application/octet-stream')).toBe(true);
+    expect(isTextAttachment('data', 'application/json; charset=utf-8')).toBe(true);
+    expect(isTextAttachment('notes', 'text/plain')).toBe(true);
+    expect(isTextAttachment('screenshot.png', 'image/png')).toBe(false);
+  });
+
+  test('should guess upload types from the file name', () => {
+    expect(guessMimeType('Screenshot.PNG')).toBe('image/png');
+    expect(guessMimeType('trace.log')).toBe('text/plain');
+    expect(guessMimeType('core.dump')).toBe('application/octet-stream');
+  });
+});
@@ -0,0 +1,91 @@
+/**
+ * Field Registry Unit Tests
+ * Tests field discovery, createmeta loading and name resolution
+ */
+
+import { describe, expect, test, jest } from '@jest/globals';
+import { DEFAULT_COMMON_FIELDS, FieldRegistry } from '../../src/services/fieldRegistry.js';
+
+const notFound = () => Object.assign(new Error('Request failed with status code 404'), { isAxiosError: true, response: { status: 404 } });
+
+const FIELDS = [
+  { id: 'summary', name: 'Summary', custom: false, schema: { type: 'string', system: 'summary' } },
+  { id: 'customfield_10100', name: 'Epic Link', custom: true, schema: { type: 'any', custom: 'com.pyxis.greenhopper.jira:gh-epic-link' } },
+  { id: 'customfield_10200', name: 'Story point estimate', custom: true, schema: { type: 'number' } },
+  { id: 'customfield_10050', name: 'Team', custom: true, schema: { type: 'option' } },
+];
+
+describe('Field Registry', () => {
+  test('should discover common custom fields by name', async () => {
+    const get = jest.fn(async (..._args: any[]) => ({ data: FIELDS }));
+    const registry = new FieldRegistry(() => ({ get }) as any);
+
+    expect(await registry.getCommonFields()).toEqual({
+      epicLink: 'customfield_10100',
+      storyPoints: 'customfield_10200',
+      sprint: DEFAULT_COMMON_FIELDS.sprint,
+    });
+    expect((await registry.findField('team'))?.id).toBe('customfield_10050');
+    expect((await registry.findField('storyPoints'))?.id).toBe('customfield_10200');
+    expect(get).toHaveBeenCalledTimes(1);
+  });
+
+  test('should fall back to default field IDs when fields can\'t be read', async () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const registry = new FieldRegistry(() => ({ get: async () => { throw Object.assign(new Error('Forbidden'), { response: { status: 403 } }); } }) as any);
+
+    expect(await registry.getCommonFields()).toEqual(DEFAULT_COMMON_FIELDS);
+    expect(warn).toHaveBeenCalledWith('Limited JIRA permissions: Using default field mappings');
+    warn.mockRestore();
+  });
+
+  test('should load paged createmeta per issue type', async () => {
+    const get = jest.fn(async (...args: any[]) => {
+      const [url, config] = args;
+      if (url === '/issue/createmeta/TEST/issuetypes') {
+        return { data: { issueTypes: [{ id: '1', name: 'Story' }, { id: '2', name: 'Subtask', subtask: true }], total: 2 } };
+      }
+      const page = config.params.startAt === 0
+        ? [{ fieldId: 'summary', name: 'Summary', required: true, schema: { type: 'string' } }]
+        : [{ fieldId: 'customfield_10050', name: 'Team', required: false, schema: { type: 'option' }, allowedValues: [{ value: 'Platform' }] }];
+      return { data: { fields: page, total: 2 } };
+    });
+    const registry = new FieldRegistry(() => ({ get }) as any);
+
+    const meta = await registry.getCreateMeta('TEST', 'story');
+    await registry.getCreateMeta('TEST', 'Story');
+
+    expect(Object.keys(meta)).toEqual(['summary', 'customfield_10050']);
+    expect(meta.customfield_10050.allowedValues).toEqual([{ value: 'Platform' }]);
+    expect(get).toHaveBeenCalledTimes(3);
+    await expect(registry.getCreateMeta('TEST', 'Bug')).rejects.toThrow('Issue type "Bug" doesn\'t exist in TEST. Available: Story, Subtask');
+  });
+
+  test('should use the expanded createmeta on older JIRA Server', async () => {
+    const get = jest.fn(async (...args: any[]) => {
+      const [url, config] = args;
+      if (url !== '/issue/createmeta') throw notFound();
+      const issuetypes = config.params.expand
+        ? [{ id: '3', name: 'Task', fields: { summary: { name: 'Summary', required: true, schema: { type: 'string' } } } }]
+        : [{ id: '3', name: 'Task' }];
+      return { data: { projects: [{ key: 'TEST', issuetypes }] } };
+    });
+    const registry = new FieldRegistry(() => ({ get }) as any);
+
+    const meta = await registry.getCreateMeta('TEST', 'Task');
+
+    expect(meta).toEqual({ summary: { name: 'Summary', required: true, schema: { type: 'string' }, operations: undefined, allowedValues: undefined } });
+    expect(get).toHaveBeenLastCalledWith('/issue/createmeta', {
+      params: { projectKeys: 'TEST', issuetypeIds: '3', expand: 'projects.issuetypes.fields' }
+    });
+  });
+
+  test('should describe fields with their allowed values', () => {
+    expect(FieldRegistry.describeField('customfield_10050', {
+      name: 'Team',
+      required: true,
+      schema: { type: 'option', custom: 'com.atlassian.jira.plugin.system.customfieldtypes:select' },
+      allowedValues: [{ id: '10', value: 'Platform' }, { id: '11', value: 'Mobile' }]
+    })).toEqual({ id: 'customfield_10050', name: 'Team', custom: true, type: 'option', required: true, allowedValues: ['Platform', 'Mobile'] });
+  });
+});
@@ -0,0 +1,61 @@
+/**
+ * Field Values Unit Tests
+ * Tests conversion of plain values into JIRA field shapes
+ */
+
+import { describe, expect, test } from '@jest/globals';
+import { coerceFieldValue, FieldMeta } from '../../src/utils/fieldValues.js';
+
+const cloud = { legacyMode: false, richText: (markdown: string) => ({ type: 'doc', text: markdown }) };
+const server = { legacyMode: true, richText: (markdown: string) => `wiki:${markdown}` };
+
+const field = (type: string, extra: Partial<FieldMeta> = {}): FieldMeta => ({ name: type, schema: { type }, ...extra });
+
+describe('Field Values', () => {
+  test('should convert rich text fields per deployment', () => {
+    expect(coerceFieldValue('description', field('string'), '**bold**', cloud)).toEqual({ type: 'doc', text: '**bold**' });
+    expect(coerceFieldValue('description', field('string'), '**bold**', server)).toBe('wiki:**bold**');
+    expect(coerceFieldValue('customfield_1', field('string', { schema: { type: 'string', custom: 'x:textarea' } }), 'notes', server)).toBe('wiki:notes');
+    expect(coerceFieldValue('summary', field('string'), 'Title', cloud)).toBe('Title');
+  });
+
+  test('should identify users by accountId on Cloud and username on Server', () => {
+    expect(coerceFieldValue('assignee', field('user'), '5b10ac8d', cloud)).toEqual({ accountId: '5b10ac8d' });
+    expect(coerceFieldValue('assignee', field('user'), 'jdoe', server)).toEqual({ name: 'jdoe' });
+  });
+
+  test('should match allowed values case-insensitively', () => {
+    const components = field('array', {
+      schema: { type: 'array', items: 'component' },
+      allowedValues: [{ name: 'Backend' }, { name: 'Frontend' }],
+    });
+    expect(coerceFieldValue('components', components, ['backend', 'Frontend'], cloud)).toEqual([{ name: 'Backend' }, { name: 'Frontend' }]);
+    expect(coerceFieldValue('components', components, 'frontend', cloud)).toEqual([{ name: 'Frontend' }]);
+    expect(() => coerceFieldValue('components', components, ['Mobile'], cloud)).toThrow('"Mobile" is not allowed (allowed: Backend, Frontend)');
+  });
+
+  test('should validate numbers and dates', () => {
+    expect(coerceFieldValue('customfield_10016', field('number'), '3.5', cloud)).toBe(3.5);
+    expect(() => coerceFieldValue('customfield_10016', field('number'), 'lots', cloud)).toThrow('expects a number, got "lots"');
+    expect(coerceFieldValue('duedate', field('date'), '2024-06-30', cloud)).toBe('2024-06-30');
+    expect(() => coerceFieldValue('duedate', field('date'), '30/06/2024', cloud)).toThrow('expects a date as YYYY-MM-DD');
+  });
+
+  test('should clear optional fields only', () => {
+    expect(coerceFieldValue('duedate', field('date'), null, cloud)).toBeNull();
+    expect(coerceFieldValue('assignee', field('user'), '', cloud)).toBeNull();
+    expect(() => coerceFieldValue('summary', field('string', { required: true }), null, cloud)).toThrow('is required and cannot be cleared');
+  });
+
+  test('should set the sprint field to a single sprint ID', () => {
+    const sprint = field('array', { schema: { type: 'array', items: 'json', custom: 'com.pyxis.greenhopper.jira:gh-sprint' } });
+    expect(coerceFieldValue('customfield_10020', sprint, '42', cloud)).toBe(42);
+    expect(coerceFieldValue('customfield_10020', sprint, [42], server)).toBe(42);
+    expect(() => coerceFieldValue('customfield_10020', sprint, 'Sprint 7', cloud)).toThrow('expects a sprint ID, got "Sprint 7"');
+  });
+
+  test('should pass values already in JIRA shape through', () => {
+    expect(coerceFieldValue('priority', field('priority'), { id: '2' }, cloud)).toEqual({ id: '2' });
+    expect(() => coerceFieldValue('priority', field('priority'), ['High'], cloud)).toThrow('takes a single value, not a list');
+  });
+});
@@ -0,0 +1,65 @@
+/**
+ * Issue History Unit Tests
+ * Tests changelog normalization, filtering and time in status
+ */
+
+import { describe, expect, test } from '@jest/globals';
+import { filterHistory, formatElapsed, normalizeHistory, statusAge } from '../../src/utils/history.js';
+
+const histories = [
+  {
+    id: '2',
+    author: { displayName: 'Grace Hopper', accountId: 'gh-1' },
+    created: '2024-05-03T09:00:00.000+0000',
+    items: [
+      { field: 'status', fieldId: 'status', from: '1', fromString: 'To Do', to: '3', toString: 'In Progress' },
+      { field: 'assignee', fieldId: 'assignee', from: null, fromString: null, to: 'ada', toString: 'Ada Lovelace' },
+    ],
+  },
+  {
+    id: '1',
+    author: { displayName: 'Ada Lovelace', name: 'ada' },
+    created: '2024-05-01T09:00:00.000+0000',
+    items: [{ field: 'labels', fromString: '', toString: 'backend' }],
+  },
+];
+
+describe('Issue History', () => {
+  test('should normalize histories oldest first', () => {
+    const entries = normalizeHistory(histories);
+
+    expect(entries.map(entry => entry.id)).toEqual(['1', '2']);
+    expect(entries[0].authorId).toBe('ada');
+    expect(entries[1].changes[0]).toEqual({ field: 'status', fieldId: 'status', from: 'To Do', to: 'In Progress', fromId: '1', toId: '3' });
+    expect(entries[1].changes[1]).toEqual({ field: 'assignee', fieldId: 'assignee', from: null, to: 'Ada Lovelace', toId: 'ada' });
+  });
+
+  test('should filter by field and inclusive date range', () => {
+    const entries = normalizeHistory(histories);
+
+    expect(filterHistory(entries, { fields: ['Assignee'] }).map(entry => entry.changes.length)).toEqual([1]);
+    expect(filterHistory(entries, { until: '2024-05-01' }).map(entry => entry.id)).toEqual(['1']);
+    expect(filterHistory(entries, { since: '2024-05-02', fields: ['labels'] })).toEqual([]);
+    expect(() => filterHistory(entries, { since: 'last week' })).toThrow('Invalid date "last week"');
+  });
+
+  test('should measure time since the last status change', () => {
+    const entries = normalizeHistory(histories);
+    const now = new Date('2024-05-05T12:30:00Z');
+
+    expect(statusAge(entries, 'In Progress', '2024-04-30T09:00:00.000+0000', now)).toEqual({
+      status: 'In Progress',
+      since: '2024-05-03T09:00:00.000+0000',
+      seconds: 2 * 86400 + 3.5 * 3600,
+      duration: '2d 3h',
+    });
+    expect(statusAge([], 'To Do', '2024-05-05T12:00:00.000+0000', now).duration).toBe('30m');
+  });
+
+  test('should format elapsed time', () => {
+    expect(formatElapsed(0)).toBe('0m');
+    expect(formatElapsed(3600)).toBe('1h');
+    expect(formatElapsed(5400)).toBe('1h 30m');
+    expect(formatElapsed(3 * 86400)).toBe('3d');
+  });
+});
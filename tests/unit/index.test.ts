@@ -48,11 +48,49 @@ describe('MCP Server Index', () => {
       'update_ticket_status',
       'update_story_statuses',
       'analyze_story_status',
-      'get_available_transitions'
+      'get_available_transitions',
+      'search_jira_issues',
+      'move_ticket_to_status',
+      'apply_jira_plan',
+      'create_subtask',
+      'list_subtasks',
+      'edit_jira_ticket',
+      'list_jira_fields',
+      'list_jira_comments',
+      'edit_jira_comment',
+      'delete_jira_comment',
+      'log_work',
+      'list_worklogs',
+      'update_worklog',
+      'delete_worklog',
+      'get_timesheet',
+      'attach_file_to_ticket',
+      'list_attachments',
+      'download_attachment',
+      'list_boards',
+      'list_sprints',
+      'get_sprint_issues',
+      'move_issues_to_sprint',
+      'rank_issues',
+      'create_sprint',
+      'start_sprint',
+      'close_sprint',
+      'get_ticket_history',
+      'list_watchers',
+      'add_watcher',
+      'remove_watcher',
+      'notify_users',
+      'list_votes',
+      'add_vote',
+      'remove_vote',
+      'assign_ticket',
+      'balance_assignments',
+      'describe_jira_project',
+      'list_link_types'
     ];
     
-    // We expect exactly 13 tools as stated in the documentation
-    expect(expectedTools.length).toBe(13);
+    // We expect exactly 51 tools as stated in the documentation
+    expect(expectedTools.length).toBe(51);
     expect(expectedTools).toContain('get_jira_ticket');
     expect(expectedTools).toContain('create_jira_ticket');
     expect(expectedTools).toContain('create_project_hierarchy');
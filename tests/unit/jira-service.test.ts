@@ -3,17 +3,22 @@
  * Tests for the JiraService class functionality
  */
 
-import { describe, expect, test, jest, beforeEach } from '@jest/globals';
+import { describe, expect, test, jest, beforeEach, afterEach } from '@jest/globals';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
 
 // Mock axios
 jest.mock('axios', () => ({
+  __esModule: true,
   default: {
     create: jest.fn(() => ({
       get: jest.fn(),
       post: jest.fn(),
       put: jest.fn(),
       delete: jest.fn()
-    }))
+    })),
+    isAxiosError: (error: any) => error?.isAxiosError === true
   }
 }));
 
@@ -72,4 +77,1635 @@ describe('JIRA Service', () => {
     const serviceWithoutProject = new JiraService();
     expect(serviceWithoutProject).toBeDefined();
   });
+
+  // Inject a fake HTTP client so no request leaves the process
+  const createServiceWithClient = (client: any, legacyMode = false) => {
+    const service = new JiraService();
+    Object.assign(service, { client, v3Client: client, agileClient: client, initialized: true, isLegacyMode: legacyMode });
+    return service;
+  };
+
+  describe('searchIssues', () => {
+    test('should page with nextPageToken on JIRA Cloud', async () => {
+      const get = jest.fn(async (..._args: any[]) => ({
+        data: { issues: [{ key: 'TEST-1', fields: { summary: 'First' } }], nextPageToken: 'token-2', isLast: false }
+      }));
+      const service = createServiceWithClient({ get });
+
+      const result = await service.searchIssues('project = TEST', { fields: ['summary'], pageSize: 500, cursor: 'token-1' });
+
+      expect(get).toHaveBeenCalledWith('/search/jql', {
+        params: { jql: 'project = TEST', nextPageToken: 'token-1', maxResults: 100, fields: 'summary', expand: undefined }
+      });
+      expect(result.issues).toHaveLength(1);
+      expect(result.nextCursor).toBe('token-2');
+      expect(result.truncated).toBe(false);
+    });
+
+    test('should page with startAt on JIRA Server', async () => {
+      const get = jest.fn(async (..._args: any[]) => ({
+        data: { issues: [{ key: 'TEST-3', fields: {} }, { key: 'TEST-4', fields: {} }], total: 5 }
+      }));
+      const service = createServiceWithClient({ get }, true);
+
+      const result = await service.searchIssues('project = TEST', { pageSize: 2, cursor: '2' });
+
+      expect((get.mock.calls[0] as any[])[1].params.startAt).toBe(2);
+      expect(result.total).toBe(5);
+      expect(result.nextCursor).toBe('4');
+    });
+
+    test('should truncate long field values', async () => {
+      const get = jest.fn(async (..._args: any[]) => ({
+        data: { issues: [{ key: 'TEST-1', fields: { description: 'x'.repeat(5000) } }], isLast: true }
+      }));
+      const service = createServiceWithClient({ get });
+
+      const result = await service.searchIssues('project = TEST');
+
+      expect(result.truncated).toBe(true);
+      expect(result.nextCursor).toBeUndefined();
+      expect(result.issues[0].fields.description.length).toBeLessThan(5000);
+    });
+
+    test('should truncate nested and expanded values', async () => {
+      const comments = Array.from({ length: 30 }, (_, index) => ({ id: String(index), body: 'c'.repeat(3000) }));
+      const get = jest.fn(async (..._args: any[]) => ({
+        data: {
+          issues: [{
+            key: 'TEST-1',
+            fields: { summary: 'Short', comment: { comments, total: 30 } },
+            renderedFields: { description: 'r'.repeat(5000) },
+            changelog: { histories: Array.from({ length: 50 }, (_, index) => ({ id: String(index), items: [] })) }
+          }],
+          isLast: true
+        }
+      }));
+      const service = createServiceWithClient({ get });
+
+      const result = await service.searchIssues('project = TEST', { fields: ['*all'], expand: ['changelog', 'renderedFields'] });
+      const issue: any = result.issues[0];
+
+      expect(result.truncated).toBe(true);
+      expect(issue.fields.summary).toBe('Short');
+      expect(issue.fields.comment.comments).toHaveLength(21);
+      expect(issue.fields.comment.comments[0].body).toHaveLength(2000 + '... [truncated]'.length);
+      expect(issue.fields.comment.comments[20]).toBe('... [10 more truncated]');
+      expect(issue.renderedFields.description.length).toBeLessThan(5000);
+      expect(issue.changelog.histories[20]).toBe('... [30 more truncated]');
+    });
+
+    test('should not truncate results fetched for internal use', async () => {
+      const get = jest.fn(async (..._args: any[]) => ({
+        data: { issues: [{ key: 'TEST-2', fields: { description: 'x'.repeat(5000) } }], isLast: true }
+      }));
+      const service = createServiceWithClient({ get });
+
+      const issues = await service.getEpicIssues('TEST-1');
+
+      expect(issues[0].fields.description).toHaveLength(5000);
+    });
+  });
+
+  describe('updateTicketStatus', () => {
+    const transitions = [
+      { id: '11', name: 'Start', to: { id: '3', name: 'In Progress', statusCategory: { key: 'indeterminate', name: 'In Progress' } } },
+      {
+        id: '41',
+        name: 'Resolve',
+        to: { id: '5', name: 'Resolved', statusCategory: { key: 'done', name: 'Done' } },
+        fields: {
+          resolution: { required: true, name: 'Resolution', allowedValues: [{ name: 'Fixed' }, { name: "Won't Fix" }] }
+        }
+      },
+    ];
+
+    const createTransitionClient = () => ({
+      get: jest.fn(async (..._args: any[]) => ({ data: { transitions } })),
+      post: jest.fn(async (..._args: any[]) => ({ data: {} })),
+    });
+
+    test('should resolve the transition by target status name', async () => {
+      const client = createTransitionClient();
+      const service = createServiceWithClient(client);
+
+      const transition = await service.updateTicketStatus('TEST-1', 'in progress');
+
+      expect(transition.id).toBe('11');
+      expect(client.post).toHaveBeenCalledWith('/issue/TEST-1/transitions', { transition: { id: '11' } });
+    });
+
+    test('should resolve by status category and send resolution and comment', async () => {
+      const client = createTransitionClient();
+      const service = createServiceWithClient(client, true);
+
+      await service.updateTicketStatus('TEST-1', { statusCategory: 'done', resolution: 'Fixed', comment: 'Shipped **today**' });
+
+      expect(client.post).toHaveBeenCalledWith('/issue/TEST-1/transitions', {
+        transition: { id: '41' },
+        fields: { resolution: { name: 'Fixed' } },
+        update: { comment: [{ add: { body: 'Shipped *today*' } }] },
+      });
+    });
+
+    test('should report missing required fields with allowed values', async () => {
+      const service = createServiceWithClient(createTransitionClient());
+
+      await expect(service.updateTicketStatus('TEST-1', 'Resolved'))
+        .rejects.toThrow("requires fields: Resolution (resolution; allowed: Fixed, Won't Fix)");
+    });
+
+    test('should list reachable statuses when the target is not reachable', async () => {
+      const service = createServiceWithClient(createTransitionClient());
+
+      await expect(service.updateTicketStatus('TEST-1', 'Closed'))
+        .rejects.toThrow('Reachable statuses: In Progress (via "Start", id 11), Resolved (via "Resolve", id 41)');
+    });
+
+    const done = (id: string, name: string) => ({ id, name, to: { id, name, statusCategory: { key: 'done', name: 'Done' } } });
+
+    test('should prefer the status named after the category', async () => {
+      const client = {
+        get: jest.fn(async (..._args: any[]) => ({ data: { transitions: [done('61', "Won't Do"), done('51', 'Done')] } })),
+        post: jest.fn(async (..._args: any[]) => ({ data: {} })),
+      };
+      const service = createServiceWithClient(client);
+
+      const transition = await service.updateTicketStatus('TEST-1', { statusCategory: 'done' });
+
+      expect(transition.id).toBe('51');
+    });
+
+    test('should not guess between several statuses in a category', async () => {
+      const client = {
+        get: jest.fn(async (..._args: any[]) => ({ data: { transitions: [done('61', "Won't Do"), done('71', 'Closed')] } })),
+        post: jest.fn(async (..._args: any[]) => ({ data: {} })),
+      };
+      const service = createServiceWithClient(client);
+
+      await expect(service.updateTicketStatus('TEST-1', { statusCategory: 'done' })).rejects.toThrow(
+        'Several statuses in category "done" can be reached from TEST-1\'s current status: Won\'t Do (via "Won\'t Do", id 61), Closed (via "Closed", id 71)'
+      );
+      expect(client.post).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('moveTicketToStatus', () => {
+    const status = (name: string, key: string) => ({ name, statusCategory: { key, name } });
+    const workflow: Record<string, any[]> = {
+      'To Do': [{ id: '11', name: 'Start', to: { id: '3', ...status('In Progress', 'indeterminate') } }],
+      'In Progress': [
+        { id: '21', name: 'Request Review', to: { id: '4', ...status('In Review', 'indeterminate') } },
+        { id: '1', name: 'Stop', to: { id: '1', ...status('To Do', 'new') } },
+      ],
+      'In Review': [{ id: '31', name: 'Approve', to: { id: '5', ...status('Done', 'done') } }],
+    };
+
+    // Each issue key sits in a status; other issues are sampled through search
+    const createWorkflowClient = () => {
+      const issueStatus: Record<string, string> = { 'TEST-1': 'To Do', 'TEST-2': 'In Progress', 'TEST-3': 'In Review' };
+      return {
+        get: jest.fn(async (...args: any[]) => {
+          const [url, config] = args;
+          if (url === '/search/jql') {
+            const wanted = config.params.jql.match(/status = "([^"]+)"/)[1];
+            const key = Object.keys(issueStatus).find(k => k !== 'TEST-1' && issueStatus[k] === wanted);
+            return { data: { issues: key ? [{ key, fields: {} }] : [], isLast: true } };
+          }
+          const transitions = url.match(/^\/issue\/([^/]+)\/transitions$/);
+          if (transitions) {
+            return { data: { transitions: workflow[issueStatus[transitions[1]]] } };
+          }
+          return {
+            data: {
+              key: 'TEST-1',
+              fields: { summary: 'Ticket', description: null, status: status('To Do', 'new'), issuetype: { name: 'Task' }, project: { key: 'TEST' } }
+            }
+          };
+        }),
+        post: jest.fn(async (..._args: any[]) => ({ data: {} })),
+      };
+    };
+
+    test('should plan the shortest path in a dry run', async () => {
+      const client = createWorkflowClient();
+      const service = createServiceWithClient(client);
+
+      const result = await service.moveTicketToStatus('TEST-1', 'Done', true);
+
+      expect(result.path.map((step: any) => step.transitionName)).toEqual(['Start', 'Request Review', 'Approve']);
+      expect(result.targetStatus).toBe('Done');
+      expect(client.post).not.toHaveBeenCalled();
+    });
+
+    test('should stop and report the failed step', async () => {
+      const client = createWorkflowClient();
+      client.post.mockImplementationOnce(async () => ({ data: {} }));
+      client.post.mockImplementationOnce(async () => {
+        throw new Error('Workflow condition failed');
+      });
+      const service = createServiceWithClient(client);
+
+      const result = await service.moveTicketToStatus('TEST-1', { statusCategory: 'done' });
+
+      expect(result.executed).toHaveLength(1);
+      expect(result.failure?.step).toBe(2);
+      expect(result.failure?.transition.transitionName).toBe('Request Review');
+    });
+
+    test('should report explored statuses when no path exists', async () => {
+      const service = createServiceWithClient(createWorkflowClient());
+
+      await expect(service.moveTicketToStatus('TEST-1', 'Archived', true))
+        .rejects.toThrow('Explored statuses: to do, in progress, in review, done');
+    });
+
+    test('should say why statuses could not be explored', async () => {
+      const service = createServiceWithClient(createWorkflowClient());
+
+      await expect(service.moveTicketToStatus('TEST-1', 'Archived', true)).rejects.toThrow(
+        'The workflow couldn\'t be read (the project or issue type ID is unknown), so transitions were sampled from other issues. ' +
+        '"Done" wasn\'t explored: no other Task in TEST is in it'
+      );
+    });
+
+    test('should follow the workflow of the ticket\'s issue type on JIRA Cloud', async () => {
+      const get = jest.fn(async (...args: any[]) => {
+        const [url, config] = args;
+        switch (url) {
+          case '/workflowscheme/project':
+            return { data: { values: [{ workflowScheme: { defaultWorkflow: 'Default', issueTypeMappings: { '10001': 'Task Workflow' } } }] } };
+          case '/workflow/search':
+            expect(config.params.workflowName).toBe('Task Workflow');
+            return {
+              data: {
+                values: [{
+                  id: { name: 'Task Workflow' },
+                  statuses: [{ id: '1' }, { id: '3' }, { id: '4' }, { id: '5' }],
+                  transitions: [
+                    { id: '11', name: 'Start', from: ['1'], to: '3', type: 'directed' },
+                    { id: '21', name: 'Request Review', from: ['3'], to: '4', type: 'directed' },
+                    { id: '31', name: 'Approve', from: ['4'], to: '5', type: 'directed' },
+                  ]
+                }]
+              }
+            };
+          case '/status':
+            return { data: [['1', 'To Do', 'new'], ['3', 'In Progress', 'indeterminate'], ['4', 'In Review', 'indeterminate'], ['5', 'Done', 'done']]
+              .map(([id, name, key]) => ({ id, name, statusCategory: { key, name } })) };
+          case '/issue/TEST-1/transitions':
+            return { data: { transitions: workflow['To Do'] } };
+          default:
+            return {
+              data: {
+                key: 'TEST-1',
+                fields: { summary: 'Ticket', status: status('To Do', 'new'), issuetype: { id: '10001', name: 'Task' }, project: { id: '100', key: 'TEST' } }
+              }
+            };
+        }
+      });
+      const service = createServiceWithClient({ get });
+
+      const result = await service.moveTicketToStatus('TEST-1', { statusCategory: 'done' }, true);
+
+      expect(result.path.map((step: any) => step.transitionId)).toEqual(['11', '21', '31']);
+      expect(get.mock.calls.some(call => call[0] === '/search/jql')).toBe(false);
+    });
+  });
+
+  describe('getChildIssues', () => {
+    const issue = (key: string, type: string) => ({
+      key,
+      fields: { summary: key, status: { name: 'To Do', statusCategory: { key: 'new', name: 'To Do' } }, issuetype: { name: type } }
+    });
+    const link = (name: string, linked: any) => ({ id: '1', type: { id: '1', name, inward: `${name} in`, outward: `${name} out` }, outwardIssue: linked });
+
+    const createRelationClient = () => ({
+      get: jest.fn(async (...args: any[]) => {
+        const [url, config] = args;
+        if (url === '/field') {
+          return { data: [{ id: 'customfield_10100', name: 'Epic Link', custom: true, schema: { type: 'any' } }] };
+        }
+        if (url === '/issue/TEST-1') {
+          return {
+            data: {
+              key: 'TEST-1',
+              fields: {
+                issuetype: { name: 'Story' },
+                subtasks: [{ key: 'TEST-2' }],
+                issuelinks: [
+                  link('Relates', issue('TEST-3', 'Task')),
+                  link('Blocks', issue('TEST-4', 'Bug')),
+                  link('Relates', issue('TEST-5', 'Story')),
+                  link('Relates', issue('TEST-6', 'Epic')),
+                ]
+              }
+            }
+          };
+        }
+        const jql = config.params.jql;
+        if (jql === 'parent = TEST-1') {
+          return { data: { issues: [issue('TEST-2', 'Sub-task'), issue('TEST-7', 'Task')], isLast: true } };
+        }
+        const keys = jql.match(/^key in \((.*)\)$/)[1].split(', ');
+        return { data: { issues: keys.map((key: string) => issue(key, key === 'TEST-4' ? 'Bug' : 'Task')), isLast: true } };
+      }),
+    });
+
+    afterEach(() => {
+      delete process.env.JIRA_CHILD_LINK_TYPES;
+    });
+
+    test('should union sub-tasks, parent children and linked issues', async () => {
+      process.env.JIRA_CHILD_LINK_TYPES = 'Relates,Blocks';
+      const service = createServiceWithClient(createRelationClient());
+
+      const children = await service.getChildIssues('TEST-1');
+
+      expect(children.map((child: any) => [child.issue.key, child.relations])).toEqual([
+        ['TEST-2', ['subtask', 'parent']],
+        ['TEST-3', ['link:Relates']],
+        ['TEST-4', ['link:Blocks']],
+        ['TEST-7', ['parent']],
+      ]);
+    });
+
+    test('should only follow parent-of links by default', async () => {
+      const client = createRelationClient();
+      const getIssue = client.get.getMockImplementation()!;
+      client.get.mockImplementation(async (...args: any[]) => {
+        if (args[0] !== '/issue/TEST-1') return getIssue(...args);
+        const hierarchy = { id: '2', type: { id: '2', name: 'Hierarchy', inward: 'is child of', outward: 'is parent of' }, outwardIssue: issue('TEST-8', 'Task') };
+        return { data: { key: 'TEST-1', fields: { issuetype: { name: 'Story' }, issuelinks: [link('Relates', issue('TEST-3', 'Task')), hierarchy] } } };
+      });
+      const service = createServiceWithClient(client);
+
+      const children = await service.getChildIssues('TEST-1');
+
+      expect(children.map((child: any) => [child.issue.key, child.relations])).toEqual([
+        ['TEST-8', ['link:Hierarchy']],
+        ['TEST-2', ['parent']],
+        ['TEST-7', ['parent']],
+      ]);
+    });
+
+    test('should only follow configured link types', async () => {
+      process.env.JIRA_CHILD_LINK_TYPES = 'blocks out';
+      const service = createServiceWithClient(createRelationClient());
+
+      const children = await service.getChildIssues('TEST-1');
+
+      expect(children.map((child: any) => child.issue.key)).toEqual(['TEST-2', 'TEST-4', 'TEST-7']);
+    });
+
+    test('should query the discovered Epic Link field on JIRA Server', async () => {
+      const client = createRelationClient();
+      const service = createServiceWithClient(client, true);
+
+      await service.getChildIssues('TEST-1');
+
+      const queries = client.get.mock.calls.map((call: any[]) => call[1]?.params?.jql).filter(Boolean);
+      expect(queries).toContain('cf[10100] = TEST-1');
+    });
+  });
+
+  describe('createProjectHierarchy', () => {
+    const hierarchy = {
+      epic: { summary: 'Epic' },
+      stories: [
+        { summary: 'Story A', tasks: [{ summary: 'Task A1' }] },
+        { summary: 'Story B', tasks: [{ summary: 'Task B1' }] },
+      ]
+    };
+
+    const issueTypes = [
+      { name: 'Initiative', hierarchyLevel: 2, subtask: false },
+      { name: 'Epic', hierarchyLevel: 1, subtask: false },
+      { name: 'Story', hierarchyLevel: 0, subtask: false },
+      { name: 'Task', hierarchyLevel: 0, subtask: false },
+      { name: 'Sub-task', hierarchyLevel: -1, subtask: true },
+    ];
+
+    // Creates TEST-1, TEST-2, ... and fails the creation listed in failOn
+    const createHierarchyClient = (failOn: string[] = []) => {
+      let next = 1;
+      const summaries: Record<string, string> = {};
+      return {
+        post: jest.fn(async (...args: any[]) => {
+          const summary = args[1].fields.summary;
+          if (failOn.includes(summary)) {
+            throw new Error(`Cannot create ${summary}`);
+          }
+          const key = `TEST-${next++}`;
+          summaries[key] = summary;
+          return { data: { key } };
+        }),
+        get: jest.fn(async (...args: any[]) => {
+          if (args[0] === '/project/TEST') {
+            return { data: { key: 'TEST', issueTypes } };
+          }
+          if (args[0] === '/issue/createmeta/TEST/issuetypes') {
+            return { data: { issueTypes: issueTypes.map(type => ({ ...type, id: type.name })), total: issueTypes.length } };
+          }
+          if (args[0].startsWith('/issue/createmeta/')) {
+            return { data: { fields: [], total: 0 } };
+          }
+          const key = args[0].split('/')[2];
+          return { data: { key, fields: { summary: summaries[key], description: null, status: { name: 'To Do' }, issuetype: { name: 'Task' } } } };
+        }),
+        put: jest.fn(async (..._args: any[]) => ({ data: {} })),
+        delete: jest.fn(async (..._args: any[]) => ({ data: {} })),
+      };
+    };
+
+    test('should create and link the whole hierarchy', async () => {
+      const client = createHierarchyClient();
+      const service = createServiceWithClient(client);
+
+      const result = await service.createProjectHierarchy(hierarchy, 'TEST');
+
+      expect(result.status).toBe('created');
+      expect(result.root.ticket.key).toBe('TEST-1');
+      expect(result.root.children.map((s: any) => [s.ticket.key, s.children.map((t: any) => t.ticket.key)])).toEqual([
+        ['TEST-2', ['TEST-3']],
+        ['TEST-4', ['TEST-5']],
+      ]);
+      expect(client.put).toHaveBeenCalledWith('/issue/TEST-3', { fields: { parent: { key: 'TEST-2' } } });
+    });
+
+    test('should return a resume token that continues where it stopped', async () => {
+      const failing = createHierarchyClient(['Story B']);
+      const first = await createServiceWithClient(failing).createProjectHierarchy(hierarchy, 'TEST');
+
+      expect(first.status).toBe('incomplete');
+      expect(first.failure).toMatchObject({ path: 'stories[1]', step: 'create' });
+      expect(first.created.map((entry: any) => [entry.path, entry.key])).toEqual([
+        ['epic', 'TEST-1'],
+        ['stories[0]', 'TEST-2'],
+        ['stories[0].tasks[0]', 'TEST-3'],
+      ]);
+
+      const client = createHierarchyClient();
+      const resumed = await createServiceWithClient(client).createProjectHierarchy(hierarchy, 'TEST', {
+        resumeToken: first.resumeToken
+      });
+
+      expect(resumed.status).toBe('created');
+      expect(client.post).toHaveBeenCalledTimes(2);
+      expect(resumed.created.map((entry: any) => entry.path)).toEqual([
+        'epic', 'stories[0]', 'stories[0].tasks[0]', 'stories[1]', 'stories[1].tasks[0]'
+      ]);
+    });
+
+    test('should reject a resume token issued for another hierarchy', async () => {
+      const first = await createServiceWithClient(createHierarchyClient(['Story B'])).createProjectHierarchy(hierarchy, 'TEST');
+
+      await expect(createServiceWithClient(createHierarchyClient()).createProjectHierarchy(
+        { ...hierarchy, stories: [] }, 'TEST', { resumeToken: first.resumeToken }
+      )).rejects.toThrow('different hierarchy or project');
+    });
+
+    test('should match existing issues by external ID instead of duplicating them', async () => {
+      const client: any = createHierarchyClient();
+      const getIssue = client.get.getMockImplementation();
+      const existing: Record<string, any> = {
+        'ext-id:epic-1': { key: 'OLD-1', fields: { summary: 'Epic', description: null, issuetype: { name: 'Epic' } } },
+        'ext-id:story-a': { key: 'OLD-2', fields: { summary: 'Old title', description: null, issuetype: { name: 'Story' }, parent: { key: 'OLD-1' } } },
+      };
+      client.get.mockImplementation(async (...args: any[]) => {
+        if (args[0] === '/search/jql') {
+          const label = args[1].params.jql.match(/labels = "(.*)"$/)[1];
+          return { data: { issues: existing[label] ? [existing[label]] : [], isLast: true } };
+        }
+        return getIssue(...args);
+      });
+      const service = createServiceWithClient(client);
+
+      const result = await service.createProjectHierarchy({
+        epic: { summary: 'Epic', externalId: 'epic-1' },
+        stories: [{ summary: 'Story A', externalId: 'story-a', tasks: [{ summary: 'Task A1', externalId: 'task a1' }] }]
+      }, 'TEST');
+
+      expect(result.created.map((entry: any) => [entry.key, entry.action, entry.linked])).toEqual([
+        ['OLD-1', 'unchanged', true],
+        ['OLD-2', 'updated', true],
+        ['TEST-1', 'created', true],
+      ]);
+      expect(client.put).toHaveBeenCalledWith('/issue/OLD-2', { fields: { summary: 'Story A' } });
+      expect(client.put).not.toHaveBeenCalledWith('/issue/OLD-2', expect.objectContaining({ fields: { parent: expect.anything() } }));
+      expect(client.post).toHaveBeenCalledTimes(1);
+      expect(client.post.mock.calls[0][1].fields.labels).toEqual(['ext-id:task-a1']);
+    });
+
+    test('should diff a hierarchy against live issues without changing them', async () => {
+      const existing: Record<string, any> = {
+        'ext-id:epic-1': { key: 'OLD-1', fields: { summary: 'Epic', description: null, issuetype: { name: 'Epic' } } },
+        'ext-id:story-a': { key: 'OLD-2', fields: { summary: 'Story A', description: null, issuetype: { name: 'Story' }, parent: { key: 'OLD-9' } } },
+      };
+      const client: any = createHierarchyClient();
+      client.get.mockImplementation(async (...args: any[]) => {
+        const label = args[1].params.jql.match(/labels = "(.*)"$/)[1];
+        return { data: { issues: existing[label] ? [existing[label]] : [], isLast: true } };
+      });
+      const service = createServiceWithClient(client);
+
+      const diff = await service.diffProjectHierarchy({
+        epic: { summary: 'Epic', externalId: 'epic-1' },
+        stories: [{ summary: 'Story A', externalId: 'story-a', tasks: [{ summary: 'Task A1', externalId: 'task-a1' }] }]
+      }, 'TEST');
+
+      expect(diff.map((entry: any) => [entry.path, entry.key, entry.action, entry.changes])).toEqual([
+        ['epic', 'OLD-1', 'unchanged', []],
+        ['stories[0]', 'OLD-2', 'update', [{ field: 'parent', from: 'OLD-9', to: 'OLD-1' }]],
+        ['stories[0].tasks[0]', undefined, 'create', []],
+      ]);
+      expect(client.post).not.toHaveBeenCalled();
+      expect(client.put).not.toHaveBeenCalled();
+    });
+
+    test.each([
+      ['JIRA Cloud', false],
+      ['JIRA Server', true],
+    ])('should find no changes when re-planning an applied hierarchy on %s', async (_deployment, legacyMode) => {
+      const applied = {
+        epic: {
+          summary: 'Epic',
+          externalId: 'epic-1',
+          description: `${'A long description. '.repeat(120)}\n\n- First step\n- Second step\n\n\`\`\`\nnpm run build\n\`\`\``
+        },
+        stories: []
+      };
+      const createClient = createHierarchyClient();
+      await createServiceWithClient(createClient, legacyMode).createProjectHierarchy(applied, 'TEST');
+      const written = createClient.post.mock.calls[0][1].fields;
+
+      // The issue reads back exactly as it was written
+      const client: any = createHierarchyClient();
+      const getIssue = client.get.getMockImplementation();
+      client.get.mockImplementation(async (...args: any[]) => {
+        if (args[0] === '/field') return { data: [] };
+        if (args[0].startsWith('/search')) {
+          return { data: { issues: [{ key: 'TEST-1', fields: { ...written, issuetype: { name: 'Epic' } } }], isLast: true, total: 1 } };
+        }
+        return getIssue(...args);
+      });
+      const diff = await createServiceWithClient(client, legacyMode).diffProjectHierarchy(applied, 'TEST');
+
+      expect(applied.epic.description.length).toBeGreaterThan(2000);
+      expect(diff.map((entry: any) => [entry.key, entry.action, entry.changes])).toEqual([['TEST-1', 'unchanged', []]]);
+    });
+
+    test('should create trees of any depth with an issue type per level', async () => {
+      const client = createHierarchyClient();
+      const service = createServiceWithClient(client);
+
+      const result = await service.createProjectHierarchy({
+        levels: ['Initiative', 'Epic', 'Story', 'Sub-task'],
+        root: {
+          summary: 'Platform',
+          children: [{ summary: 'Auth', children: [{ summary: 'SSO', children: [{ summary: 'OAuth' }, { summary: 'Spike', issueType: 'Task' }] }] }]
+        }
+      }, 'TEST');
+
+      expect(result.created.map((entry: any) => [entry.path, entry.issueType])).toEqual([
+        ['root', 'Initiative'],
+        ['root.children[0]', 'Epic'],
+        ['root.children[0].children[0]', 'Story'],
+        ['root.children[0].children[0].children[0]', 'Sub-task'],
+        ['root.children[0].children[0].children[1]', 'Task'],
+      ]);
+      // Sub-tasks get their parent at creation, everything else is linked afterwards
+      expect(client.post.mock.calls[3][1].fields.parent).toEqual({ key: 'TEST-3' });
+      expect(client.put.mock.calls.map((call: any[]) => call[0])).toEqual(['/issue/TEST-2', '/issue/TEST-3', '/issue/TEST-5']);
+    });
+
+    test('should reject trees that do not fit the project hierarchy', async () => {
+      const client = createHierarchyClient();
+      const service = createServiceWithClient(client);
+
+      await expect(service.createProjectHierarchy({
+        levels: ['Epic', 'Sub-task'],
+        root: { summary: 'Epic', children: [{ summary: 'Sub', children: [{ summary: 'Feature', issueType: 'Feature' }] }] }
+      }, 'TEST')).rejects.toThrow(
+        'Hierarchy does not fit project TEST: root.children[0]: Sub-task (level -1) cannot be a child of Epic (level 1); ' +
+        'root.children[0].children[0]: issue type "Feature" does not exist in project TEST'
+      );
+      expect(client.post).not.toHaveBeenCalled();
+    });
+
+    test('should reject duplicate external IDs', async () => {
+      const service = createServiceWithClient(createHierarchyClient());
+
+      await expect(service.createProjectHierarchy({
+        epic: { summary: 'Epic', externalId: 'same' },
+        stories: [{ summary: 'Story', externalId: 'same' }]
+      }, 'TEST')).rejects.toThrow('Duplicate external IDs in hierarchy: ext-id:same');
+    });
+
+    test('should delete created issues in reverse order on rollback', async () => {
+      const client = createHierarchyClient(['Task B1']);
+      client.delete.mockImplementationOnce(async () => {
+        throw new Error('Forbidden');
+      });
+      const service = createServiceWithClient(client);
+
+      const result = await service.createProjectHierarchy(hierarchy, 'TEST', { onFailure: 'delete' });
+
+      expect(result.status).toBe('rolled_back');
+      expect(client.delete.mock.calls.map((call: any[]) => call[0])).toEqual([
+        '/issue/TEST-4', '/issue/TEST-3', '/issue/TEST-2', '/issue/TEST-1'
+      ]);
+      expect(result.rollback.removed).toEqual(['TEST-3', 'TEST-2', 'TEST-1']);
+      expect(result.created.map((entry: any) => entry.key)).toEqual(['TEST-4']);
+      expect(result.resumeToken).toBeUndefined();
+    });
+
+    test('should close created issues through a multi-step workflow on rollback', async () => {
+      const client: any = createHierarchyClient(['Task B1']);
+      const getIssue = client.get.getMockImplementation();
+      const createIssue = client.post.getMockImplementation();
+      const status = (name: string, key: string) => ({ name, statusCategory: { key, name: key === 'done' ? 'Done' : name } });
+      const workflow: Record<string, any[]> = {
+        'To Do': [{ id: '11', name: 'Start', to: { id: '3', ...status('In Progress', 'indeterminate') } }],
+        'In Progress': [
+          { id: '61', name: "Won't Do", to: { id: '6', ...status("Won't Do", 'done') } },
+          { id: '51', name: 'Finish', to: { id: '5', ...status('Done', 'done') } },
+        ],
+      };
+      const states: Record<string, string> = {};
+      client.get.mockImplementation(async (...args: any[]) => {
+        const transitions = args[0].match(/^\/issue\/([^/]+)\/transitions$/);
+        if (transitions) {
+          return { data: { transitions: workflow[states[transitions[1]] || 'To Do'] || [] } };
+        }
+        switch (args[0]) {
+          case '/workflowscheme/project':
+            return { data: { values: [{ workflowScheme: { defaultWorkflow: 'Default' } }] } };
+          case '/workflow/search':
+            return {
+              data: {
+                values: [{
+                  id: { name: 'Default' },
+                  statuses: [{ id: '1' }, { id: '3' }, { id: '5' }, { id: '6' }],
+                  transitions: [
+                    { id: '11', name: 'Start', from: ['1'], to: '3', type: 'directed' },
+                    { id: '61', name: "Won't Do", from: ['3'], to: '6', type: 'directed' },
+                    { id: '51', name: 'Finish', from: ['3'], to: '5', type: 'directed' },
+                  ]
+                }]
+              }
+            };
+          case '/status':
+            return { data: [['1', 'To Do', 'new'], ['3', 'In Progress', 'indeterminate'], ['5', 'Done', 'done'], ['6', "Won't Do", 'done']]
+              .map(([id, name, key]) => ({ id, ...status(name, key) })) };
+        }
+        const response = await getIssue(...args);
+        const key = args[0].match(/^\/issue\/([^/]+)$/)?.[1];
+        if (key) {
+          const current = states[key] || 'To Do';
+          Object.assign(response.data.fields, {
+            status: status(current, current === 'To Do' ? 'new' : 'indeterminate'),
+            issuetype: { id: '10001', name: 'Task' },
+            project: { id: '100', key: 'TEST' },
+          });
+        }
+        return response;
+      });
+      client.post.mockImplementation(async (...args: any[]) => {
+        const transition = args[0].match(/^\/issue\/([^/]+)\/transitions$/);
+        if (!transition) return createIssue(...args);
+        states[transition[1]] = args[1].transition.id === '11' ? 'In Progress' : 'Done';
+        return { data: {} };
+      });
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+      const service = createServiceWithClient(client);
+
+      const result = await service.createProjectHierarchy(hierarchy, 'TEST', { onFailure: 'close' });
+      warn.mockRestore();
+
+      expect(result.rollback.failed).toEqual([]);
+      expect(result.rollback.removed).toEqual(['TEST-4', 'TEST-3', 'TEST-2', 'TEST-1']);
+      expect(states).toEqual({ 'TEST-1': 'Done', 'TEST-2': 'Done', 'TEST-3': 'Done', 'TEST-4': 'Done' });
+      const transitionCalls = client.post.mock.calls.filter((call: any[]) => call[0] === '/issue/TEST-4/transitions');
+      expect(transitionCalls.map((call: any[]) => call[1].transition.id)).toEqual(['11', '51']);
+      expect(transitionCalls[1][1].update.comment).toBeDefined();
+    });
+  });
+
+  describe('createTicket', () => {
+    const createCreateClient = (extraFields: any[] = []) => ({
+      get: jest.fn(async (...args: any[]) => {
+        const url = args[0];
+        if (url === '/field') {
+          return { data: [{ id: 'customfield_10016', name: 'Story Points', custom: true }] };
+        }
+        if (url === '/issue/createmeta/TEST/issuetypes') {
+          return { data: { issueTypes: [{ id: '10001', name: 'Story' }], total: 1 } };
+        }
+        if (url === '/issue/createmeta/TEST/issuetypes/10001') {
+          return {
+            data: {
+              fields: [
+                { fieldId: 'summary', name: 'Summary', required: true, schema: { type: 'string' } },
+                { fieldId: 'customfield_10016', name: 'Story Points', required: false, schema: { type: 'number' } },
+                {
+                  fieldId: 'customfield_10050',
+                  name: 'Team',
+                  required: false,
+                  schema: { type: 'option' },
+                  allowedValues: [{ id: '10', value: 'Platform' }]
+                },
+                ...extraFields,
+              ],
+              total: 3 + extraFields.length
+            }
+          };
+        }
+        return { data: { key: 'TEST-9', fields: { summary: 'New', status: { name: 'To Do' }, issuetype: { name: 'Story' } } } };
+      }),
+      post: jest.fn(async (..._args: any[]) => ({ data: { key: 'TEST-9' } })),
+    });
+
+    test('should set fields by name from the create screen', async () => {
+      const client = createCreateClient();
+      const service = createServiceWithClient(client);
+
+      await service.createTicket({ summary: 'New', issueType: 'Story', projectKey: 'TEST', fields: { storyPoints: 3, team: 'platform' } });
+
+      expect(client.post).toHaveBeenCalledWith('/issue', {
+        fields: {
+          project: { key: 'TEST' },
+          summary: 'New',
+          issuetype: { name: 'Story' },
+          customfield_10016: 3,
+          customfield_10050: { value: 'Platform' },
+        }
+      });
+    });
+
+    test('should send the assignee as an accountId on JIRA Cloud', async () => {
+      const base = createCreateClient();
+      const client = {
+        ...base,
+        get: jest.fn(async (...args: any[]): Promise<any> => args[0] === '/user/assignable/search'
+          ? { data: [{ accountId: '5b10ac8d82e05b22cc7d4ef5', displayName: 'Ada Lovelace', emailAddress: 'ada@example.com' }] }
+          : base.get(...args)),
+      };
+      const service = createServiceWithClient(client);
+
+      await service.createTicket({ summary: 'New', issueType: 'Story', projectKey: 'TEST', assignee: 'ada@example.com' });
+
+      expect(client.get).toHaveBeenCalledWith('/user/assignable/search', { params: { query: 'ada@example.com', maxResults: 50, project: 'TEST' } });
+      expect((client.post.mock.calls[0][1] as any).fields.assignee).toEqual({ accountId: '5b10ac8d82e05b22cc7d4ef5' });
+    });
+
+    test('should reject fields that aren\'t on the create screen before posting', async () => {
+      const client = createCreateClient();
+      const service = createServiceWithClient(client);
+
+      await expect(service.createTicket({ summary: 'New', issueType: 'Story', projectKey: 'TEST', fields: { Sprint: 1 } }))
+        .rejects.toThrow('Cannot create Story in TEST: Sprint: unknown field');
+      expect(client.post).not.toHaveBeenCalled();
+    });
+
+    test('should name missing required fields and their allowed values', async () => {
+      const client = createCreateClient([
+        { fieldId: 'components', name: 'Component/s', required: true, schema: { type: 'array', items: 'component' }, allowedValues: [{ id: '1', name: 'API' }, { id: '2', name: 'Web' }] },
+        { fieldId: 'reporter', name: 'Reporter', required: true, hasDefaultValue: true, schema: { type: 'user' } },
+        { fieldId: 'priority', name: 'Priority', required: false, schema: { type: 'priority' }, allowedValues: [{ id: '1', name: 'High' }, { id: '2', name: 'Low' }] },
+      ]);
+      const service = createServiceWithClient(client);
+
+      await expect(service.createTicket({ summary: 'New', issueType: 'Story', projectKey: 'TEST', priority: 'Urgent' })).rejects.toThrow(
+        'Cannot create Story in TEST: priority: "Urgent" is not allowed (allowed: High, Low); ' +
+        'missing required fields: Component/s (components; allowed: API, Web)'
+      );
+      expect(client.post).not.toHaveBeenCalled();
+
+      await service.createTicket({ summary: 'New', issueType: 'Story', projectKey: 'TEST', priority: 'low', fields: { component: 'api' } });
+      expect(client.post).toHaveBeenCalledWith('/issue', {
+        fields: expect.objectContaining({ priority: { name: 'Low' }, components: [{ name: 'API' }] })
+      });
+    });
+
+    test('should reject issue types the project doesn\'t have', async () => {
+      const client = createCreateClient();
+      const service = createServiceWithClient(client);
+
+      await expect(service.createTicket({ summary: 'New', issueType: 'Bug', projectKey: 'TEST' }))
+        .rejects.toThrow('Issue type "Bug" doesn\'t exist in TEST. Available: Story');
+      expect(client.post).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('comments', () => {
+    const rawComment = (id: string, text: string, visibility?: any) => ({
+      id,
+      author: { accountId: 'abc123', displayName: 'Ada Lovelace' },
+      body: { type: 'doc', version: 1, content: [{ type: 'paragraph', content: [{ type: 'text', text }] }] },
+      created: '2024-05-01T10:00:00.000+0000',
+      updated: '2024-05-01T10:00:00.000+0000',
+      ...(visibility && { visibility }),
+    });
+
+    const createCommentClient = () => ({
+      get: jest.fn(async (...args: any[]) => {
+        if (args[0] === '/issue/TEST-1/comment/10001') {
+          return { data: rawComment('10001', 'Is this customer on the old plan?', { type: 'role', value: 'Service Desk Team' }) };
+        }
+        return { data: { comments: [rawComment('10002', 'Newer'), rawComment('10001', 'Older')], startAt: 0, maxResults: 2, total: 3 } };
+      }),
+      post: jest.fn(async (...args: any[]) => ({ data: { ...rawComment('10003', 'posted'), visibility: args[1].visibility } })),
+      put: jest.fn(async (..._args: any[]) => ({ data: rawComment('10001', 'edited') })),
+      delete: jest.fn(async (..._args: any[]) => ({ data: {} })),
+    });
+
+    test('should list comments newest first as Markdown', async () => {
+      const client = createCommentClient();
+      const service = createServiceWithClient(client);
+
+      const page = await service.listComments('TEST-1', { pageSize: 2 });
+
+      expect(client.get).toHaveBeenCalledWith('/issue/TEST-1/comment', { params: { startAt: 0, maxResults: 2, orderBy: '-created' } });
+      expect(page.comments.map((comment: any) => [comment.id, comment.author, comment.body])).toEqual([
+        ['10002', 'Ada Lovelace', 'Newer'],
+        ['10001', 'Ada Lovelace', 'Older'],
+      ]);
+      expect(page.nextCursor).toBe('2');
+      await expect(service.listComments('TEST-1', { cursor: 'next' })).rejects.toThrow('Invalid comment cursor: next');
+    });
+
+    test('should post comments restricted to a role', async () => {
+      const client = createCommentClient();
+      const service = createServiceWithClient(client);
+
+      const comment = await service.addComment('TEST-1', 'Internal note', { visibility: { type: 'role', value: 'Service Desk Team' } });
+
+      expect(client.post.mock.calls[0][1]).toMatchObject({ visibility: { type: 'role', value: 'Service Desk Team' } });
+      expect(comment.visibility).toEqual({ type: 'role', value: 'Service Desk Team' });
+    });
+
+    test('should quote, mention and keep the visibility of the comment replied to', async () => {
+      const client = createCommentClient();
+      const service = createServiceWithClient(client, true);
+      (service as any).v3Client = null;
+
+      await service.addComment('TEST-1', 'Yes, since 2019.', { replyTo: '10001' });
+
+      expect(client.post).toHaveBeenCalledWith('/issue/TEST-1/comment', {
+        body: '{quote}\n[~abc123] wrote:\nIs this customer on the old plan?\n{quote}\n\nYes, since 2019.',
+        visibility: { type: 'role', value: 'Service Desk Team' },
+      });
+    });
+
+    test('should edit and delete comments', async () => {
+      const client = createCommentClient();
+      const service = createServiceWithClient(client, true);
+
+      await service.editComment('TEST-1', '10001', 'edited');
+      await service.deleteComment('TEST-1', '10001');
+
+      expect(client.put).toHaveBeenCalledWith('/issue/TEST-1/comment/10001', { body: 'edited' });
+      expect(client.delete).toHaveBeenCalledWith('/issue/TEST-1/comment/10001');
+    });
+  });
+
+  describe('worklogs', () => {
+    const rawWorklog = (id: string, author: string, started: string, timeSpentSeconds: number) => ({
+      id,
+      author: { accountId: author.toLowerCase(), displayName: author },
+      timeSpent: `${timeSpentSeconds / 3600}h`,
+      timeSpentSeconds,
+      started,
+      comment: 'Pairing',
+    });
+
+    const createWorklogClient = () => ({
+      get: jest.fn(async (...args: any[]) => {
+        const [url, config] = args;
+        if (url === '/search/jql') {
+          return { data: { issues: [{ key: 'TEST-1', fields: { summary: 'One' } }], isLast: true } };
+        }
+        const worklogs = config.params.startAt === 0
+          ? [rawWorklog('1', 'Ada', '2024-05-01T09:00:00.000+0000', 3600), rawWorklog('2', 'Grace', '2024-05-01T10:00:00.000+0000', 7200)]
+          : [rawWorklog('3', 'Ada', '2024-05-02T09:00:00.000+0000', 1800)];
+        return { data: { startAt: config.params.startAt, total: 3, worklogs } };
+      }),
+      post: jest.fn(async (..._args: any[]) => ({ data: rawWorklog('4', 'Ada', '2024-05-01T09:00:00.000+0000', 5400) })),
+      delete: jest.fn(async (..._args: any[]) => ({ data: {} })),
+    });
+
+    test('should log work with a start time and estimate adjustment', async () => {
+      const client = createWorklogClient();
+      const service = createServiceWithClient(client, true);
+
+      await service.addWorklog('TEST-1', {
+        timeSpent: '1h 30m',
+        started: '2024-05-01T09:00:00Z',
+        comment: '**Pairing**',
+        adjustEstimate: 'manual',
+        adjustBy: '1h',
+      });
+
+      expect(client.post).toHaveBeenCalledWith(
+        '/issue/TEST-1/worklog',
+        { timeSpent: '1h 30m', started: '2024-05-01T09:00:00.000+0000', comment: '*Pairing*' },
+        { params: { adjustEstimate: 'manual', reduceBy: '1h' } }
+      );
+    });
+
+    test('should validate durations and estimate options before calling JIRA', async () => {
+      const client = createWorklogClient();
+      const service = createServiceWithClient(client);
+
+      await expect(service.addWorklog('TEST-1', { timeSpent: '90 minutes' })).rejects.toThrow('Invalid duration "90 minutes"');
+      await expect(service.addWorklog('TEST-1', { timeSpent: '1h', adjustEstimate: 'new' })).rejects.toThrow("'new' needs newEstimate");
+      await expect(service.updateWorklog('TEST-1', '1', { timeSpent: '1h', adjustEstimate: 'manual' })).rejects.toThrow("'manual' is only available");
+      expect(client.post).not.toHaveBeenCalled();
+    });
+
+    test('should increase the estimate when deleting manually', async () => {
+      const client = createWorklogClient();
+      const service = createServiceWithClient(client);
+
+      await service.deleteWorklog('TEST-1', '4', { adjustEstimate: 'manual', adjustBy: '30m' });
+
+      expect(client.delete).toHaveBeenCalledWith('/issue/TEST-1/worklog/4', { params: { adjustEstimate: 'manual', increaseBy: '30m' } });
+    });
+
+    test('should build a timesheet from every page of worklogs', async () => {
+      const client = createWorklogClient();
+      const service = createServiceWithClient(client);
+
+      const timesheet = await service.getTimesheet({ from: '2024-05-01', to: '2024-05-02', jql: 'project = TEST', authors: ['ada'] });
+
+      expect(client.get.mock.calls[0][1]).toMatchObject({
+        params: { jql: 'worklogDate >= "2024-05-01" AND worklogDate <= "2024-05-02" AND (project = TEST)' }
+      });
+      expect(timesheet.users.map((user: any) => [user.author, user.timeSpent, user.days.map((day: any) => day.date)])).toEqual([
+        ['Ada', '1h 30m', ['2024-05-01', '2024-05-02']],
+      ]);
+      await expect(service.getTimesheet({ from: '2024-05-02', to: '2024-05-01' })).rejects.toThrow('starts (2024-05-02) after it ends');
+    });
+  });
+
+  describe('attachments', () => {
+    let directory: string;
+
+    beforeEach(() => {
+      directory = fs.mkdtempSync(path.join(os.tmpdir(), 'jira-attachments-test-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(directory, { recursive: true, force: true });
+      delete process.env.JIRA_MAX_ATTACHMENT_SIZE;
+    });
+
+    const attachment = (id: string, filename: string, size: number, mimeType: string) => ({
+      id,
+      filename,
+      size,
+      mimeType,
+      created: '2024-05-01T10:00:00.000+0000',
+      author: { displayName: 'Ada Lovelace' },
+      content: `https://example.atlassian.net/rest/api/2/attachment/content/${id}`,
+    });
+
+    const createAttachmentClient = () => ({
+      get: jest.fn(async (...args: any[]) => {
+        const url = args[0];
+        if (url === '/attachment/1') return { data: attachment('1', 'build.log', 12, 'text/plain') };
+        if (url === '/attachment/2') return { data: attachment('2', '../screen.png', 4, 'image/png') };
+        if (url === '/attachment/3') return { data: attachment('3', 'dump.bin', 20 * 1024 * 1024, 'application/octet-stream') };
+        return { data: Buffer.from(url.endsWith('/1') ? 'ERROR: boom\n' : 'PNG!') };
+      }),
+      post: jest.fn(async (..._args: any[]) => ({ data: [attachment('4', 'trace.log', 5, 'text/plain')] })),
+    });
+
+    test('should upload a local file as multipart with the XSRF header', async () => {
+      const client = createAttachmentClient();
+      const service = createServiceWithClient(client);
+      const file = path.join(directory, 'trace.log');
+      fs.writeFileSync(file, 'hello');
+
+      const attachments = await service.attachFile('TEST-1', file);
+
+      const [url, form, config] = client.post.mock.calls[0] as any[];
+      expect(url).toBe('/issue/TEST-1/attachments');
+      expect((form.get('file') as File).name).toBe('trace.log');
+      expect(config.headers['X-Atlassian-Token']).toBe('no-check');
+      expect(attachments[0]).toMatchObject({ id: '4', filename: 'trace.log' });
+    });
+
+    test('should refuse files over the configured limit', async () => {
+      process.env.JIRA_MAX_ATTACHMENT_SIZE = '4';
+      const client = createAttachmentClient();
+      const service = createServiceWithClient(client);
+      const file = path.join(directory, 'trace.log');
+      fs.writeFileSync(file, 'hello');
+
+      await expect(service.attachFile('TEST-1', file)).rejects.toThrow(`Cannot attach ${file}: 5B is over the 4B limit`);
+      await expect(service.attachFile('TEST-1', directory)).rejects.toThrow('not a file');
+      expect(client.post).not.toHaveBeenCalled();
+    });
+
+    test('should save downloads and return small text inline', async () => {
+      const service = createServiceWithClient(createAttachmentClient());
+
+      const log = await service.downloadAttachment('1', directory);
+      const image = await service.downloadAttachment('2', path.join(directory, 'shot.png'));
+
+      expect(log.path).toBe(path.join(directory, 'build.log'));
+      expect(log.text).toBe('ERROR: boom\n');
+      expect(fs.readFileSync(image.path, 'utf8')).toBe('PNG!');
+      expect(image.text).toBeUndefined();
+      await expect(service.downloadAttachment('3', directory)).rejects.toThrow('dump.bin is 20.0MB, over the 10.0MB limit');
+    });
+  });
+
+  describe('watchers', () => {
+    const ada = { accountId: '5b10ac8d82e05b22cc7d4ef5', displayName: 'Ada Lovelace', emailAddress: 'ada@example.com' };
+    const serverAda = { name: 'ada', displayName: 'Ada Lovelace', emailAddress: 'ada@example.com' };
+
+    test('should add watchers by email as a JSON string body', async () => {
+      const post = jest.fn(async (..._args: any[]) => ({ data: {} }));
+      const deleteFn = jest.fn(async (..._args: any[]) => ({ data: {} }));
+
+      await createServiceWithClient({ get: async () => ({ data: [ada] }), post }).addWatcher('TEST-1', 'ada@example.com');
+      await createServiceWithClient({ get: async () => ({ data: [serverAda] }), delete: deleteFn }, true).removeWatcher('TEST-1', 'ada@example.com');
+
+      expect(post.mock.calls[0].slice(0, 2)).toEqual(['/issue/TEST-1/watchers', '"5b10ac8d82e05b22cc7d4ef5"']);
+      expect(deleteFn).toHaveBeenCalledWith('/issue/TEST-1/watchers', { params: { username: 'ada' } });
+    });
+
+    test('should notify resolved users and roles', async () => {
+      const post = jest.fn(async (..._args: any[]) => ({ data: {} }));
+      const service = createServiceWithClient({ get: async () => ({ data: [serverAda] }), post }, true);
+
+      await service.notifyUsers('TEST-1', { subject: 'Review', body: 'Please review', users: ['Ada Lovelace'], watchers: true });
+
+      expect(post).toHaveBeenCalledWith('/issue/TEST-1/notify', {
+        subject: 'Review',
+        textBody: 'Please review',
+        to: { reporter: false, assignee: false, watchers: true, voters: false, users: [{ name: 'ada' }], groups: [] },
+      });
+      await expect(service.notifyUsers('TEST-1', { subject: 'Review', body: 'x' })).rejects.toThrow('Choose at least one recipient');
+    });
+
+    test('should not report an unknown user as a missing ticket', async () => {
+      const get = async () => {
+        throw Object.assign(new Error('Request failed with status code 404'), { isAxiosError: true, response: { status: 404 } });
+      };
+      const post = jest.fn(async (..._args: any[]) => ({ data: {} }));
+      const service = createServiceWithClient({ get, post });
+
+      await expect(service.addWatcher('TEST-1', '5b10ac8d82e05b22cc7d4ef6')).rejects.toThrow('JIRA user "5b10ac8d82e05b22cc7d4ef6" not found');
+      expect(post).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('votes', () => {
+    test('should list votes and voters', async () => {
+      const get = jest.fn(async (..._args: any[]) => ({
+        data: { votes: 2, hasVoted: true, voters: [{ accountId: '5b10ac8d82e05b22cc7d4ef5', displayName: 'Ada Lovelace' }] }
+      }));
+
+      const votes = await createServiceWithClient({ get }).listVotes('TEST-1');
+
+      expect(get).toHaveBeenCalledWith('/issue/TEST-1/votes');
+      expect(votes).toEqual({
+        ticketId: 'TEST-1',
+        votes: 2,
+        hasVoted: true,
+        voters: [{ id: '5b10ac8d82e05b22cc7d4ef5', displayName: 'Ada Lovelace', email: undefined, active: true }],
+      });
+    });
+
+    test('should vote and withdraw the vote as the authenticated user', async () => {
+      const post = jest.fn(async (..._args: any[]) => ({ data: {} }));
+      const deleteFn = jest.fn(async (..._args: any[]) => {
+        throw Object.assign(new Error('Request failed with status code 404'), { isAxiosError: true, response: { status: 404 } });
+      });
+      const service = createServiceWithClient({ post, delete: deleteFn });
+
+      await service.addVote('TEST-1');
+
+      expect(post).toHaveBeenCalledWith('/issue/TEST-1/votes');
+      await expect(service.removeVote('TEST-1')).rejects.toThrow("you haven't voted for it");
+    });
+  });
+
+  describe('resources', () => {
+    test('should build an issue tree without repeating issues', async () => {
+      const issue = (key: string, type: string) => ({ key, fields: { summary: key, status: { name: 'To Do' }, issuetype: { name: type } } });
+      const service = createServiceWithClient({
+        get: jest.fn(async (..._args: any[]) => ({ data: issue('TEST-1', 'Epic') })),
+      });
+      const children: Record<string, any[]> = {
+        'TEST-1': [{ issue: issue('TEST-2', 'Story'), relations: ['parent'] }],
+        'TEST-2': [{ issue: issue('TEST-3', 'Sub-task'), relations: ['subtask'] }, { issue: issue('TEST-1', 'Epic'), relations: ['link:Relates'] }],
+        'TEST-3': [],
+      };
+      jest.spyOn(service, 'getChildIssues').mockImplementation(async (key: string) => children[key]);
+
+      const tree = await service.getIssueTree('TEST-1');
+
+      expect(tree).toEqual({
+        key: 'TEST-1', summary: 'TEST-1', issueType: 'Epic', status: 'To Do', assignee: undefined,
+        children: [{
+          key: 'TEST-2', summary: 'TEST-2', issueType: 'Story', status: 'To Do', assignee: undefined, relations: ['parent'],
+          children: [{ key: 'TEST-3', summary: 'TEST-3', issueType: 'Sub-task', status: 'To Do', assignee: undefined, relations: ['subtask'], children: [] }],
+        }],
+      });
+    });
+
+    test('should read saved filters', async () => {
+      const get = jest.fn(async (..._args: any[]) => ({ data: { id: 10042, name: 'My bugs', jql: 'type = Bug', owner: { displayName: 'Ada' } } }));
+      const service = createServiceWithClient({ get });
+
+      expect(await service.getFilter('10042')).toEqual({ id: '10042', name: 'My bugs', jql: 'type = Bug', description: undefined, owner: 'Ada' });
+      expect(get).toHaveBeenCalledWith('/filter/10042');
+    });
+  });
+
+  describe('describeProject', () => {
+    const createProjectClient = () => ({
+      get: jest.fn(async (...args: any[]) => {
+        const responses: Record<string, unknown> = {
+          '/project/TEST': {
+            key: 'TEST',
+            name: 'Test project',
+            lead: { displayName: 'Ada Lovelace' },
+            issueTypes: [{ id: '1', name: 'Story' }, { id: '2', name: 'Sub-task', subtask: true }],
+          },
+          '/project/TEST/statuses': [{ id: '1', name: 'Story', statuses: [{ name: 'To Do', statusCategory: { key: 'new' } }] }],
+          '/priority': [{ name: 'High' }, { name: 'Low' }],
+          '/project/TEST/components': [{ name: 'Backend', description: '' }],
+          '/project/TEST/versions': [{ name: '1.0', released: true, archived: true }, { name: '2.0', released: false }],
+          '/issueLinkType': { issueLinkTypes: [{ id: '1', name: 'Blocks', inward: 'is blocked by', outward: 'blocks' }] },
+        };
+        return { data: responses[args[0]] };
+      }),
+    });
+
+    test('should collect and cache the project catalog', async () => {
+      const client = createProjectClient();
+      const service = createServiceWithClient(client);
+
+      const catalog = await service.describeProject('TEST');
+      await service.describeProject('TEST');
+
+      expect(catalog).toMatchObject({
+        key: 'TEST',
+        lead: 'Ada Lovelace',
+        issueTypes: [
+          { name: 'Story', subtask: false, hierarchyLevel: 0, statuses: [{ name: 'To Do', category: 'new' }] },
+          { name: 'Sub-task', subtask: true, hierarchyLevel: -1, statuses: [] },
+        ],
+        priorities: ['High', 'Low'],
+        components: [{ name: 'Backend' }],
+        versions: [{ name: '2.0', released: false }],
+        linkTypes: [{ name: 'Blocks' }],
+      });
+      expect(client.get).toHaveBeenCalledTimes(6);
+
+      await service.describeProject('TEST', true);
+      expect(client.get).toHaveBeenCalledTimes(12);
+    });
+  });
+
+  describe('assignments', () => {
+    test('should assign, unassign and assign automatically', async () => {
+      const get = jest.fn(async (...args: any[]) => args[0] === '/user/assignable/search'
+        ? { data: [{ name: 'ada', displayName: 'Ada Lovelace' }] }
+        : { data: { fields: { assignee: { name: 'lead', displayName: 'Project Lead' } } } });
+      const put = jest.fn(async (..._args: any[]) => ({ data: {} }));
+      const service = createServiceWithClient({ get, put }, true);
+
+      expect((await service.assignTicket('TEST-1', 'Ada Lovelace'))?.id).toBe('ada');
+      expect(await service.assignTicket('TEST-1', null)).toBeNull();
+      expect((await service.assignTicket('TEST-1', 'automatic'))?.displayName).toBe('Project Lead');
+
+      expect(put.mock.calls.map(call => call[1])).toEqual([{ name: 'ada' }, { name: null }, { name: '-1' }]);
+      expect(get.mock.calls[0][1]).toEqual({ params: { username: 'Ada Lovelace', maxResults: 50, issueKey: 'TEST-1' } });
+    });
+
+    test('should propose assignments to the least loaded members without changing anything', async () => {
+      const get = jest.fn(async (...args: any[]) => {
+        const [url, config] = args;
+        if (url === '/user/search') {
+          return { data: [{ name: config.params.username, displayName: config.params.username.toUpperCase() }] };
+        }
+        if (config.params.jql.startsWith('(project = TEST)')) {
+          const issues = ['TEST-1', 'TEST-2', 'TEST-3'].map(key => ({ key, fields: { summary: `Issue ${key}` } }));
+          return { data: { issues, total: 3 } };
+        }
+        return { data: { issues: [{ key: 'TEST-9', fields: { assignee: { name: 'ada' } } }], total: 1 } };
+      });
+      const put = jest.fn(async (..._args: any[]) => ({ data: {} }));
+      const service = createServiceWithClient({ get, put }, true);
+
+      const result = await service.balanceAssignments('project = TEST', ['ada', 'bob']);
+
+      expect(get.mock.calls[2][1].params.jql).toBe('(project = TEST) AND assignee is EMPTY');
+      expect(get.mock.calls[3][1].params.jql).toBe('assignee in ("ada", "bob") AND statusCategory != Done');
+      expect(result.assignments.map((a: any) => [a.issueKey, a.assignee.id])).toEqual([['TEST-1', 'bob'], ['TEST-2', 'ada'], ['TEST-3', 'bob']]);
+      expect(result.workload.map((w: any) => [w.user.id, w.openIssues, w.proposed])).toEqual([['ada', 1, 1], ['bob', 0, 2]]);
+      expect(put).not.toHaveBeenCalled();
+    });
+
+    test('should apply assignments, keep ORDER BY last and report failures per issue', async () => {
+      const get = jest.fn(async (...args: any[]) => {
+        const [url, config] = args;
+        if (url === '/user/search' || url === '/user/assignable/search') {
+          return { data: [{ name: config.params.username, displayName: config.params.username.toUpperCase() }] };
+        }
+        if (config.params.jql.startsWith('(project = TEST)')) {
+          return { data: { issues: [{ key: 'TEST-1', fields: { summary: 'One' } }, { key: 'TEST-2', fields: { summary: 'Two' } }], total: 2 } };
+        }
+        return { data: { issues: [], total: 0 } };
+      });
+      const put = jest.fn(async (...args: any[]) => {
+        if (args[0] === '/issue/TEST-2/assignee') {
+          throw Object.assign(new Error('Request failed with status code 403'), { isAxiosError: true, response: { status: 403 } });
+        }
+        return { data: {} };
+      });
+      const service = createServiceWithClient({ get, put }, true);
+
+      const result = await service.balanceAssignments('project = TEST order by priority DESC', ['ada', 'bob'], false, [
+        { issueKey: 'TEST-1', assignee: 'ada' },
+        { issueKey: 'TEST-2', assignee: 'bob' },
+      ]);
+
+      expect(get.mock.calls[2][1].params.jql).toBe('(project = TEST) AND assignee is EMPTY order by priority DESC');
+      expect(put.mock.calls).toEqual([['/issue/TEST-1/assignee', { name: 'ada' }], ['/issue/TEST-2/assignee', { name: 'bob' }]]);
+      // Each assignee is checked again against who can be assigned that issue
+      expect(get).toHaveBeenCalledWith('/user/assignable/search', { params: { username: 'bob', maxResults: 50, issueKey: 'TEST-2' } });
+      expect(result.applied).toEqual(['TEST-1']);
+      expect(result.failures).toEqual([{ issueKey: 'TEST-2', error: 'Insufficient permissions to assign TEST-2 (needs Assign Issues)' }]);
+    });
+    test('should apply the approved assignments even when the workload has changed since', async () => {
+      let unassigned = ['TEST-1', 'TEST-2', 'TEST-3'];
+      let open = [{ key: 'TEST-9', fields: { assignee: { name: 'ada' } } }];
+      const get = jest.fn(async (...args: any[]) => {
+        const [url, config] = args;
+        if (url === '/user/search' || url === '/user/assignable/search') {
+          return { data: [{ name: config.params.username, displayName: config.params.username.toUpperCase() }] };
+        }
+        if (config.params.jql.startsWith('(project = TEST)')) {
+          return { data: { issues: unassigned.map(key => ({ key, fields: { summary: `Issue ${key}` } })), total: unassigned.length } };
+        }
+        return { data: { issues: open, total: open.length } };
+      });
+      const put = jest.fn(async (..._args: any[]) => ({ data: {} }));
+      const service = createServiceWithClient({ get, put }, true);
+
+      const proposal = await service.balanceAssignments('project = TEST', ['ada', 'bob']);
+      // bob picks up two issues and TEST-3 is assigned by hand before the proposal is applied
+      unassigned = ['TEST-1', 'TEST-2'];
+      open = [...open, { key: 'TEST-7', fields: { assignee: { name: 'bob' } } }, { key: 'TEST-8', fields: { assignee: { name: 'bob' } } }];
+      const approved = proposal.assignments.map((a: any) => ({ issueKey: a.issueKey, assignee: a.assignee.id }));
+      const result = await service.balanceAssignments('project = TEST', ['ada', 'bob'], false, approved);
+
+      expect(put.mock.calls).toEqual([['/issue/TEST-1/assignee', { name: 'bob' }], ['/issue/TEST-2/assignee', { name: 'ada' }]]);
+      expect(result.applied).toEqual(['TEST-1', 'TEST-2']);
+      expect(result.failures).toEqual([{ issueKey: 'TEST-3', error: 'TEST-3 is no longer an unassigned issue matching the JQL' }]);
+      expect(result.workload.map((w: any) => [w.user.id, w.openIssues, w.proposed])).toEqual([['ada', 1, 1], ['bob', 2, 1]]);
+    });
+
+    test('should refuse to apply without approved assignments or with an assignee outside the team', async () => {
+      const get = jest.fn(async (...args: any[]) => {
+        const [url, config] = args;
+        if (url === '/user/search') {
+          return { data: [{ name: config.params.username, displayName: config.params.username.toUpperCase() }] };
+        }
+        return { data: { issues: [{ key: 'TEST-1', fields: { summary: 'One' } }], total: 1 } };
+      });
+      const put = jest.fn(async (..._args: any[]) => ({ data: {} }));
+      const service = createServiceWithClient({ get, put }, true);
+
+      await expect(service.balanceAssignments('project = TEST', ['ada'], false))
+        .rejects.toThrow('Pass the assignments approved from a dry run to apply them');
+      await expect(service.balanceAssignments('project = TEST', ['ada'], false, [{ issueKey: 'TEST-1', assignee: 'eve' }]))
+        .rejects.toThrow('eve is not one of the team members');
+      expect(put).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getTicketHistory', () => {
+    const history = (id: number, day: number, field: string) => ({
+      id: String(id),
+      author: { displayName: 'Ada Lovelace' },
+      created: `2024-05-${String(day).padStart(2, '0')}T09:00:00.000+0000`,
+      items: [{ field, fromString: 'a', toString: 'b' }],
+    });
+
+    test('should read the full changelog on JIRA Cloud when the embedded one is truncated', async () => {
+      const get = jest.fn(async (...args: any[]) => {
+        if (args[0] === '/issue/TEST-1') {
+          return { data: { fields: { status: { name: 'Done' }, created: '2024-04-30T09:00:00.000+0000' }, changelog: { total: 3, histories: [history(3, 3, 'status')] } } };
+        }
+        return args[1].params.startAt === 0
+          ? { data: { values: [history(1, 1, 'status'), history(2, 2, 'assignee')], isLast: false } }
+          : { data: { values: [history(3, 3, 'status')], isLast: true } };
+      });
+      const service = createServiceWithClient({ get });
+
+      const first = await service.getTicketHistory('TEST-1', { fields: ['status'], pageSize: 1 });
+      const second = await service.getTicketHistory('TEST-1', { fields: ['status'], pageSize: 1, cursor: first.nextCursor });
+
+      expect(get.mock.calls[1][0]).toBe('/issue/TEST-1/changelog');
+      expect(first).toMatchObject({ total: 2, nextCursor: '1' });
+      expect(first.entries.map((entry: any) => entry.id)).toEqual(['1']);
+      expect(second.entries.map((entry: any) => entry.id)).toEqual(['3']);
+      expect(second.nextCursor).toBeUndefined();
+    });
+
+    test('should use the embedded changelog on JIRA Server', async () => {
+      const get = jest.fn(async (..._args: any[]) => ({
+        data: { fields: { status: { name: 'Open' }, created: '2024-04-30T09:00:00.000+0000' }, changelog: { total: 1, histories: [history(1, 1, 'summary')] } }
+      }));
+      const service = createServiceWithClient({ get }, true);
+
+      const result = await service.getTicketHistory('TEST-1', { since: '2024-05-01' });
+
+      expect(get).toHaveBeenCalledTimes(1);
+      expect(get.mock.calls[0][1]).toEqual({ params: { fields: 'status,created', expand: 'changelog' } });
+      expect(result.entries[0].changes).toEqual([{ field: 'summary', from: 'a', to: 'b' }]);
+    });
+  });
+
+  describe('analyzeStoryStatus', () => {
+    const history = (id: number, day: number) => ({
+      id: String(id),
+      created: `2024-05-${String(day).padStart(2, '0')}T09:00:00.000+0000`,
+      items: [{ field: 'status', fromString: 'To Do', toString: 'In Progress' }],
+    });
+    const task = (key: string, category: string, changelog?: unknown) => ({
+      key,
+      fields: { summary: key, status: { name: key, statusCategory: { key: category } }, created: '2024-04-30T09:00:00.000+0000' },
+      ...(changelog ? { changelog } : {}),
+    });
+    const jiraGet = () => jest.fn(async (...args: any[]) => {
+      if (args[0] === '/issue/STORY-1') {
+        return { data: { key: 'STORY-1', fields: { summary: 'Story', issuetype: { name: 'Story' }, status: { name: 'To Do', statusCategory: { key: 'new' } }, subtasks: [], issuelinks: [] } } };
+      }
+      if (args[0] === '/issue/TEST-2/changelog') {
+        return { data: { values: [history(1, 1), history(2, 2)], isLast: true } };
+      }
+      if (args[1].params.expand === 'changelog') {
+        return { data: { issues: [
+          task('TEST-1', 'done', { total: 1, histories: [history(1, 3)] }),
+          task('TEST-2', 'indeterminate', { total: 2, histories: [history(2, 2)] }),
+        ], isLast: true } };
+      }
+      return { data: { issues: [task('TEST-1', 'done'), task('TEST-2', 'indeterminate')], isLast: true } };
+    });
+
+    test('should read the changelogs of all tasks in one search', async () => {
+      const get = jiraGet();
+      const service = createServiceWithClient({ get });
+
+      const analysis = await service.analyzeStoryStatus('STORY-1', { timeInStatus: true });
+
+      const searches = get.mock.calls.filter(call => call[0] === '/search/jql');
+      expect(searches).toHaveLength(2);
+      expect(searches[1][1].params).toMatchObject({ jql: 'key in (TEST-1, TEST-2)', fields: 'status,created', expand: 'changelog' });
+      // Only the changelog JIRA Cloud truncated is read separately
+      expect(get.mock.calls.map(call => call[0])).not.toContain('/issue/TEST-1/changelog');
+      expect(analysis.timeInStatus['TEST-1'].since).toBe('2024-05-03T09:00:00.000+0000');
+      expect(analysis.timeInStatus['TEST-2'].since).toBe('2024-05-02T09:00:00.000+0000');
+    });
+
+    test('should only read changelogs when asked to, so status rollups skip them', async () => {
+      const get = jiraGet();
+      const service = createServiceWithClient({ get });
+
+      const analysis = await service.analyzeStoryStatus('STORY-1');
+
+      expect(analysis.timeInStatus).toEqual({});
+      expect(get.mock.calls.some(call => call[1]?.params?.expand === 'changelog')).toBe(false);
+    });
+  });
+
+  describe('agile', () => {
+    const sprint = (id: number, state: string, extra: Record<string, unknown> = {}) => ({ id, name: `Sprint ${id}`, state, originBoardId: 7, ...extra });
+
+    test('should page through boards and sprints', async () => {
+      const get = jest.fn(async (...args: any[]) => {
+        const startAt = args[1].params.startAt;
+        if (args[0] === '/board') {
+          return { data: { values: [{ id: 7, name: 'Team board', type: 'scrum', location: { projectKey: 'TEST' } }], isLast: true } };
+        }
+        return { data: startAt === 0 ? { values: [sprint(1, 'active')], isLast: false } : { values: [sprint(2, 'future')], isLast: true } };
+      });
+      const service = createServiceWithClient({ get });
+
+      const boards = await service.listBoards({ projectKey: 'TEST' });
+      const sprints = await service.listSprints(7, ['active', 'future']);
+
+      expect(boards).toEqual([{ id: 7, name: 'Team board', type: 'scrum', projectKey: 'TEST' }]);
+      expect(get.mock.calls[0][1]).toMatchObject({ params: { projectKeyOrId: 'TEST', startAt: 0 } });
+      expect(get.mock.calls[1]).toEqual(['/board/7/sprint', { params: { state: 'active,future', startAt: 0, maxResults: 100 } }]);
+      expect(sprints.map((s: any) => s.id)).toEqual([1, 2]);
+    });
+
+    test('should move issues in batches and back to the backlog', async () => {
+      const post = jest.fn(async (..._args: any[]) => ({ data: {} }));
+      const service = createServiceWithClient({ post });
+      const keys = Array.from({ length: 60 }, (_, i) => `TEST-${i + 1}`);
+
+      await service.moveIssuesToSprint(keys, 3);
+      await service.moveIssuesToSprint(['TEST-1'], 'backlog');
+
+      expect(post.mock.calls.map(call => [call[0], (call[1] as any).issues.length])).toEqual([
+        ['/sprint/3/issue', 50],
+        ['/sprint/3/issue', 10],
+        ['/backlog/issue', 1],
+      ]);
+    });
+
+    test('should rank issues and report entries that could not be ranked', async () => {
+      const put = jest.fn(async (..._args: any[]) => ({
+        status: 207,
+        data: { entries: [{ issueKey: 'TEST-1', status: 200 }, { issueKey: 'TEST-2', status: 403, errors: ['No permission'] }] }
+      }));
+      const service = createServiceWithClient({ put });
+
+      await expect(service.rankIssues({ issueKeys: ['TEST-1', 'TEST-2'], before: 'TEST-9' })).rejects.toThrow('Could not rank TEST-2: No permission');
+      expect(put).toHaveBeenCalledWith('/issue/rank', { issues: ['TEST-1', 'TEST-2'], rankBeforeIssue: 'TEST-9' });
+      await expect(service.rankIssues({ issueKeys: ['TEST-1'] })).rejects.toThrow('either before or after');
+    });
+
+    test('should start a future sprint with a default length', async () => {
+      const get = jest.fn(async (..._args: any[]) => ({ data: sprint(5, 'future') }));
+      const post = jest.fn(async (...args: any[]) => ({ data: sprint(5, 'active', args[1]) }));
+      const service = createServiceWithClient({ get, post });
+
+      const started = await service.startSprint(5, { startDate: '2024-05-06T09:00:00Z' });
+
+      expect(post).toHaveBeenCalledWith('/sprint/5', {
+        state: 'active',
+        startDate: '2024-05-06T09:00:00.000+0000',
+        endDate: '2024-05-20T09:00:00.000+0000',
+      });
+      expect(started.state).toBe('active');
+      await expect(createServiceWithClient({ get: async () => ({ data: sprint(5, 'closed') }) }).startSprint(5))
+        .rejects.toThrow('Sprint 5 is closed - only future sprints can be started');
+    });
+
+    test('should move unfinished issues before closing a sprint', async () => {
+      const get = jest.fn(async (...args: any[]) => {
+        if (args[0] === '/sprint/5') return { data: sprint(5, 'active') };
+        return { data: { issues: [{ key: 'TEST-2', fields: {} }], total: 1 } };
+      });
+      const post = jest.fn(async (...args: any[]) => ({ data: args[0] === '/sprint/5' ? sprint(5, 'closed') : {} }));
+      const service = createServiceWithClient({ get, post });
+
+      const result = await service.closeSprint(5, 6);
+
+      expect(get.mock.calls[1][1]).toMatchObject({ params: { jql: 'statusCategory != Done', fields: 'status' } });
+      expect(post.mock.calls.map(call => call[0])).toEqual(['/sprint/6/issue', '/sprint/5']);
+      expect(result).toMatchObject({ sprint: { state: 'closed' }, movedIssues: ['TEST-2'], movedTo: 6 });
+    });
+  });
+
+  describe('editTicket', () => {
+    const createEditClient = () => ({
+      get: jest.fn(async (...args: any[]) => {
+        if (args[0] === '/field') {
+          return {
+            data: [
+              { id: 'customfield_10016', name: 'Story Points', custom: true },
+              { id: 'customfield_10050', name: 'Team', custom: true },
+              { id: 'resolution', name: 'Resolution', custom: false },
+            ]
+          };
+        }
+        return {
+          data: {
+            fields: {
+              summary: { name: 'Summary', required: true, schema: { type: 'string' }, operations: ['set'] },
+              labels: { name: 'Labels', schema: { type: 'array', items: 'string' }, operations: ['add', 'set', 'remove'] },
+              priority: {
+                name: 'Priority',
+                schema: { type: 'priority' },
+                operations: ['set'],
+                allowedValues: [{ id: '1', name: 'High' }, { id: '2', name: 'Low' }]
+              },
+              customfield_10016: { name: 'Story Points', schema: { type: 'number', custom: 'com.atlassian.jira.plugin.system.customfieldtypes:float' }, operations: ['set'] },
+              customfield_10050: {
+                name: 'Team',
+                schema: { type: 'option', custom: 'com.atlassian.jira.plugin.system.customfieldtypes:select' },
+                operations: ['set'],
+                allowedValues: [{ id: '10', value: 'Platform' }, { id: '11', value: 'Mobile' }]
+              },
+            }
+          }
+        };
+      }),
+      put: jest.fn(async (..._args: any[]) => ({ data: {} })),
+    });
+
+    test('should set fields by alias, name and ID in JIRA\'s value shapes', async () => {
+      const client = createEditClient();
+      const service = createServiceWithClient(client);
+
+      const result = await service.editTicket('TEST-1', { labels: ['api'], priority: 'high', storyPoints: '5', team: 'Platform' });
+
+      expect(client.get).toHaveBeenCalledWith('/issue/TEST-1/editmeta');
+      expect(client.put).toHaveBeenCalledWith('/issue/TEST-1', {
+        fields: {
+          labels: ['api'],
+          priority: { name: 'High' },
+          customfield_10016: 5,
+          customfield_10050: { value: 'Platform' },
+        }
+      });
+      expect(result.updated).toEqual([
+        { field: 'Labels', id: 'labels' },
+        { field: 'Priority', id: 'priority' },
+        { field: 'Story Points', id: 'customfield_10016' },
+        { field: 'Team', id: 'customfield_10050' },
+      ]);
+    });
+
+    test('should report every problem and change nothing', async () => {
+      const client = createEditClient();
+      const service = createServiceWithClient(client);
+
+      await expect(service.editTicket('TEST-1', {
+        summary: null,
+        Team: 'Web',
+        resolution: 'Done',
+        Severity: 'S1',
+      })).rejects.toThrow(
+        'Cannot edit TEST-1: summary: is required and cannot be cleared; Team: "Web" is not allowed (allowed: Platform, Mobile); ' +
+        'resolution: not editable on TEST-1; Severity: unknown field'
+      );
+      expect(client.put).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('createSubtask', () => {
+    const issueTypes = [
+      { id: '1', name: 'Story', subtask: false },
+      { id: '2', name: 'Subtask', subtask: true },
+      { id: '3', name: 'Technical Sub-task', subtask: true },
+    ];
+
+    const createSubtaskClient = (parentType = 'Story') => ({
+      get: jest.fn(async (...args: any[]) => {
+        if (args[0] === '/project/TEST') {
+          return { data: { issueTypes } };
+        }
+        if (args[0] === '/issue/createmeta/TEST/issuetypes') {
+          return { data: { issueTypes, total: issueTypes.length } };
+        }
+        if (args[0] === '/issue/createmeta/TEST/issuetypes/2') {
+          return { data: { fields: [{ fieldId: 'parent', name: 'Parent', required: true, schema: { type: 'issuelink' } }], total: 1 } };
+        }
+        const key = args[0].split('/')[2];
+        return {
+          data: {
+            key,
+            fields: { summary: key, description: null, status: { name: 'To Do' }, issuetype: { name: key === 'TEST-1' ? parentType : 'Subtask' }, project: { key: 'TEST' } }
+          }
+        };
+      }),
+      post: jest.fn(async (..._args: any[]) => ({ data: { key: 'TEST-2' } })),
+    });
+
+    test('should create the sub-task with its parent and the discovered issue type', async () => {
+      const client = createSubtaskClient();
+      const service = createServiceWithClient(client);
+
+      const subtask = await service.createSubtask('TEST-1', { summary: 'Write tests' });
+
+      expect(subtask.key).toBe('TEST-2');
+      expect(client.post).toHaveBeenCalledWith('/issue', {
+        fields: {
+          project: { key: 'TEST' },
+          summary: 'Write tests',
+          issuetype: { name: 'Subtask' },
+          parent: { key: 'TEST-1' }
+        }
+      });
+    });
+
+    test('should reject issue types that are not sub-task types', async () => {
+      const service = createServiceWithClient(createSubtaskClient());
+
+      await expect(service.createSubtask('TEST-1', { summary: 'Bug', issueType: 'Bug' }))
+        .rejects.toThrow('"Bug" is not a sub-task issue type in TEST. Available: Subtask, Technical Sub-task');
+    });
+
+    test('should not create sub-tasks of sub-tasks', async () => {
+      const service = createServiceWithClient(createSubtaskClient('Subtask'));
+
+      await expect(service.createSubtask('TEST-1', { summary: 'Nested' }))
+        .rejects.toThrow("TEST-1 is a Subtask - sub-tasks can't have sub-tasks");
+    });
+  });
 });
@@ -0,0 +1,93 @@
+/**
+ * Plan File Unit Tests
+ * Tests YAML/JSON plan parsing and diff rendering
+ */
+
+import { describe, expect, test } from '@jest/globals';
+import { parsePlan, formatPlanDiff } from '../../src/utils/planFile.js';
+import type { EpicHierarchy } from '../../src/services/jira.js';
+
+describe('Plan Files', () => {
+  describe('parsePlan', () => {
+    test('should read a YAML plan', () => {
+      const plan = parsePlan([
+        'projectKey: PROJ',
+        'epic:',
+        '  externalId: auth',
+        '  summary: Authentication',
+        'stories:',
+        '  - externalId: auth-sso',
+        '    summary: SSO',
+        '    description: |',
+        '      Implement **SSO**',
+        '    tasks:',
+        '      - externalId: auth-sso-oauth',
+        '        summary: OAuth2 provider',
+      ].join('\n'));
+
+      const hierarchy = plan.hierarchy as EpicHierarchy;
+      expect(plan.projectKey).toBe('PROJ');
+      expect(hierarchy.epic).toEqual({ externalId: 'auth', summary: 'Authentication' });
+      expect(hierarchy.stories[0].description).toBe('Implement **SSO**\n');
+      expect(hierarchy.stories[0].tasks?.[0].externalId).toBe('auth-sso-oauth');
+    });
+
+    test('should read a JSON plan', () => {
+      const plan = parsePlan(JSON.stringify({ epic: { externalId: 'e', summary: 'Epic' }, stories: [] }));
+      expect(plan).toEqual({ projectKey: undefined, hierarchy: { epic: { externalId: 'e', summary: 'Epic' }, stories: [] } });
+    });
+
+    test('should report schema problems with their path', () => {
+      expect(() => parsePlan('epic:\n  externalId: e\nstories:\n  - externalId: s\n', 'plan.yaml'))
+        .toThrow('Invalid plan.yaml: epic.summary: Required; stories.0.summary: Required');
+    });
+
+    test('should require an externalId on every node', () => {
+      expect(() => parsePlan(JSON.stringify({
+        epic: { externalId: 'e', summary: 'Epic' },
+        stories: [{ summary: 'Story', tasks: [{ externalId: 't', summary: 'Task' }, { summary: 'Task 2' }] }],
+      }))).toThrow('every node needs an externalId (missing at stories[0], stories[0].tasks[1])');
+    });
+  });
+
+  test('should read a tree plan and require issue types for every level', () => {
+    const plan = parsePlan([
+      'levels: [Initiative, Epic]',
+      'root:',
+      '  externalId: platform',
+      '  summary: Platform',
+      '  children:',
+      '    - externalId: auth',
+      '      summary: Auth',
+      '      children:',
+      '        - { externalId: sso, summary: SSO, issueType: Story }',
+    ].join('\n'));
+    expect(plan.hierarchy).toMatchObject({ levels: ['Initiative', 'Epic'], root: { children: [{ children: [{ issueType: 'Story' }] }] } });
+
+    expect(() => parsePlan('levels: [Epic]\nroot: { externalId: e, summary: E, children: [{ externalId: s, summary: S }] }'))
+      .toThrow('No issue type for root.children[0]: set issueType on the node or add level 2 to levels');
+  });
+
+  describe('formatPlanDiff', () => {
+    test('should render creations, updates and a summary', () => {
+      const text = formatPlanDiff([
+        { path: 'epic', depth: 0, issueType: 'Epic', summary: 'Epic', externalId: 'e', key: 'PROJ-1', action: 'unchanged', changes: [] },
+        {
+          path: 'stories[0]', depth: 1, issueType: 'Story', summary: 'New title', externalId: 's', key: 'PROJ-2', action: 'update',
+          changes: [{ field: 'summary', from: 'Old title', to: 'New title' }, { field: 'description', from: 'a', to: 'b' }]
+        },
+        { path: 'stories[0].tasks[0]', depth: 2, issueType: 'Task', summary: 'Task', externalId: 't', action: 'create', changes: [] },
+      ]);
+
+      expect(text).toBe([
+        '  Epic PROJ-1 "Epic" (e)',
+        '~   Story PROJ-2 "New title" (s)',
+        '        summary: Old title → New title',
+        '        description changed',
+        '+     Task "Task" (t)',
+        '',
+        'Plan: 1 to create, 1 to update, 1 unchanged.',
+      ].join('\n'));
+    });
+  });
+});
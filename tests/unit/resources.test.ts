@@ -0,0 +1,74 @@
+/**
+ * Resource Unit Tests
+ * Tests jira:// URI parsing, issue rendering and subscription polling
+ */
+
+import { describe, expect, test, jest } from '@jest/globals';
+import { ResourceSubscriptions, getResourcePollInterval, issueToMarkdown, parseJiraUri } from '../../src/utils/resources.js';
+
+describe('Resources', () => {
+  test('should parse jira:// URIs', () => {
+    expect(parseJiraUri('jira://issue/proj-12')).toEqual({ kind: 'issue', key: 'PROJ-12' });
+    expect(parseJiraUri('jira://project/PROJ')).toEqual({ kind: 'project', key: 'PROJ' });
+    expect(parseJiraUri('jira://epic/PROJ-1/tree')).toEqual({ kind: 'epicTree', key: 'PROJ-1' });
+    expect(parseJiraUri('jira://filter/10042')).toEqual({ kind: 'filter', id: '10042' });
+    expect(() => parseJiraUri('jira://board/7')).toThrow('Unknown JIRA resource "jira://board/7"');
+  });
+
+  test('should render an issue as Markdown', () => {
+    const markdown = issueToMarkdown({
+      key: 'PROJ-12',
+      fields: {
+        summary: 'Fix login',
+        description: 'Users **cannot** log in',
+        status: { name: 'In Progress' },
+        issuetype: { name: 'Bug' },
+        subtasks: [{ key: 'PROJ-13', fields: { summary: 'Add test', status: { name: 'Done' }, issuetype: { name: 'Sub-task' } } }],
+      },
+    });
+
+    expect(markdown).toBe([
+      '# PROJ-12: Fix login',
+      '',
+      '- **Type:** Bug',
+      '- **Status:** In Progress',
+      '- **Assignee:** Unassigned',
+      '',
+      '## Sub-tasks',
+      '',
+      '- PROJ-13: Add test (Done)',
+      '',
+      '## Description',
+      '',
+      'Users **cannot** log in',
+    ].join('\n'));
+  });
+
+  test('should read the poll interval from the environment', () => {
+    expect(getResourcePollInterval({})).toBe(60000);
+    expect(getResourcePollInterval({ JIRA_RESOURCE_POLL_INTERVAL: '30' })).toBe(30000);
+    expect(() => getResourcePollInterval({ JIRA_RESOURCE_POLL_INTERVAL: '1' })).toThrow('Invalid JIRA_RESOURCE_POLL_INTERVAL');
+  });
+
+  test('should notify only when a subscribed resource changes', async () => {
+    let content = 'v1';
+    const notify = jest.fn(async (_uri: string) => {});
+    const subscriptions = new ResourceSubscriptions(async () => content, notify, () => 60000);
+
+    await subscriptions.subscribe('jira://issue/PROJ-1');
+    await subscriptions.poll();
+    expect(notify).not.toHaveBeenCalled();
+
+    content = 'v2';
+    await subscriptions.poll();
+    await subscriptions.poll();
+    expect(notify).toHaveBeenCalledTimes(1);
+    expect(notify).toHaveBeenCalledWith('jira://issue/PROJ-1');
+
+    subscriptions.unsubscribe('jira://issue/PROJ-1');
+    content = 'v3';
+    await subscriptions.poll();
+    expect(notify).toHaveBeenCalledTimes(1);
+    expect(subscriptions.uris).toEqual([]);
+  });
+});
@@ -0,0 +1,82 @@
+/**
+ * Status Rollup Unit Tests
+ * Tests status classification, aggregation and parent status rules
+ */
+
+import { describe, expect, test } from '@jest/globals';
+import {
+  DEFAULT_STATUS_ROLLUP_RULES,
+  aggregateState,
+  classifyStatus,
+  parseStatusRollupRules,
+  resolveParentStatus,
+  summarizeStatuses,
+} from '../../src/utils/statusRollup.js';
+
+const status = (name: string, key?: string) => ({ name, statusCategory: key ? { key } : undefined });
+
+describe('Status Rollup', () => {
+  describe('default rules', () => {
+    const rules = DEFAULT_STATUS_ROLLUP_RULES;
+
+    test('should classify custom and localized statuses by category', () => {
+      expect(classifyStatus(status('Resolved', 'done'), rules)).toBe('done');
+      expect(classifyStatus(status('Erledigt', 'done'), rules)).toBe('done');
+      expect(classifyStatus(status('QA', 'indeterminate'), rules)).toBe('inProgress');
+      expect(classifyStatus(status('Backlog', 'new'), rules)).toBe('toDo');
+    });
+
+    test('should fall back to status names without a category', () => {
+      expect(classifyStatus(status('Done'), rules)).toBe('done');
+      expect(classifyStatus(status('In Progress'), rules)).toBe('inProgress');
+      expect(classifyStatus(status('Anything'), rules)).toBe('toDo');
+    });
+
+    test('should aggregate task buckets', () => {
+      const summary = summarizeStatuses([status('Closed', 'done'), status('QA', 'indeterminate'), status('Open', 'new')], rules);
+      expect(summary).toEqual({ total: 3, done: 1, inProgress: 1, toDo: 1, ignored: 0 });
+      expect(aggregateState(summary)).toBe('inProgress');
+      expect(aggregateState(summarizeStatuses([status('Closed', 'done')], rules))).toBe('done');
+      expect(aggregateState(summarizeStatuses([], rules))).toBeNull();
+    });
+
+    test('should only move stories forward', () => {
+      expect(resolveParentStatus(status('Open', 'new'), 'inProgress', rules)).toEqual({ statusCategory: 'indeterminate', from: ['toDo'] });
+      expect(resolveParentStatus(status('Review', 'indeterminate'), 'done', rules)).toEqual({ statusCategory: 'done', from: ['toDo', 'inProgress'] });
+      expect(resolveParentStatus(status('Closed', 'done'), 'inProgress', rules)).toBeNull();
+      expect(resolveParentStatus(status('Review', 'indeterminate'), 'toDo', rules)).toBeNull();
+    });
+  });
+
+  describe('rules file', () => {
+    const rules = parseStatusRollupRules({
+      statuses: { 'QA': 'done', "Won't Do": 'ignore' },
+      parentStatus: {
+        done: 'Resolved',
+        toDo: { statusCategory: 'new' },
+      },
+    });
+
+    test('should map statuses by name before category', () => {
+      expect(classifyStatus(status('qa', 'indeterminate'), rules)).toBe('done');
+      const summary = summarizeStatuses([status('QA', 'indeterminate'), status("Won't Do", 'done')], rules);
+      expect(summary).toEqual({ total: 1, done: 1, inProgress: 0, toDo: 0, ignored: 1 });
+      expect(aggregateState(summary)).toBe('done');
+    });
+
+    test('should use configured parent statuses', () => {
+      expect(resolveParentStatus(status('In Progress', 'indeterminate'), 'done', rules)).toEqual({ status: 'Resolved' });
+      expect(resolveParentStatus(status('Resolved', 'done'), 'done', rules)).toBeNull();
+      expect(resolveParentStatus(status('In Progress', 'indeterminate'), 'toDo', rules)).toEqual({ statusCategory: 'new' });
+      expect(resolveParentStatus(status('Open', 'new'), 'inProgress', rules)).toEqual(DEFAULT_STATUS_ROLLUP_RULES.parentStatus.inProgress);
+    });
+
+    test('should reject invalid rules', () => {
+      expect(() => parseStatusRollupRules({ statuses: { QA: 'review' } })).toThrow('statuses.QA: expected one of toDo, inProgress, done, ignore');
+      expect(() => parseStatusRollupRules({ categories: { open: 'toDo' } })).toThrow('unknown status category "open"');
+      expect(() => parseStatusRollupRules({ parentStatus: { done: {} } })).toThrow('a status or statusCategory is required');
+      expect(() => parseStatusRollupRules({ parentStatus: { done: { statusCategory: 'done', from: ['closed'] } } })).toThrow('parentStatus.done.from');
+      expect(() => parseStatusRollupRules([])).toThrow('expected a JSON object');
+    });
+  });
+});
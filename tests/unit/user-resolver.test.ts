@@ -0,0 +1,74 @@
+/**
+ * User Resolver Unit Tests
+ * Tests user lookup by email, name and accountId, ambiguity errors and payload shapes
+ */
+
+import { describe, expect, test, jest } from '@jest/globals';
+import { UserResolver } from '../../src/services/userResolver.js';
+
+const CLOUD_USERS = [
+  { accountId: '5b10ac8d82e05b22cc7d4ef5', displayName: 'Ada Lovelace', emailAddress: 'ada@example.com', active: true },
+  { accountId: '5b10ac8d82e05b22cc7d4ef6', displayName: 'Ada Byron', emailAddress: 'byron@example.com', active: true },
+  { accountId: '5b10ac8d82e05b22cc7d4ef7', displayName: 'Ada King', active: false },
+];
+
+describe('User Resolver', () => {
+  test('should prefer exact email and display name matches and cache lookups', async () => {
+    const get = jest.fn(async (..._args: any[]) => ({ data: CLOUD_USERS }));
+    const resolver = new UserResolver(() => ({ get }) as any, () => false);
+
+    expect((await resolver.resolve('ADA@example.com')).id).toBe('5b10ac8d82e05b22cc7d4ef5');
+    expect((await resolver.resolve('Ada Byron')).id).toBe('5b10ac8d82e05b22cc7d4ef6');
+    await resolver.resolve('ada@example.com');
+
+    expect(get).toHaveBeenCalledTimes(2);
+    expect(get.mock.calls[0]).toEqual(['/user/search', { params: { query: 'ADA@example.com', maxResults: 50 } }]);
+  });
+
+  test('should list active candidates when a name is ambiguous', async () => {
+    const resolver = new UserResolver(() => ({ get: async () => ({ data: CLOUD_USERS }) }) as any, () => false);
+
+    await expect(resolver.resolve('Ada')).rejects.toThrow(
+      '"Ada" matches 2 users: Ada Lovelace (ada@example.com, 5b10ac8d82e05b22cc7d4ef5), Ada Byron (byron@example.com, 5b10ac8d82e05b22cc7d4ef6). '
+      + 'Use their email or accountId instead'
+    );
+    const empty = new UserResolver(() => ({ get: async () => ({ data: [] }) }) as any, () => false);
+    await expect(empty.resolve('nobody')).rejects.toThrow('No active JIRA user matches "nobody"');
+  });
+
+  test('should look accountIds up directly on JIRA Cloud', async () => {
+    const get = jest.fn(async (..._args: any[]) => ({ data: CLOUD_USERS[0] }));
+    const resolver = new UserResolver(() => ({ get }) as any, () => false);
+
+    const user = await resolver.resolve('5b10ac8d82e05b22cc7d4ef5');
+
+    expect(get).toHaveBeenCalledWith('/user', { params: { accountId: '5b10ac8d82e05b22cc7d4ef5' } });
+    expect(resolver.toPayload(user)).toEqual({ accountId: '5b10ac8d82e05b22cc7d4ef5' });
+  });
+
+  test('should resolve "me" and limit assignees to the project or issue', async () => {
+    const get = jest.fn(async (...args: any[]) => ({ data: args[0] === '/myself' ? CLOUD_USERS[1] : [CLOUD_USERS[0]] }));
+    const resolver = new UserResolver(() => ({ get }) as any, () => false);
+
+    expect((await resolver.resolve('Me')).displayName).toBe('Ada Byron');
+    await resolver.resolve('me');
+    await resolver.resolve('Ada', { projectKey: 'TEST' });
+    await resolver.resolve('Ada', { issueKey: 'TEST-1' });
+
+    expect(get.mock.calls.map(call => call[0])).toEqual(['/myself', '/user/assignable/search', '/user/assignable/search']);
+    expect(get.mock.calls[2][1]).toEqual({ params: { query: 'Ada', maxResults: 50, issueKey: 'TEST-1' } });
+    const none = new UserResolver(() => ({ get: async () => ({ data: [] }) }) as any, () => false);
+    await expect(none.resolve('Ada', { projectKey: 'TEST' })).rejects.toThrow('No active JIRA user matching "Ada" can be assigned issues in TEST');
+  });
+
+  test('should search by username and use names on JIRA Server', async () => {
+    const get = jest.fn(async (..._args: any[]) => ({ data: [{ name: 'jdoe', displayName: 'Jane Doe', emailAddress: 'jane@example.com' }] }));
+    const resolver = new UserResolver(() => ({ get }) as any, () => true);
+
+    const user = await resolver.resolve('jane@example.com');
+
+    expect(get.mock.calls[0][1]).toEqual({ params: { username: 'jane@example.com', maxResults: 50 } });
+    expect(resolver.toPayload(user)).toEqual({ name: 'jdoe' });
+    expect(resolver.toParams(user)).toEqual({ username: 'jdoe' });
+  });
+});
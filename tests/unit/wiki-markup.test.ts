@@ -0,0 +1,37 @@
+/**
+ * Wiki Markup Conversion Unit Tests
+ * Fixture-based tests for Markdown ↔ JIRA wiki markup conversion
+ */
+
+import { describe, expect, test } from '@jest/globals';
+import { markdownToWiki, wikiToMarkdown } from '../../src/utils/wikiMarkup.js';
+import {
+  bidirectionalFixtures,
+  wikiToMarkdownFixtures,
+  markdownToWikiFixtures,
+} from '../fixtures/wiki-markup.js';
+
+describe('Wiki Markup Conversion', () => {
+  describe('Markdown → wiki markup', () => {
+    test.each([...bidirectionalFixtures, ...markdownToWikiFixtures])('$name', ({ markdown, wiki }) => {
+      expect(markdownToWiki(markdown)).toBe(wiki);
+    });
+  });
+
+  describe('wiki markup → Markdown', () => {
+    test.each([...bidirectionalFixtures, ...wikiToMarkdownFixtures])('$name', ({ markdown, wiki }) => {
+      expect(wikiToMarkdown(wiki)).toBe(markdown);
+    });
+  });
+
+  describe('round trips', () => {
+    test.each(bidirectionalFixtures)('$name survives wiki → Markdown → wiki', ({ wiki }) => {
+      expect(markdownToWiki(wikiToMarkdown(wiki))).toBe(wiki);
+    });
+  });
+
+  test('should handle empty input', () => {
+    expect(markdownToWiki('')).toBe('');
+    expect(wikiToMarkdown('')).toBe('');
+  });
+});
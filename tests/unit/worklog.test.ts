@@ -0,0 +1,58 @@
+/**
+ * Worklog Unit Tests
+ * Tests duration parsing, timestamps and timesheet aggregation
+ */
+
+import { describe, expect, test } from '@jest/globals';
+import { parseDuration, summarizeTimesheet, toJiraTimestamp } from '../../src/utils/worklog.js';
+
+describe('Worklog', () => {
+  test('should parse JIRA durations', () => {
+    expect(parseDuration('1h 30m')).toBe(5400);
+    expect(parseDuration('45m')).toBe(2700);
+    expect(parseDuration('1w 2d')).toBe(7 * 8 * 3600);
+    expect(parseDuration('1.5h')).toBe(5400);
+    expect(parseDuration('1d', { hoursPerDay: 6, daysPerWeek: 5 })).toBe(6 * 3600);
+  });
+
+  test('should reject durations JIRA would not understand', () => {
+    expect(() => parseDuration('90 minutes')).toThrow('Invalid duration "90 minutes"');
+    expect(() => parseDuration('1h30')).toThrow('Invalid duration');
+    expect(() => parseDuration('0m')).toThrow('Invalid duration');
+    expect(() => parseDuration('')).toThrow('Invalid duration');
+  });
+
+  test('should format start times the way JIRA expects', () => {
+    expect(toJiraTimestamp('2024-05-01T09:00:00Z')).toBe('2024-05-01T09:00:00.000+0000');
+    expect(toJiraTimestamp('2024-05-01T11:00:00+02:00')).toBe('2024-05-01T09:00:00.000+0000');
+    expect(() => toJiraTimestamp('yesterday')).toThrow('Invalid date "yesterday"');
+  });
+
+  test('should group worklogs by author and day', () => {
+    const timesheet = summarizeTimesheet([
+      { issueKey: 'TEST-1', author: 'Grace', authorId: 'g1', started: '2024-05-02T09:00:00.000+0200', timeSpentSeconds: 3600 },
+      { issueKey: 'TEST-2', author: 'Ada', authorId: 'a1', started: '2024-05-01T09:00:00.000+0000', timeSpentSeconds: 5400 },
+      { issueKey: 'TEST-1', author: 'Ada', authorId: 'a1', started: '2024-05-01T14:00:00.000+0000', timeSpentSeconds: 1800 },
+      { issueKey: 'TEST-1', author: 'Ada', authorId: 'a1', started: '2024-05-01T16:00:00.000+0000', timeSpentSeconds: 36000 },
+      { issueKey: 'TEST-3', author: 'Ada', authorId: 'a1', started: '2024-04-30T09:00:00.000+0000', timeSpentSeconds: 3600 },
+    ], '2024-05-01', '2024-05-02');
+
+    expect(timesheet.timeSpent).toBe('13h');
+    expect(timesheet.users).toEqual([
+      {
+        author: 'Ada',
+        authorId: 'a1',
+        seconds: 43200,
+        timeSpent: '12h',
+        days: [{ date: '2024-05-01', seconds: 43200, timeSpent: '12h', issues: { 'TEST-2': '1h 30m', 'TEST-1': '10h 30m' } }],
+      },
+      {
+        author: 'Grace',
+        authorId: 'g1',
+        seconds: 3600,
+        timeSpent: '1h',
+        days: [{ date: '2024-05-02', seconds: 3600, timeSpent: '1h', issues: { 'TEST-1': '1h' } }],
+      },
+    ]);
+  });
+});